@@ -2,46 +2,123 @@ import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { BillUploader } from './components/BillUploader';
 import { TransactionList } from './components/TransactionList';
 import { CategoryChart } from './components/CategoryChart';
-import { Transaction, NewTransaction, DeletedItem, Category } from './types';
-import { LogoIcon } from './components/icons';
+import { MonthlyReport } from './components/MonthlyReport';
+import { TrendsView } from './components/TrendsView';
+import { CalendarView } from './components/CalendarView';
+import { InsightsPanel } from './components/InsightsPanel';
+import { Transaction, NewTransaction, DeletedItem, CategoryDef, CategoryId, Budget, RecurringRule, Account, ExchangeRate, CategoryRule, MerchantPreference, Merchant, ImportPreset, CategoryMapping } from './types';
+import { LogoIcon, SpinnerIcon } from './components/icons';
 import { RecordDetailModal } from './components/RecordDetailModal';
 import { TransactionFormModal } from './components/TransactionFormModal';
 import { BottomNavBar } from './components/BottomNavBar';
 import { SettingsPanel } from './components/SettingsPanel';
 import { TrashView } from './components/TrashView';
+import { CategoryManager } from './components/CategoryManager';
+import { RecurringView } from './components/RecurringView';
+import { AccountsView } from './components/AccountsView';
+import { TransferDetailModal } from './components/TransferDetailModal';
+import { CurrencySettings } from './components/CurrencySettings';
+import { RuleManager } from './components/RuleManager';
+import { MerchantManager } from './components/MerchantManager';
+import { ImportWizard } from './components/ImportWizard';
+import { LedgerImport } from './components/LedgerImport';
+import { usePersistentList } from './utils/usePersistentList';
+import { useBillQueue } from './utils/useBillQueue';
+import { localDateStr, txKey } from './utils/helpers';
+import { dueOccurrences, materialize } from './utils/recurrence';
+import { CategoryContext, buildRegistry } from './utils/categories';
+import { AccountContext } from './utils/accounts';
+import { CurrencyContext, buildConverter } from './utils/currency';
+import { RuleChange, RulesContext } from './utils/rules';
+import { CategoryCorrection, PreferencesContext, recordCorrections } from './utils/preferences';
+import { MerchantContext, buildMerchantIndex, normalizeMerchant } from './utils/merchants';
+import { DEFAULT_ACCOUNTS, DEFAULT_CATEGORIES, DEFAULT_CURRENCY, DEFAULT_RATES, DEFAULT_RULES, DEFAULT_MERCHANTS, DEFAULT_CATEGORY_MAPPINGS, CHINESE_CATEGORY_MAPPINGS } from './constants';
+import { RecognizerConfig, loadRecognizerConfig, saveRecognizerConfig } from './services/recognizers';
+import { ImportPlan, normalizeImportItem } from './utils/importPreview';
+import { BackupData } from './utils/backup';
+import { PeriodSettings, loadPeriodSettings, savePeriodSettings } from './utils/periods';
+import { Anomaly, anomalyKey, detectAnomalies, loadDismissedAnomalies, saveDismissedAnomalies } from './utils/anomalies';
 
-type Tab = 'upload' | 'chart' | 'list' | 'settings' | 'trash' | 'me';
+type Tab = 'upload' | 'chart' | 'list' | 'settings' | 'trash' | 'categories' | 'recurring' | 'accounts' | 'currency' | 'rules' | 'merchants' | 'trends' | 'calendar' | 'insights' | 'me';
+
+const TRASH_RETENTION_MS = 3 * 24 * 60 * 60 * 1000;
 
 const App: React.FC = () => {
-  const [transactions, setTransactions] = useState<Transaction[]>(() => {
-    try {
-      const savedTransactions = localStorage.getItem('transactions');
-      const parsed: any[] = savedTransactions ? JSON.parse(savedTransactions) : [];
-      const migratedFlag = localStorage.getItem('addedAtMigrated') === '1';
-      let needMigration = false;
-      const nowISO = new Date().toISOString();
-      const list = parsed.map((t) => {
-        if (t.addedAt) return t;
-        needMigration = true;
-        return { ...t, addedAt: nowISO };
-      });
-      if (needMigration && !migratedFlag) {
-        try {
-          localStorage.setItem('transactions', JSON.stringify(list));
-          localStorage.setItem('addedAtMigrated', '1');
-        } catch {}
-      }
-      return list as Transaction[];
-    } catch (error) {
-      console.error("Could not parse transactions from localStorage", error);
-      return [];
-    }
+  const [transactions, setTransactions, transactionsLoaded] = usePersistentList<Transaction>(
+    'transactions',
+    t => t.id,
+    list => list.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
+  );
+
+  const [categories, setCategories] = usePersistentList<CategoryDef>('categories', c => c.id);
+  // Fall back to the built-ins until the registry has loaded (or if IndexedDB is unavailable);
+  // changes start from the same list, so a write before then does not drop the built-ins
+  const categoryList = categories.length ? categories : DEFAULT_CATEGORIES;
+  const categoryRegistry = useMemo(() => buildRegistry(categoryList), [categoryList]);
+  const updateCategories = (fn: (list: CategoryDef[]) => CategoryDef[]) =>
+    setCategories(prev => fn(prev.length ? prev : DEFAULT_CATEGORIES));
+
+  const [budgets, setBudgets] = usePersistentList<Budget>('budgets', b => b.id);
+
+  const [accounts, setAccounts] = usePersistentList<Account>('accounts', a => a.id);
+  const accountList = useMemo(() => (accounts.length ? accounts : DEFAULT_ACCOUNTS), [accounts]);
+
+  const [rules, setRules, rulesLoaded] = usePersistentList<CategoryRule>('rules', r => r.id);
+  // The store is seeded with the defaults, so an empty list means the user removed every rule
+  const ruleList = useMemo(() => (rulesLoaded ? rules : DEFAULT_RULES), [rules, rulesLoaded]);
+
+  const [preferences, setPreferences] = usePersistentList<MerchantPreference>('preferences', p => p.key);
+  const preferenceMap = useMemo(() => new Map(preferences.map(p => [p.key, p])), [preferences]);
+
+  const [merchants, setMerchants, merchantsLoaded] = usePersistentList<Merchant>('merchants', m => m.id);
+  const merchantIndex = useMemo(() => buildMerchantIndex(merchantsLoaded ? merchants : DEFAULT_MERCHANTS), [merchants, merchantsLoaded]);
+
+  const [importPresets, setImportPresets] = usePersistentList<ImportPreset>('importPresets', p => p.id);
+  // Spreadsheet being imported through the wizard
+  const [importFile, setImportFile] = useState<File | null>(null);
+
+  const [categoryMappings, setCategoryMappings, mappingsLoaded] = usePersistentList<CategoryMapping>('categoryMappings', m => m.id);
+  // Until the store has loaded, the built-ins that migrations v14 and v15 seed
+  const mappingList = useMemo(
+    () => (mappingsLoaded ? categoryMappings : [...DEFAULT_CATEGORY_MAPPINGS, ...CHINESE_CATEGORY_MAPPINGS]),
+    [categoryMappings, mappingsLoaded]
+  );
+  // Export of another bookkeeping app being imported
+  const [ledgerFile, setLedgerFile] = useState<File | null>(null);
+
+  const [rates, setRates, ratesLoaded] = usePersistentList<ExchangeRate>('rates', r => r.currency);
+  const [baseCurrency, setBaseCurrency] = useState<string>(() => {
+    try { return localStorage.getItem('baseCurrency') || DEFAULT_CURRENCY; } catch { return DEFAULT_CURRENCY; }
   });
+  const currencyConverter = useMemo(
+    () => buildConverter(baseCurrency, ratesLoaded ? rates : DEFAULT_RATES),
+    [baseCurrency, rates, ratesLoaded]
+  );
+
+  const [recognizerConfig, setRecognizerConfig] = useState<RecognizerConfig>(loadRecognizerConfig);
+  const billQueue = useBillQueue(recognizerConfig, categoryRegistry);
+
+  const [recurringRules, setRecurringRules, recurringLoaded] = usePersistentList<RecurringRule>('recurring', r => r.id);
 
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [currentMonth, setCurrentMonth] = useState<string>(new Date().toISOString().slice(0, 7));
+  // Any day in the period the chart shows; the period itself follows periodSettings
+  const [periodAnchor, setPeriodAnchor] = useState<string>(() => localDateStr(new Date()));
+  const [periodSettings, setPeriodSettings] = useState<PeriodSettings>(loadPeriodSettings);
+  const [reportOpen, setReportOpen] = useState(false);
+  const [dismissedAnomalies, setDismissedAnomalies] = useState<Set<string>>(loadDismissedAnomalies);
+
+  // Flags the user has not dismissed, by transaction ID
+  const anomalies = useMemo(() => {
+    const open = new Map<string, Anomaly[]>();
+    detectAnomalies(transactions, categoryRegistry, merchantIndex, currencyConverter.toBase).forEach((list, id) => {
+      const left = list.filter(a => !dismissedAnomalies.has(anomalyKey(id, a)));
+      if (left.length) open.set(id, left);
+    });
+    return open;
+  }, [transactions, categoryRegistry, merchantIndex, currencyConverter, dismissedAnomalies]);
   const [selectedRecordName, setSelectedRecordName] = useState<string | null>(null);
+  const [selectedTransfer, setSelectedTransfer] = useState<Transaction | null>(null);
   
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
@@ -54,18 +131,16 @@ const App: React.FC = () => {
   const [listResetSeq, setListResetSeq] = useState(0);
   const [listSelectMode, setListSelectMode] = useState(false);
 
-  const [trash, setTrash] = useState<DeletedItem[]>(() => {
-    try {
-      const saved = localStorage.getItem('trash');
-      const arr: DeletedItem[] = saved ? JSON.parse(saved) : [];
+  const [trash, setTrash] = usePersistentList<DeletedItem>(
+    'trash',
+    it => it.tx.id,
+    list => {
       const now = Date.now();
-      return arr
-        .filter(it => now - new Date(it.deletedAt).getTime() < 3 * 24 * 60 * 60 * 1000)
+      return list
+        .filter(it => now - new Date(it.deletedAt).getTime() < TRASH_RETENTION_MS)
         .sort((a,b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
-    } catch {
-      return [];
-    }
-  });
+    },
+  );
 
   useEffect(() => {
     const handleResize = () => {
@@ -93,29 +168,36 @@ const App: React.FC = () => {
     };
   }, []);
 
-  // Persist trash and prune items older than 3 days
   useEffect(() => {
-    try {
-      const now = Date.now();
-      const pruned = trash.filter(it => now - new Date(it.deletedAt).getTime() < 3 * 24 * 60 * 60 * 1000);
-      if (pruned.length !== trash.length) {
-        setTrash(pruned);
-        localStorage.setItem('trash', JSON.stringify(pruned));
-      } else {
-        localStorage.setItem('trash', JSON.stringify(trash));
-      }
-    } catch (error) {
-      console.error("Could not save trash to localStorage", error);
-    }
+    try { localStorage.setItem('baseCurrency', baseCurrency); } catch {}
+  }, [baseCurrency]);
+
+  useEffect(() => {
+    saveRecognizerConfig(recognizerConfig);
+  }, [recognizerConfig]);
+
+  useEffect(() => {
+    savePeriodSettings(periodSettings);
+  }, [periodSettings]);
+
+  useEffect(() => {
+    saveDismissedAnomalies(dismissedAnomalies);
+  }, [dismissedAnomalies]);
+
+  // Prune trash items older than 3 days (persistence is handled by usePersistentList)
+  useEffect(() => {
+    const now = Date.now();
+    const pruned = trash.filter(it => now - new Date(it.deletedAt).getTime() < TRASH_RETENTION_MS);
+    if (pruned.length !== trash.length) setTrash(pruned);
   }, [trash]);
 
   const handleAddTransactions = (newTransactions: NewTransaction[]): Transaction[] => {
     const existingKeys = new Set(
-        transactions.map(t => `${t.name}|${t.date}|${t.amount}`)
+        transactions.map(txKey)
     );
 
     const uniqueNewTransactions = newTransactions.filter(
-        t => !existingKeys.has(`${t.name}|${t.date}|${t.amount}`)
+        t => !existingKeys.has(txKey(t))
     );
 
     if (uniqueNewTransactions.length > 0) {
@@ -134,6 +216,20 @@ const App: React.FC = () => {
     return [];
   };
   
+  // Create transactions for recurring rules that came due since they were last checked.
+  // Runs on load and whenever a rule changes; dedupe in handleAddTransactions guards reruns.
+  useEffect(() => {
+    if (!transactionsLoaded || !recurringLoaded) return;
+    const today = localDateStr(new Date());
+    const stale = recurringRules.filter(r => !r.generatedThrough || r.generatedThrough < today);
+    if (!stale.length) return;
+    const due = stale.flatMap(r => dueOccurrences(r, today).map(day => materialize(r, day)));
+    if (due.length) handleAddTransactions(due);
+    // Paused rules are advanced too, so resuming does not backfill the paused period
+    const staleIds = new Set(stale.map(r => r.id));
+    setRecurringRules(prev => prev.map(r => staleIds.has(r.id) ? { ...r, generatedThrough: today } : r));
+  }, [transactionsLoaded, recurringLoaded, recurringRules]);
+
   const handleShowRecordHistory = (recordName: string) => {
     setSelectedRecordName(recordName);
   };
@@ -152,8 +248,19 @@ const App: React.FC = () => {
     setEditingTransaction(null);
   };
   
+  // Category fixes teach the per-merchant preference model, keyed by canonical merchant
+  const handleCategoryCorrections = (corrections: CategoryCorrection[]) => {
+    if (!corrections.length) return;
+    const canonical = corrections.map(c => ({ ...c, name: merchantIndex.canonical(c.name) }));
+    setPreferences(prev => recordCorrections(prev, canonical));
+  };
+
   const handleSaveTransaction = (transactionData: Transaction | NewTransaction) => {
     if ('id' in transactionData && transactionData.id) {
+      const before = transactions.find(t => t.id === transactionData.id);
+      if (before && before.category !== transactionData.category && transactionData.direction !== 'transfer') {
+        handleCategoryCorrections([{ name: transactionData.name, category: transactionData.category }]);
+      }
       setTransactions(prev => prev.map(t => t.id === transactionData.id ? transactionData as Transaction : t));
     } else {
       const newTransaction: Transaction = {
@@ -174,14 +281,97 @@ const App: React.FC = () => {
     }
   };
 
-  const handleBulkChangeCategory = (ids: string[], category: Category) => {
+  const handleSaveCategory = (category: CategoryDef) => {
+    updateCategories(prev => prev.some(c => c.id === category.id)
+      ? prev.map(c => c.id === category.id ? category : c)
+      : [...prev, category]);
+  };
+
+  const handleSaveAccount = (account: Account) => {
+    setAccounts(prev => prev.some(a => a.id === account.id)
+      ? prev.map(a => a.id === account.id ? account : a)
+      : [...prev, account]);
+  };
+
+  // Imported accounts are added; ones that already exist locally are left as they are
+  const handleImportAccounts = (incoming: Account[]) => {
+    setAccounts(prev => {
+      const known = new Set(prev.map(a => a.id));
+      return [...prev, ...incoming.filter(a => !known.has(a.id))];
+    });
+  };
+
+  const handleSaveRate = (rate: ExchangeRate) => {
+    setRates(prev => [...prev.filter(r => r.currency !== rate.currency), rate]);
+  };
+
+  const handleDeleteRate = (currency: string) => {
+    setRates(prev => prev.filter(r => r.currency !== currency));
+  };
+
+  const handleSaveCategoryRule = (rule: CategoryRule) => {
+    setRules(prev => prev.some(r => r.id === rule.id) ? prev.map(r => r.id === rule.id ? rule : r) : [...prev, rule]);
+  };
+
+  const handleDeleteCategoryRule = (ruleId: string) => {
+    setRules(prev => prev.filter(r => r.id !== ruleId));
+  };
+
+  const handleApplyRuleChanges = (changes: RuleChange[]) => {
+    const next = new Map(changes.map(c => [c.tx.id, c.category]));
+    setTransactions(prev => prev.map(t => next.has(t.id) ? { ...t, category: next.get(t.id)! } : t));
+  };
+
+  const handleSaveMerchant = (merchant: Merchant) => {
+    setMerchants(prev => prev.some(m => m.id === merchant.id) ? prev.map(m => m.id === merchant.id ? merchant : m) : [...prev, merchant]);
+  };
+
+  const handleDeleteMerchant = (merchantId: string) => {
+    setMerchants(prev => prev.filter(m => m.id !== merchantId));
+  };
+
+  // Existing records the merchant matches take its canonical name, like newly imported ones
+  const handleApplyMerchant = (merchant: Merchant) => {
+    const index = buildMerchantIndex([merchant]);
+    setTransactions(prev => prev.map(t => t.direction === 'transfer' ? t : normalizeMerchant(index, t)));
+  };
+
+  const handleSaveImportPreset = (preset: ImportPreset) => {
+    setImportPresets(prev => prev.some(p => p.id === preset.id) ? prev.map(p => p.id === preset.id ? preset : p) : [...prev, preset]);
+  };
+
+  const handleDeleteImportPreset = (presetId: string) => {
+    setImportPresets(prev => prev.filter(p => p.id !== presetId));
+  };
+
+  const handleSaveCategoryMappings = (changed: CategoryMapping[]) => {
+    const next = new Map(changed.map(m => [m.id, m]));
+    setCategoryMappings(prev => [...prev.filter(m => !next.has(m.id)), ...changed]);
+  };
+
+  const handleSaveRecurringRule = (rule: RecurringRule) => {
+    setRecurringRules(prev => prev.some(r => r.id === rule.id)
+      ? prev.map(r => r.id === rule.id ? rule : r)
+      : [...prev, rule]);
+  };
+
+  const handleDeleteRecurringRule = (ruleId: string) => {
+    setRecurringRules(prev => prev.filter(r => r.id !== ruleId));
+  };
+
+  const handleBulkChangeCategory = (ids: string[], category: CategoryId) => {
     if (!ids.length) return;
+    handleCategoryCorrections(
+      transactions
+        .filter(t => ids.includes(t.id) && t.category !== category && t.direction !== 'transfer')
+        .map(t => ({ name: t.name, category }))
+    );
     setTransactions(prev => prev.map(t => ids.includes(t.id) ? { ...t, category } : t));
   };
 
   const handleRestoreTransaction = (tx: Transaction) => {
     setTransactions(prev => {
-      const exists = prev.some(t => t.name === tx.name && t.date === tx.date && t.amount === tx.amount);
+      const exists = prev.some(t => txKey(t) === txKey(tx));
       const list = exists ? prev : [{ ...tx }, ...prev];
       return list.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
     });
@@ -202,27 +392,27 @@ const App: React.FC = () => {
     });
   };
 
-  const handleImportTransactions = (items: any[]) => {
-    // Normalize and de-duplicate against existing
-    const existingKeys = new Set(transactions.map(t => `${t.name}|${t.date}|${t.amount}`));
-    const normalized = items
-      .map((it: any) => {
-        try {
-          const name = String(it.name || '').trim();
-          const amount = Math.abs(Number(it.amount));
-          const date = String(it.date || '').slice(0, 16); // YYYY-MM-DDTHH:mm
-          const category = it.category as any;
-          const location = it.location ? String(it.location) : undefined;
-          if (!name || !date || !isFinite(amount) || amount <= 0) return null;
-          return { name, amount, date, category, location } as NewTransaction;
-        } catch {
-          return null;
-        }
-      })
-      .filter(Boolean) as NewTransaction[];
+  // A duplicate is dismissed for both records of the pair
+  const handleDismissAnomaly = (transactionId: string, anomaly: Anomaly) => {
+    setDismissedAnomalies(prev => {
+      const next = new Set(prev);
+      next.add(anomalyKey(transactionId, anomaly));
+      if (anomaly.kind === 'duplicate') next.add(anomalyKey(anomaly.otherId, anomaly));
+      return next;
+    });
+  };
 
-    const unique = normalized.filter(t => !existingKeys.has(`${t.name}|${t.date}|${t.amount}`));
-    if (unique.length === 0) return;
+  // Returns how many records were added; the rest were invalid or already in the ledger
+  const handleImportTransactions = (items: any[]): number => {
+    const existingKeys = new Set(transactions.map(txKey));
+    const ctx = { registry: categoryRegistry, merchants: merchantIndex };
+    const unique = items
+      .flatMap(it => {
+        const result = normalizeImportItem(it, ctx);
+        return 'tx' in result ? [result.tx] : [];
+      })
+      .filter(t => !existingKeys.has(txKey(t)));
+    if (unique.length === 0) return 0;
 
     const nowISO = new Date().toISOString();
     const withIds: Transaction[] = unique.map(t => ({
@@ -233,18 +423,66 @@ const App: React.FC = () => {
     setTransactions(prev =>
       [...withIds, ...prev].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
     );
+    return withIds.length;
+  };
+
+  // Applies a previewed import in one step and returns a function that reverts all of it.
+  // Overwritten records keep their ID, when they were added and their recurring rule.
+  const handleMergeImport = (plan: ImportPlan, extras: Pick<BackupData, 'accounts' | 'budgets' | 'categories'>): (() => void) => {
+    const nowISO = new Date().toISOString();
+    const added: Transaction[] = plan.added.map(t => ({
+      ...t,
+      id: new Date().getTime().toString() + Math.random().toString(36).slice(2, 9),
+      addedAt: nowISO,
+    }));
+    const addedIds = new Set(added.map(t => t.id));
+    const replacements = new Map(plan.overwrites.map(o => [o.id, o.tx]));
+    const originals = new Map(transactions.filter(t => replacements.has(t.id)).map(t => [t.id, t]));
+    const knownAccounts = new Set(accounts.map(a => a.id));
+    const newAccountIds = new Set(extras.accounts.filter(a => !knownAccounts.has(a.id)).map(a => a.id));
+    const previousBudgets = budgets;
+    const newCategoryIds = new Set(extras.categories.map(c => c.id));
+
+    // Categories and accounts first so imported transactions can refer to them
+    if (extras.categories.length) updateCategories(prev => [...prev, ...extras.categories]);
+    if (extras.accounts.length) handleImportAccounts(extras.accounts);
+    setTransactions(prev =>
+      [...added, ...prev.map(t => {
+        const tx = replacements.get(t.id);
+        return tx ? { ...tx, id: t.id, addedAt: t.addedAt, recurringRuleId: t.recurringRuleId } : t;
+      })].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+    );
+    if (extras.budgets.length) handleImportBudgets(extras.budgets);
+
+    return () => {
+      setTransactions(prev => prev.filter(t => !addedIds.has(t.id)).map(t => originals.get(t.id) || t));
+      if (newAccountIds.size) setAccounts(prev => prev.filter(a => !newAccountIds.has(a.id)));
+      if (newCategoryIds.size) updateCategories(prev => prev.filter(c => !newCategoryIds.has(c.id)));
+      if (extras.budgets.length) setBudgets(previousBudgets);
+    };
+  };
+
+  // Imported budgets replace existing ones with the same ID or for the same category
+  const handleImportBudgets = (incoming: Budget[]) => {
+    setBudgets(prev => {
+      const keyOf = (b: Budget) => b.categoryId || '';
+      const replaced = new Set(incoming.flatMap(b => [b.id, `k:${keyOf(b)}`]));
+      return [...prev.filter(b => !replaced.has(b.id) && !replaced.has(`k:${keyOf(b)}`)), ...incoming];
+    });
   };
 
   const handleClearAll = () => {
     setTransactions([]);
   };
 
+  // History covers every name the merchant goes by, not just the one that was tapped
   const recordHistory = useMemo(() => {
       if (!selectedRecordName) return [];
+      const key = merchantIndex.groupKey(selectedRecordName);
       return transactions
-          .filter(t => t.name === selectedRecordName)
+          .filter(t => merchantIndex.groupKey(t.name) === key)
           .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  }, [transactions, selectedRecordName]);
+  }, [transactions, selectedRecordName, merchantIndex]);
 
   // Reset middle scroll on tab change; also trigger list internal reset when entering list tab
   useEffect(() => {
@@ -256,7 +494,39 @@ const App: React.FC = () => {
     }
   }, [activeTab]);
 
+  // Shared by the mobile tab and the desktop side panel
+  const renderCalendar = () => (
+    <CalendarView
+      transactions={transactions}
+      month={periodAnchor.slice(0, 7)}
+      setMonth={month => setPeriodAnchor(`${month}-01`)}
+      weekStart={periodSettings.weekStart}
+      onEditClick={(t) => handleOpenTransactionModal(t)}
+      onDeleteClick={handleDeleteTransaction}
+      onBack={() => setActiveTab('chart')}
+    />
+  );
+
+  const renderInsights = () => (
+    <InsightsPanel
+      transactions={transactions}
+      anomalies={anomalies}
+      onEditClick={(t) => handleOpenTransactionModal(t)}
+      onDeleteClick={handleDeleteTransaction}
+      onDismiss={handleDismissAnomaly}
+      onBack={() => setActiveTab('chart')}
+    />
+  );
+
   const renderContent = () => {
+    if (!transactionsLoaded) {
+      return (
+        <div className="min-h-[40vh] flex items-center justify-center text-gray-500">
+          <SpinnerIcon className="animate-spin h-6 w-6 mr-2" />
+          <span>正在加载账单…</span>
+        </div>
+      );
+    }
     if (isMobile) {
       switch (activeTab) {
         case 'upload':
@@ -271,6 +541,13 @@ const App: React.FC = () => {
               onDeleteInline={handleDeleteTransaction}
               onBulkChangeInline={(ids, category) => handleBulkChangeCategory(ids, category)}
               transactions={transactions}
+              recognizerConfig={recognizerConfig}
+              queue={billQueue.queue}
+              onEnqueue={billQueue.enqueue}
+              onRetryQueued={billQueue.retry}
+              onRemoveQueued={billQueue.remove}
+              onCategoryCorrections={handleCategoryCorrections}
+              onOpenImport={setImportFile}
             />
           );
         case 'me':
@@ -287,10 +564,21 @@ const App: React.FC = () => {
           return (
             <CategoryChart
               transactions={transactions}
-              currentMonth={currentMonth}
-              setCurrentMonth={setCurrentMonth}
+              anchor={periodAnchor}
+              setAnchor={setPeriodAnchor}
+              periodSettings={periodSettings}
+              onPeriodSettingsChange={setPeriodSettings}
               onEditClick={(t) => handleOpenTransactionModal(t)}
               onDeleteClick={handleDeleteTransaction}
+              budgets={budgets}
+              onSaveBudgets={setBudgets}
+              onBaseCurrencyChange={setBaseCurrency}
+              onMerchantClick={handleShowRecordHistory}
+              onOpenReport={() => setReportOpen(true)}
+              onOpenTrends={() => setActiveTab('trends')}
+              onOpenCalendar={() => setActiveTab('calendar')}
+              anomalies={anomalies}
+              onOpenInsights={() => setActiveTab('insights')}
             />
           );
         case 'list':
@@ -299,21 +587,102 @@ const App: React.FC = () => {
               resetToken={listResetSeq}
               transactions={transactions}
               onRecordClick={handleShowRecordHistory}
+              onTransferClick={setSelectedTransfer}
               onAddClick={() => handleOpenTransactionModal()}
               onEditClick={(t) => handleOpenTransactionModal(t)}
               onDeleteClick={handleDeleteTransaction}
               onBulkChangeCategory={handleBulkChangeCategory}
               onBulkDelete={handleBulkDeleteTransactions}
               onSelectModeChange={setListSelectMode}
+              anomalies={anomalies}
             />
           );
         case 'settings':
           return (
             <SettingsPanel
               transactions={transactions}
+              budgets={budgets}
+              accounts={accounts}
               onImport={handleImportTransactions}
+              onMergeImport={handleMergeImport}
               onClearAll={handleClearAll}
               onOpenTrash={() => setActiveTab('trash')}
+              onOpenCategories={() => setActiveTab('categories')}
+              onOpenRecurring={() => setActiveTab('recurring')}
+              onOpenAccounts={() => setActiveTab('accounts')}
+              onOpenCurrency={() => setActiveTab('currency')}
+              onOpenRules={() => setActiveTab('rules')}
+              onOpenMerchants={() => setActiveTab('merchants')}
+              onOpenImport={setImportFile}
+              onOpenLedgerImport={setLedgerFile}
+              recognizerConfig={recognizerConfig}
+              onRecognizerConfigChange={setRecognizerConfig}
+            />
+          );
+        case 'categories':
+          return (
+            <CategoryManager
+              categories={categories}
+              onBack={() => setActiveTab('settings')}
+              onSave={handleSaveCategory}
+            />
+          );
+        case 'accounts':
+          return (
+            <AccountsView
+              accounts={accountList}
+              transactions={transactions}
+              onBack={() => setActiveTab('settings')}
+              onSave={handleSaveAccount}
+              onTransferClick={setSelectedTransfer}
+            />
+          );
+        case 'currency':
+          return (
+            <CurrencySettings
+              rates={rates}
+              baseCurrency={baseCurrency}
+              onBaseCurrencyChange={setBaseCurrency}
+              onSaveRate={handleSaveRate}
+              onDeleteRate={handleDeleteRate}
+              onBack={() => setActiveTab('settings')}
+            />
+          );
+        case 'rules':
+          return (
+            <RuleManager
+              rules={ruleList}
+              transactions={transactions}
+              onBack={() => setActiveTab('settings')}
+              onSave={handleSaveCategoryRule}
+              onDelete={handleDeleteCategoryRule}
+              onApply={handleApplyRuleChanges}
+            />
+          );
+        case 'merchants':
+          return (
+            <MerchantManager
+              merchants={merchantIndex.merchants}
+              transactions={transactions}
+              onBack={() => setActiveTab('settings')}
+              onSave={handleSaveMerchant}
+              onDelete={handleDeleteMerchant}
+              onApplyToRecords={handleApplyMerchant}
+            />
+          );
+        case 'trends':
+          return <TrendsView transactions={transactions} onBack={() => setActiveTab('chart')} />;
+        case 'calendar':
+          return renderCalendar();
+        case 'insights':
+          return renderInsights();
+        case 'recurring':
+          return (
+            <RecurringView
+              rules={recurringRules}
+              onBack={() => setActiveTab('settings')}
+              onSave={handleSaveRecurringRule}
+              onDelete={handleDeleteRecurringRule}
             />
           );
         case 'trash':
@@ -342,34 +711,68 @@ const App: React.FC = () => {
             onDeleteInline={handleDeleteTransaction}
             onBulkChangeInline={(ids, category) => handleBulkChangeCategory(ids, category)}
             transactions={transactions}
+            recognizerConfig={recognizerConfig}
+            queue={billQueue.queue}
+            onEnqueue={billQueue.enqueue}
+            onRetryQueued={billQueue.retry}
+            onRemoveQueued={billQueue.remove}
+            onCategoryCorrections={handleCategoryCorrections}
+            onOpenImport={setImportFile}
           />
           <CategoryChart
             transactions={transactions}
-            currentMonth={currentMonth}
-            setCurrentMonth={setCurrentMonth}
+            anchor={periodAnchor}
+            setAnchor={setPeriodAnchor}
+            periodSettings={periodSettings}
+            onPeriodSettingsChange={setPeriodSettings}
             onEditClick={(t) => handleOpenTransactionModal(t)}
             onDeleteClick={handleDeleteTransaction}
+            budgets={budgets}
+            onSaveBudgets={setBudgets}
+            onBaseCurrencyChange={setBaseCurrency}
+            onMerchantClick={handleShowRecordHistory}
+            onOpenReport={() => setReportOpen(true)}
+            onOpenTrends={() => setActiveTab('trends')}
+            onOpenCalendar={() => setActiveTab('calendar')}
+            anomalies={anomalies}
+            onOpenInsights={() => setActiveTab('insights')}
           />
         </div>
         <div className="lg:col-span-2">
-          <TransactionList
-            resetToken={listResetSeq}
-            transactions={transactions}
-            onRecordClick={handleShowRecordHistory}
-            onAddClick={() => handleOpenTransactionModal()}
-            onEditClick={(t) => handleOpenTransactionModal(t)}
-            onDeleteClick={handleDeleteTransaction}
-            onBulkChangeCategory={handleBulkChangeCategory}
-            onBulkDelete={handleBulkDeleteTransactions}
-            onSelectModeChange={setListSelectMode}
-          />
+          {activeTab === 'trends' ? (
+            <TrendsView transactions={transactions} onBack={() => setActiveTab('chart')} />
+          ) : activeTab === 'calendar' ? (
+            renderCalendar()
+          ) : activeTab === 'insights' ? (
+            renderInsights()
+          ) : (
+            <TransactionList
+              resetToken={listResetSeq}
+              transactions={transactions}
+              onRecordClick={handleShowRecordHistory}
+              onTransferClick={setSelectedTransfer}
+              onAddClick={() => handleOpenTransactionModal()}
+              onEditClick={(t) => handleOpenTransactionModal(t)}
+              onDeleteClick={handleDeleteTransaction}
+              onBulkChangeCategory={handleBulkChangeCategory}
+              onBulkDelete={handleBulkDeleteTransactions}
+              onSelectModeChange={setListSelectMode}
+              anomalies={anomalies}
+            />
+          )}
         </div>
       </div>
     );
   };
 
   return (
-    <div className="min-h-screen md:bg-gray-50 bg-white text-gray-800 overflow-hidden">
+    <CategoryContext.Provider value={categoryRegistry}>
+    <AccountContext.Provider value={accountList}>
+    <CurrencyContext.Provider value={currencyConverter}>
+    <RulesContext.Provider value={ruleList}>
+    <PreferencesContext.Provider value={preferenceMap}>
+    <MerchantContext.Provider value={merchantIndex}>
+    <div className="min-h-screen md:bg-gray-50 bg-white text-gray-800 overflow-hidden print:hidden">
       <header className="bg-white shadow-sm fixed top-0 left-0 right-0 z-20" style={{ paddingTop: 'env(safe-area-inset-top)' }}>
         <div className="container mx-auto px-4 py-4 flex items-center gap-3">
             <LogoIcon className="h-8 w-8 text-blue-600"/>
@@ -397,12 +800,44 @@ const App: React.FC = () => {
       
       {selectedRecordName && (
           <RecordDetailModal
-              recordName={selectedRecordName}
+              recordName={merchantIndex.canonical(selectedRecordName)}
               transactions={recordHistory}
               onClose={handleCloseRecordModal}
           />
       )}
       
+      {importFile && (
+          <ImportWizard
+              file={importFile}
+              transactions={transactions}
+              presets={importPresets}
+              onSavePreset={handleSaveImportPreset}
+              onDeletePreset={handleDeleteImportPreset}
+              onImport={handleImportTransactions}
+              onClose={() => setImportFile(null)}
+          />
+      )}
+
+      {ledgerFile && (
+          <LedgerImport
+              file={ledgerFile}
+              mappings={mappingList}
+              onSaveMappings={handleSaveCategoryMappings}
+              onImportAccounts={handleImportAccounts}
+              onImport={handleImportTransactions}
+              onClose={() => setLedgerFile(null)}
+          />
+      )}
+
+      {selectedTransfer && (
+          <TransferDetailModal
+              transaction={selectedTransfer}
+              onClose={() => setSelectedTransfer(null)}
+              onEdit={(t) => { setSelectedTransfer(null); handleOpenTransactionModal(t); }}
+              onDelete={handleDeleteTransaction}
+          />
+      )}
+
       <TransactionFormModal
         isOpen={isModalOpen}
         onClose={handleCloseTransactionModal}
@@ -445,6 +880,21 @@ const App: React.FC = () => {
         <p>由 Gemini AI 驱动的智能记账应用</p>
       </footer>
     </div>
+    {/* Outside the app shell so only the report is printed */}
+    {reportOpen && (
+      <MonthlyReport
+        transactions={transactions}
+        month={periodAnchor.slice(0, 7)}
+        setMonth={month => setPeriodAnchor(`${month}-01`)}
+        onClose={() => setReportOpen(false)}
+      />
+    )}
+    </MerchantContext.Provider>
+    </PreferencesContext.Provider>
+    </RulesContext.Provider>
+    </CurrencyContext.Provider>
+    </AccountContext.Provider>
+    </CategoryContext.Provider>
   );
 };
 
@@ -0,0 +1,222 @@
+import React, { useMemo, useState } from 'react';
+import { Account, AccountType, Transaction } from '../types';
+import { ACCOUNT_TYPE_COLORS, ACCOUNT_TYPE_LABELS } from '../constants';
+import { ChevronLeftIcon, PlusIcon } from './icons';
+import { accountBalances, accountLedger, newAccountId } from '../utils/accounts';
+import { useCurrency } from '../utils/currency';
+
+interface AccountsViewProps {
+  accounts: Account[];
+  transactions: Transaction[];
+  onBack: () => void;
+  onSave: (account: Account) => void;
+  onTransferClick: (transaction: Transaction) => void;
+}
+
+interface Draft {
+  id: string;
+  name: string;
+  type: AccountType;
+  openingBalance: string;
+  archived?: boolean;
+  order?: number;
+}
+
+// Only the most recent entries are rendered; the running balance still covers the full history
+const LEDGER_LIMIT = 50;
+
+export const AccountsView: React.FC<AccountsViewProps> = ({ accounts, transactions, onBack, onSave, onTransferClick }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Balances are kept in the report currency; opening balances are entered in it too
+  const currency = useCurrency();
+  const formatMoney = currency.format;
+
+  const balances = useMemo(() => accountBalances(accounts, transactions, currency.toBase), [accounts, transactions, currency]);
+  const sorted = useMemo(
+    () => accounts.slice().sort((a, b) => Number(!!a.archived) - Number(!!b.archived) || a.order - b.order),
+    [accounts]
+  );
+  const totals = useMemo(() => {
+    let assets = 0;
+    let liabilities = 0;
+    for (const a of accounts) {
+      const b = balances.get(a.id) || 0;
+      if (b >= 0) assets += b; else liabilities -= b;
+    }
+    return { assets, liabilities, net: assets - liabilities };
+  }, [accounts, balances]);
+
+  const expanded = accounts.find(a => a.id === expandedId);
+  const ledger = useMemo(
+    () => (expanded ? accountLedger(expanded, transactions, currency.toBase) : []),
+    [expanded, transactions, currency]
+  );
+
+  const openNew = () => { setDraft({ id: '', name: '', type: 'debit', openingBalance: '0' }); setError(null); };
+  const openEdit = (a: Account) => { setDraft({ ...a, openingBalance: String(a.openingBalance) }); setError(null); };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    const openingBalance = Number(draft.openingBalance || 0);
+    if (!name) { setError('名称不能为空'); return; }
+    if (accounts.some(a => a.id !== draft.id && !a.archived && a.name === name)) { setError('已存在同名账户'); return; }
+    if (!isFinite(openingBalance)) { setError('初始余额必须是数字'); return; }
+    onSave({
+      id: draft.id || newAccountId(),
+      name,
+      type: draft.type,
+      openingBalance: Math.round(openingBalance * 100) / 100,
+      archived: draft.archived,
+      order: draft.order ?? Math.max(-1, ...accounts.map(a => a.order)) + 1,
+    });
+    setDraft(null);
+  };
+
+  return (
+    <div className="md:bg-white md:p-6 p-0 md:rounded-xl md:shadow-md">
+      <div className="flex items-center gap-2 mb-4">
+        <button onClick={onBack} className="p-2 rounded-md border border-gray-200 hover:bg-gray-50" title="返回设置">
+          <ChevronLeftIcon className="w-5 h-5" />
+        </button>
+        <h2 className="text-lg md:text-xl font-semibold text-gray-800 flex-1">账户</h2>
+        <button onClick={openNew} className="p-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700" title="新建账户" aria-label="新建账户">
+          <PlusIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-4 text-center">
+        <div className="rounded-lg bg-gray-50 p-2">
+          <p className="text-xs text-gray-500">净资产</p>
+          <p className="font-mono font-semibold text-gray-900">{formatMoney(totals.net)}</p>
+        </div>
+        <div className="rounded-lg bg-gray-50 p-2">
+          <p className="text-xs text-gray-500">资产</p>
+          <p className="font-mono font-semibold text-green-600">{formatMoney(totals.assets)}</p>
+        </div>
+        <div className="rounded-lg bg-gray-50 p-2">
+          <p className="text-xs text-gray-500">负债</p>
+          <p className="font-mono font-semibold text-red-600">{formatMoney(totals.liabilities)}</p>
+        </div>
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {sorted.map(a => {
+          const balance = balances.get(a.id) || 0;
+          const color = ACCOUNT_TYPE_COLORS[a.type];
+          const isOpen = expandedId === a.id;
+          return (
+            <li key={a.id} className={a.archived ? 'opacity-50' : ''}>
+              <div className="py-2 flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => setExpandedId(isOpen ? null : a.id)}
+                  className="min-w-0 flex-1 flex items-center gap-3 text-left"
+                  aria-expanded={isOpen}
+                >
+                  <span
+                    className="inline-flex items-center justify-center w-10 h-10 rounded-full shrink-0 text-sm font-semibold"
+                    style={{ color, backgroundColor: `${color}1A` }}
+                  >
+                    {a.name.slice(0, 1)}
+                  </span>
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium text-gray-900 truncate">{a.name}</p>
+                    <p className="text-xs text-gray-400">
+                      {ACCOUNT_TYPE_LABELS[a.type]}
+                      {a.archived && ' · 已归档'}
+                    </p>
+                  </div>
+                  <span className={`font-mono font-semibold ${balance < 0 ? 'text-red-600' : 'text-gray-900'}`}>{formatMoney(balance)}</span>
+                </button>
+                <button onClick={() => openEdit(a)} className="px-2 py-1 text-sm rounded-md border border-gray-200 text-blue-600">编辑</button>
+                <button onClick={() => onSave({ ...a, archived: !a.archived })} className="px-2 py-1 text-sm rounded-md border border-gray-200 text-gray-600">
+                  {a.archived ? '恢复' : '归档'}
+                </button>
+              </div>
+              {isOpen && (
+                <div className="mb-3 ml-[3.25rem] rounded-lg border border-gray-100">
+                  {ledger.length === 0 ? (
+                    <p className="text-sm text-gray-400 text-center py-4">暂无记录（初始余额 {formatMoney(a.openingBalance)}）</p>
+                  ) : (
+                    <ul className="divide-y divide-gray-100 text-sm">
+                      {ledger.slice(0, LEDGER_LIMIT).map(({ tx, delta, balance: after }) => (
+                        <li
+                          key={tx.id}
+                          className={`px-3 py-2 flex items-center gap-3 ${tx.direction === 'transfer' ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+                          onClick={tx.direction === 'transfer' ? () => onTransferClick(tx) : undefined}
+                        >
+                          <div className="min-w-0 flex-1">
+                            <p className="truncate text-gray-800">{tx.name}</p>
+                            <p className="text-xs text-gray-400">{tx.date.replace('T', ' ')}</p>
+                          </div>
+                          <div className="text-right">
+                            <p className={`font-mono ${delta >= 0 ? 'text-green-600' : 'text-gray-900'}`}>{formatMoney(delta, true)}</p>
+                            <p className="text-xs text-gray-400 font-mono">余额 {formatMoney(after)}</p>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {ledger.length > LEDGER_LIMIT && (
+                    <p className="text-xs text-gray-400 text-center py-2">仅显示最近 {LEDGER_LIMIT} 条</p>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {draft && (
+        <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={() => setDraft(null)}>
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+            <div className="px-4 py-3 border-b border-gray-200">
+              <h3 className="text-base font-semibold text-gray-900">{draft.id ? '编辑账户' : '新建账户'}</h3>
+            </div>
+            <div className="p-4 space-y-4 overflow-y-auto">
+              <div>
+                <label className="text-xs text-gray-500">名称</label>
+                <input
+                  value={draft.name}
+                  onChange={e => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="例如：招商银行储蓄卡"
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  autoFocus
+                />
+              </div>
+              <div>
+                <label className="text-xs text-gray-500">类型</label>
+                <select
+                  value={draft.type}
+                  onChange={e => setDraft({ ...draft, type: e.target.value as AccountType })}
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm bg-white"
+                >
+                  {(Object.keys(ACCOUNT_TYPE_LABELS) as AccountType[]).map(t => <option key={t} value={t}>{ACCOUNT_TYPE_LABELS[t]}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="text-xs text-gray-500">初始余额（{currency.base}，信用卡欠款填负数）</label>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  step="0.01"
+                  value={draft.openingBalance}
+                  onChange={e => setDraft({ ...draft, openingBalance: e.target.value })}
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                />
+              </div>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+            <div className="px-4 py-3 border-t border-gray-200 flex justify-end gap-2">
+              <button onClick={() => setDraft(null)} className="px-3 py-1.5 rounded-md border border-gray-300 text-sm">取消</button>
+              <button onClick={saveDraft} className="px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm">保存</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
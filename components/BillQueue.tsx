@@ -0,0 +1,84 @@
+import React, { useEffect, useMemo } from 'react';
+import { QueuedBill, QueuedBillStatus } from '../types';
+import { DocumentIcon, SpinnerIcon } from './icons';
+
+interface BillQueueProps {
+  queue: QueuedBill[];
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+  onReview: () => void;
+}
+
+const STATUS_LABELS: Record<QueuedBillStatus, string> = {
+  pending: '等待联网',
+  processing: '识别中',
+  ready: '待核对',
+  failed: '识别失败',
+};
+
+const STATUS_CLASSES: Record<QueuedBillStatus, string> = {
+  pending: 'bg-gray-100 text-gray-600',
+  processing: 'bg-blue-100 text-blue-700',
+  ready: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+export const BillQueue: React.FC<BillQueueProps> = ({ queue, onRetry, onDiscard, onReview }) => {
+  // Thumbnails for queued images; rebuilt only when images are added or removed, not on status changes
+  const images = queue.filter(q => q.type.startsWith('image/'));
+  const imageKey = images.map(q => q.id).join(',');
+  const thumbs = useMemo(
+    () => new Map<string, string>(images.map(q => [q.id, URL.createObjectURL(q.blob)])),
+    [imageKey]
+  );
+  useEffect(() => () => thumbs.forEach(url => URL.revokeObjectURL(url)), [thumbs]);
+
+  const ready = queue.filter(q => q.status === 'ready').length;
+
+  return (
+    <div className="mb-4 rounded-lg border border-gray-200 p-3">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div>
+          <h3 className="text-base font-semibold text-gray-800">离线队列</h3>
+          <p className="text-xs text-gray-500">无网络时拍下的账单保存在本机，联网后自动识别。</p>
+        </div>
+        {ready > 0 && (
+          <button onClick={onReview} className="px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm shrink-0">核对 {ready} 个文件</button>
+        )}
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {queue.map(q => (
+          <li key={q.id} className="py-2 flex items-center gap-3">
+            {thumbs.has(q.id) ? (
+              <img src={thumbs.get(q.id)} alt={q.name} className="w-10 h-10 rounded object-cover shrink-0" />
+            ) : (
+              <span className="w-10 h-10 rounded bg-gray-100 flex items-center justify-center shrink-0">
+                <DocumentIcon className="w-5 h-5 text-gray-400" />
+              </span>
+            )}
+            <div className="min-w-0 flex-1">
+              <p className="text-sm text-gray-800 truncate" title={q.name}>{q.name}</p>
+              <p className="text-xs text-gray-400">
+                {new Date(q.addedAt).toLocaleString()}
+                {q.attempts > 0 && ` · 已尝试 ${q.attempts} 次`}
+              </p>
+              {q.status === 'failed' && q.error && <p className="text-xs text-red-600 truncate" title={q.error}>{q.error}</p>}
+            </div>
+            <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs shrink-0 ${STATUS_CLASSES[q.status]}`}>
+              {q.status === 'processing' && <SpinnerIcon className="animate-spin w-3 h-3" />}
+              {STATUS_LABELS[q.status]}
+            </span>
+            {q.status === 'failed' && (
+              <button onClick={() => onRetry(q.id)} className="px-2 py-1 rounded-md border border-gray-200 text-xs text-blue-600">重试</button>
+            )}
+            <button
+              onClick={() => { if (q.status !== 'ready' || confirm('丢弃这个文件？识别结果也会一并删除。')) onDiscard(q.id); }}
+              disabled={q.status === 'processing'}
+              className="px-2 py-1 rounded-md border border-gray-200 text-xs text-red-600 disabled:opacity-40"
+            >丢弃</button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
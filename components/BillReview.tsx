@@ -0,0 +1,217 @@
+import React, { useMemo, useState } from 'react';
+import { CategoryId, Direction, NewTransaction, Transaction } from '../types';
+import { DIRECTION_LABELS, FALLBACK_CATEGORIES } from '../constants';
+import { AlertIcon, DocumentIcon } from './icons';
+import { useCategories, kindFor } from '../utils/categories';
+import { useCurrency, roundAmount } from '../utils/currency';
+import { validateTransaction, findDuplicates } from '../utils/review';
+import { useRules } from '../utils/rules';
+import { CategoryCorrection, describeSuggestion, suggestCategory, usePreferences } from '../utils/preferences';
+import { useMerchants } from '../utils/merchants';
+
+export interface ReviewSource {
+  url: string;
+  name: string;
+  isImage: boolean;
+}
+
+export interface ReviewDraft {
+  tx: NewTransaction;
+  source: number; // index into `sources`
+}
+
+interface BillReviewProps {
+  drafts: ReviewDraft[];
+  sources: ReviewSource[];
+  transactions: Transaction[]; // the ledger, for duplicate checks
+  // `corrections` are the categories the user changed by hand, for the app to learn from
+  onConfirm: (accepted: NewTransaction[], corrections: CategoryCorrection[]) => void;
+  onCancel: () => void;
+}
+
+interface Row extends ReviewDraft {
+  id: number;
+  discarded: boolean;
+  proposed: CategoryId; // the category the pipeline chose, to detect corrections
+}
+
+const REVIEW_DIRECTIONS: Direction[] = ['expense', 'income', 'refund'];
+
+export const BillReview: React.FC<BillReviewProps> = ({ drafts, sources, transactions, onConfirm, onCancel }) => {
+  const registry = useCategories();
+  const currency = useCurrency();
+  const rules = useRules();
+  const prefs = usePreferences();
+  const merchants = useMerchants();
+  // Items already in the ledger start out discarded; everything else starts accepted
+  const [rows, setRows] = useState<Row[]>(() => {
+    const dupes = findDuplicates(drafts.map(d => d.tx), transactions);
+    return drafts.map((d, i) => ({ ...d, id: i, discarded: dupes.get(i) === 'ledger', proposed: d.tx.category }));
+  });
+  const [activeSource, setActiveSource] = useState(0);
+
+  // Where each row's current category comes from, when it is the suggested one
+  const suggestions = useMemo(
+    () => rows.map(r => suggestCategory({ ...r.tx, name: merchants.canonical(r.tx.name) }, prefs, rules, registry)),
+    [rows, prefs, rules, registry, merchants]
+  );
+  const problems = useMemo(() => rows.map(r => validateTransaction(r.tx, registry)), [rows, registry]);
+  const duplicates = useMemo(() => {
+    const skip = new Set<number>(rows.flatMap((r, i) => (r.discarded ? [i] : [])));
+    return findDuplicates(rows.map(r => r.tx), transactions, skip);
+  }, [rows, transactions]);
+  // Also checked for discarded rows, to explain why they were discarded
+  const ledgerDupes = useMemo(() => findDuplicates(rows.map(r => r.tx), transactions), [rows, transactions]);
+
+  const accepted = rows.filter((r, i) => !r.discarded && problems[i].length === 0 && !duplicates.has(i));
+  const blocked = rows.filter((r, i) => !r.discarded && (problems[i].length > 0 || duplicates.has(i))).length;
+
+  const update = (id: number, patch: Partial<NewTransaction>) =>
+    setRows(prev => prev.map(r => (r.id === id ? { ...r, tx: { ...r.tx, ...patch } } : r)));
+  const setDiscarded = (id: number, discarded: boolean) =>
+    setRows(prev => prev.map(r => (r.id === id ? { ...r, discarded } : r)));
+
+  const changeDirection = (row: Row, direction: Direction) => {
+    const kind = kindFor(direction);
+    const category = registry.active(kind).some(c => c.id === row.tx.category) ? row.tx.category : FALLBACK_CATEGORIES[kind];
+    update(row.id, { direction, category });
+  };
+
+  const source = sources[activeSource];
+  const inputCls = 'w-full rounded-md border border-gray-300 px-2 py-1 text-sm bg-white';
+
+  return (
+    <div className="md:bg-white md:p-6 p-0 md:rounded-xl md:shadow-md">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800">核对识别结果</h2>
+          <p className="text-sm text-gray-500">确认无误后再写入账本；可直接修改或丢弃每一条。</p>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {/* Source document for comparison; stays in view while scrolling through the items */}
+        <div className="sticky top-0 z-10 bg-white pb-2">
+          {sources.length > 1 && (
+            <div className="flex gap-2 mb-2">
+              {sources.map((s, i) => (
+                <button
+                  key={i}
+                  onClick={() => setActiveSource(i)}
+                  className={`px-2 py-1 rounded-md border text-xs truncate max-w-[10rem] ${i === activeSource ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 text-gray-600'}`}
+                  title={s.name}
+                >{s.name}</button>
+              ))}
+            </div>
+          )}
+          {source && (source.isImage ? (
+            <img src={source.url} alt={source.name} className="w-full max-h-64 object-contain rounded-md bg-gray-100" />
+          ) : (
+            <div className="w-full h-40 rounded-md bg-gray-100 flex flex-col items-center justify-center p-2 text-center">
+              <DocumentIcon className="w-10 h-10 text-gray-400" />
+              <p className="text-xs text-gray-600 mt-2 break-all">{source.name}</p>
+            </div>
+          ))}
+        </div>
+
+        <ul className="space-y-3">
+          {rows.length === 0 && <li className="text-center text-gray-500 py-8">没有识别到任何交易</li>}
+          {rows.map((row, i) => {
+            const issues = problems[i];
+            const dupe = duplicates.get(i);
+            const flagged = !row.discarded && (issues.length > 0 || !!dupe);
+            const options = registry.active(kindFor(row.tx.direction));
+            const suggestion = suggestions[i];
+            return (
+              <li
+                key={row.id}
+                onFocus={() => setActiveSource(row.source)}
+                onClick={() => setActiveSource(row.source)}
+                className={`rounded-lg border p-3 ${row.discarded ? 'border-gray-200 opacity-50' : flagged ? 'border-amber-300 bg-amber-50' : 'border-gray-200'}`}
+              >
+                {!row.discarded && (issues.length > 0 || dupe) && (
+                  <div className="mb-2 flex items-start gap-1.5 text-xs text-amber-800">
+                    <AlertIcon className="w-4 h-4 shrink-0" />
+                    <span>
+                      {[
+                        ...issues,
+                        dupe === 'ledger' && '账本中已有相同记录（名称、时间、金额一致）',
+                        dupe === 'batch' && '与本批次中的另一条重复',
+                      ].filter(Boolean).join('；')}
+                    </span>
+                  </div>
+                )}
+                {row.discarded && ledgerDupes.get(i) === 'ledger' && (
+                  <p className="mb-2 text-xs text-gray-500">账本中已有相同记录</p>
+                )}
+                <fieldset disabled={row.discarded} className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  <input
+                    value={row.tx.name}
+                    onChange={e => update(row.id, { name: e.target.value })}
+                    placeholder="名称"
+                    className={`${inputCls} col-span-2`}
+                  />
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    step="any"
+                    value={isFinite(row.tx.amount) && row.tx.amount !== 0 ? row.tx.amount : ''}
+                    onChange={e => update(row.id, { amount: Number(e.target.value) })}
+                    placeholder="金额"
+                    className={`${inputCls} text-right`}
+                  />
+                  <select value={row.tx.currency} onChange={e => update(row.id, { currency: e.target.value })} className={inputCls} aria-label="币种">
+                    {[...new Set([row.tx.currency, ...currency.rates.keys()])].sort().map(code => <option key={code} value={code}>{code}</option>)}
+                  </select>
+                  <select value={row.tx.direction} onChange={e => changeDirection(row, e.target.value as Direction)} className={inputCls} aria-label="收支类型">
+                    {REVIEW_DIRECTIONS.map(d => <option key={d} value={d}>{DIRECTION_LABELS[d]}</option>)}
+                  </select>
+                  <select value={row.tx.category} onChange={e => update(row.id, { category: e.target.value })} className={inputCls} aria-label="分类">
+                    {!options.some(c => c.id === row.tx.category) && <option value={row.tx.category}>请选择分类</option>}
+                    {options.map(c => <option key={c.id} value={c.id}>{registry.label(c.id)}</option>)}
+                  </select>
+                  <input
+                    type="datetime-local"
+                    value={row.tx.date}
+                    onChange={e => update(row.id, { date: e.target.value })}
+                    className={`${inputCls} col-span-2`}
+                  />
+                  <input
+                    value={row.tx.location || ''}
+                    onChange={e => update(row.id, { location: e.target.value || undefined })}
+                    placeholder="地点（可选）"
+                    className={`${inputCls} col-span-2 sm:col-span-4`}
+                  />
+                </fieldset>
+                <div className="mt-2 flex items-center justify-end gap-2">
+                  {suggestion && suggestion.category === row.tx.category && (
+                    <span className="mr-auto text-xs text-gray-500 truncate">分类来源：{describeSuggestion(suggestion)}</span>
+                  )}
+                  <button
+                    type="button"
+                    onClick={(e) => { e.stopPropagation(); setDiscarded(row.id, !row.discarded); }}
+                    className={`px-2 py-1 rounded-md border text-xs ${row.discarded ? 'border-blue-300 text-blue-700' : 'border-gray-300 text-gray-600'}`}
+                  >{row.discarded ? '恢复' : '丢弃'}</button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center justify-end gap-2">
+        {blocked > 0 && <span className="text-sm text-amber-700 mr-auto">{blocked} 条需要修正或丢弃</span>}
+        <button onClick={onCancel} className="px-4 py-2 rounded-lg border border-gray-300 text-sm">全部放弃</button>
+        <button
+          onClick={() => onConfirm(
+            accepted.map(r => ({ ...r.tx, amount: roundAmount(r.tx.amount, r.tx.currency) })),
+            accepted.filter(r => r.tx.category !== r.proposed && r.tx.name.trim()).map(r => ({ name: r.tx.name, category: r.tx.category })),
+          )}
+          disabled={accepted.length === 0}
+          className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-semibold disabled:bg-blue-300"
+        >添加 {accepted.length} 条</button>
+      </div>
+    </div>
+  );
+};
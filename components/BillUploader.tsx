@@ -1,11 +1,20 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { NewTransaction, Transaction, Category } from '../types';
-import { analyzeBillImage, analyzeBill } from '../services/geminiService';
+import { NewTransaction, Transaction, CategoryId, QueuedBill } from '../types';
+import { RecognitionContext, analyzeBill, normalizeRecognition } from '../services/geminiService';
+import { RecognizerConfig, createRecognizer, isNetworkError } from '../services/recognizers';
 import { fileToBase64 } from '../utils/helpers';
+import { isSpreadsheet } from '../utils/tableImport';
 import { UploadIcon, SpinnerIcon, AlertIcon, XCircleIcon, DocumentIcon, PencilIcon, ListBulletIcon, TrashIcon } from './icons';
 import { SwipeToDelete } from './SwipeToDelete';
-import { CategoryBadge, LeadingCat } from './TransactionList';
+import { CategoryPickerGrid, LeadingCat, AmountText } from './TransactionList';
 import { Toast } from './Toast';
+import { BillReview, ReviewDraft } from './BillReview';
+import { BillQueue } from './BillQueue';
+import { useCategories } from '../utils/categories';
+import { useCurrency } from '../utils/currency';
+import { useRules } from '../utils/rules';
+import { CategoryCorrection, usePreferences } from '../utils/preferences';
+import { useMerchants } from '../utils/merchants';
 
 interface BillUploaderProps {
   onAddTransactions: (transactions: NewTransaction[]) => Transaction[];
@@ -15,8 +24,15 @@ interface BillUploaderProps {
   setError: React.Dispatch<React.SetStateAction<string | null>>;
   onEditInline?: (tx: Transaction) => void;
   onDeleteInline?: (id: string) => void;
-  onBulkChangeInline?: (ids: string[], category: Category) => void;
+  onBulkChangeInline?: (ids: string[], category: CategoryId) => void;
   transactions?: Transaction[]; // global source to sync inline list after edits/deletes
+  recognizerConfig: RecognizerConfig;
+  queue: QueuedBill[];
+  onEnqueue: (files: File[]) => void;
+  onRetryQueued: (id: string) => void;
+  onRemoveQueued: (ids: string[]) => void;
+  onCategoryCorrections: (corrections: CategoryCorrection[]) => void;
+  onOpenImport: (file: File) => void;
 }
 
 interface Preview {
@@ -25,7 +41,23 @@ interface Preview {
     isImage: boolean;
 }
 
-export const BillUploader: React.FC<BillUploaderProps> = ({ onAddTransactions, isLoading, setIsLoading, error, setError, onEditInline, onDeleteInline, onBulkChangeInline, transactions }) => {
+const readPreview = (file: File): Promise<Preview> => new Promise(resolve => {
+  if (!file.type.startsWith('image/')) {
+    resolve({ url: '', name: file.name, isImage: false }); // No URL for non-images
+    return;
+  }
+  const reader = new FileReader();
+  reader.onloadend = () => resolve({ url: typeof reader.result === 'string' ? reader.result : '', name: file.name, isImage: true });
+  reader.readAsDataURL(file);
+});
+
+export const BillUploader: React.FC<BillUploaderProps> = ({ onAddTransactions, isLoading, setIsLoading, error, setError, onEditInline, onDeleteInline, onBulkChangeInline, transactions, recognizerConfig, queue, onEnqueue, onRetryQueued, onRemoveQueued, onCategoryCorrections, onOpenImport }) => {
+  const registry = useCategories();
+  const currency = useCurrency();
+  const rules = useRules();
+  const prefs = usePreferences();
+  const merchants = useMerchants();
+  const recognitionContext: RecognitionContext = { registry, defaultCurrency: currency.base, rules, prefs, merchants };
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [previews, setPreviews] = useState<Preview[]>([]);
   const [toastMsg, setToastMsg] = useState<string | null>(null);
@@ -33,6 +65,9 @@ export const BillUploader: React.FC<BillUploaderProps> = ({ onAddTransactions, i
   const [selectMode, setSelectMode] = useState(false);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [showBulkModal, setShowBulkModal] = useState(false);
+  // Recognized items waiting for review; nothing is written to the ledger until confirmed
+  // Reviews started from the offline queue remember which bills they cover, and own the object URLs
+  const [review, setReview] = useState<{ drafts: ReviewDraft[]; sources: Preview[]; queueIds?: string[] } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const mobileBulkBarRef = useRef<HTMLDivElement>(null);
   const MAX_FILES = 2;
@@ -53,7 +88,7 @@ export const BillUploader: React.FC<BillUploaderProps> = ({ onAddTransactions, i
     setLastAdded(prev => prev.filter(t => !selectedIds.has(t.id)));
     exitSelectMode();
   };
-  const confirmBulkInline = (cat: Category) => {
+  const confirmBulkInline = (cat: CategoryId) => {
     if (!onBulkChangeInline || selectedIds.size === 0) { setShowBulkModal(false); return; }
     const ids = Array.from(selectedIds);
     onBulkChangeInline(ids, cat);
@@ -64,11 +99,16 @@ export const BillUploader: React.FC<BillUploaderProps> = ({ onAddTransactions, i
   };
 
   const addFiles = (newFiles: File[]) => {
+    // Spreadsheets are read locally by the import wizard rather than sent for recognition
+    const sheet = newFiles.find(isSpreadsheet);
+    if (sheet) {
+      onOpenImport(sheet);
+      return;
+    }
     const validFilesAll = newFiles.filter(file => 
       file.type.startsWith('image/') || 
       file.type === 'application/pdf' || 
-      file.type === 'text/plain' ||
-      file.type === 'text/csv'
+      file.type === 'text/plain'
     );
     if (validFilesAll.length === 0) return;
 
@@ -83,20 +123,7 @@ export const BillUploader: React.FC<BillUploaderProps> = ({ onAddTransactions, i
     setSelectedFiles(prev => [...prev, ...validFiles]);
     setError(null);
 
-    const newPreviewsPromises = validFiles.map(file => {
-      return new Promise<Preview>(resolve => {
-        const isImage = file.type.startsWith('image/');
-        if (isImage) {
-          const reader = new FileReader();
-          reader.onloadend = () => resolve({ url: reader.result as string, name: file.name, isImage: true });
-          reader.readAsDataURL(file);
-        } else {
-          resolve({ url: '', name: file.name, isImage: false }); // No URL for non-images
-        }
-      });
-    });
-
-    Promise.all(newPreviewsPromises).then(newPreviews => {
+    Promise.all(validFiles.map(readPreview)).then(newPreviews => {
         setPreviews(prev => [...prev, ...newPreviews]);
     });
   };
@@ -122,35 +149,53 @@ export const BillUploader: React.FC<BillUploaderProps> = ({ onAddTransactions, i
       return;
     }
 
+    // No connection: keep the files for later instead of failing
+    if (!navigator.onLine) {
+      onEnqueue(selectedFiles);
+      setToastMsg(`已离线保存 ${selectedFiles.length} 个文件，联网后自动识别`);
+      setSelectedFiles([]);
+      setPreviews([]);
+      setError(null);
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
     
+    const recognizer = createRecognizer(recognizerConfig);
     const results = await Promise.allSettled(
       selectedFiles.map(async (file) => {
         const base64Image = await fileToBase64(file);
-        // return await analyzeBillImage(base64Image, file.type);
-        return await analyzeBill(base64Image, file.type);
+        return await analyzeBill(base64Image, file.type, recognitionContext, recognizer);
       })
     );
     
-    const successfulTransactions: NewTransaction[] = [];
+    // Read again from the submitted files, so each draft's source index points at its own file
+    // even if the thumbnails above have not finished loading
+    const sources = await Promise.all(selectedFiles.map(readPreview));
+    const drafts: ReviewDraft[] = [];
     const errors: string[] = [];
+    const offline: File[] = [];
     
     results.forEach((result, index) => {
       if (result.status === 'fulfilled') {
-        successfulTransactions.push(...result.value);
+        drafts.push(...result.value.map(tx => ({ tx, source: index })));
+      } else if (isNetworkError(result.reason)) {
+        offline.push(selectedFiles[index]);
       } else {
         const reason = result.reason as Error;
         errors.push(`文件 "${selectedFiles[index].name}" 处理失败: ${reason.message}`);
       }
     });
+    if (offline.length > 0) {
+      onEnqueue(offline);
+      setToastMsg(`网络不可用，${offline.length} 个文件已加入离线队列`);
+    }
     
-  if (successfulTransactions.length > 0) {
-      const addedTxs = onAddTransactions(successfulTransactions);
-      if (addedTxs.length > 0) {
-        setToastMsg(`已添加 ${addedTxs.length} 条记录`);
-        setLastAdded(addedTxs);
-      }
+    if (drafts.length > 0) {
+      setReview({ drafts, sources });
+    } else if (errors.length === 0 && offline.length === 0) {
+      errors.push('没有识别到任何交易。');
     }
     
     if (errors.length > 0) {
@@ -161,6 +206,33 @@ export const BillUploader: React.FC<BillUploaderProps> = ({ onAddTransactions, i
     setPreviews([]);
   setIsLoading(false);
   };
+
+  // Recognized queue items are normalized now, with the current categories and report currency
+  const startQueueReview = () => {
+    const ready = queue.filter(q => q.status === 'ready' && q.result);
+    const sources = ready.map(q => ({ url: URL.createObjectURL(q.blob), name: q.name, isImage: q.type.startsWith('image/') }));
+    const drafts = ready.flatMap((q, source) =>
+      normalizeRecognition(q.result!, recognitionContext).map(tx => ({ tx, source }))
+    );
+    setReview({ drafts, sources, queueIds: ready.map(q => q.id) });
+  };
+
+  const closeReview = () => {
+    if (review?.queueIds) review.sources.forEach(s => URL.revokeObjectURL(s.url));
+    setReview(null);
+  };
+
+  const handleConfirmReview = (accepted: NewTransaction[], corrections: CategoryCorrection[]) => {
+    if (corrections.length) onCategoryCorrections(corrections);
+    // Reviewed bills leave the queue even if every item was discarded
+    if (review?.queueIds) onRemoveQueued(review.queueIds);
+    closeReview();
+    const addedTxs = onAddTransactions(accepted);
+    if (addedTxs.length > 0) {
+      setToastMsg(`已添加 ${addedTxs.length} 条记录`);
+      setLastAdded(addedTxs);
+    }
+  };
   
   const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
@@ -196,10 +268,30 @@ export const BillUploader: React.FC<BillUploaderProps> = ({ onAddTransactions, i
 
   // Upload page scrolls as a whole; no inner scroll calculations are needed
 
+  if (review) {
+    return (
+      <BillReview
+        drafts={review.drafts}
+        sources={review.sources}
+        transactions={transactions || []}
+        onConfirm={handleConfirmReview}
+        onCancel={closeReview}
+      />
+    );
+  }
+
   return (
   <div className="md:bg-white md:p-6 p-0 md:rounded-xl md:shadow-md">
       <div>
         <h2 className="text-xl font-semibold text-gray-800 mb-4">上传账单</h2>
+        {queue.length > 0 && (
+          <BillQueue
+            queue={queue}
+            onRetry={onRetryQueued}
+            onDiscard={id => onRemoveQueued([id])}
+            onReview={startQueueReview}
+          />
+        )}
         <form onSubmit={handleSubmit} className="space-y-4">
         <div 
           className={`border-2 border-dashed border-gray-300 rounded-lg p-4 text-center transition-colors ${!isLoading ? 'cursor-pointer hover:border-blue-500' : ''}`}
@@ -209,7 +301,7 @@ export const BillUploader: React.FC<BillUploaderProps> = ({ onAddTransactions, i
         >
           <input
             type="file"
-            accept="image/*,application/pdf,text/plain,text/csv"
+            accept="image/*,application/pdf,text/plain,text/csv,.csv,.xlsx"
             multiple
             onChange={handleFileChange}
             ref={fileInputRef}
@@ -274,7 +366,7 @@ export const BillUploader: React.FC<BillUploaderProps> = ({ onAddTransactions, i
               正在智能分析...
             </>
           ) : (
-            `识别并添加 ${selectedFiles.length > 0 ? `${selectedFiles.length}个` : ''}文件`
+            `识别 ${selectedFiles.length > 0 ? `${selectedFiles.length}个` : ''}文件`
           )}
         </button>
         </form>
@@ -350,7 +442,7 @@ export const BillUploader: React.FC<BillUploaderProps> = ({ onAddTransactions, i
                         </div>
                       </div>
                       <div className="flex flex-col items-end gap-2">
-                        <span className="font-mono font-semibold text-gray-900">¥{t.amount.toFixed(2)}</span>
+                        <AmountText tx={t} className="font-semibold" />
                         {selectMode ? (
                           selectedIds.has(t.id) ? (
                             <span className="inline-flex items-center justify-center w-8 h-8 rounded-full bg-blue-600 text-white">
@@ -430,19 +522,7 @@ export const BillUploader: React.FC<BillUploaderProps> = ({ onAddTransactions, i
               <p className="text-sm text-gray-500 mt-0.5">已选 {selectedIds.size} 项</p>
             </div>
             <div className="p-4">
-              <div className="flex flex-wrap gap-2">
-                {(Object.values(Category) as Category[]).map(cat => (
-                  <button
-                    key={cat}
-                    onClick={() => confirmBulkInline(cat)}
-                    className="rounded-full focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    title={`设为 ${cat}`}
-                    aria-label={`设为 ${cat}`}
-                  >
-                    <CategoryBadge category={cat} />
-                  </button>
-                ))}
-              </div>
+              <CategoryPickerGrid onPick={confirmBulkInline} />
             </div>
             <div className="px-4 py-3 border-t border-gray-200 flex justify-end">
               <button onClick={() => setShowBulkModal(false)} className="px-3 py-1.5 rounded-md border border-gray-300 text-sm">取消</button>
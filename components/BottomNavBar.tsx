@@ -1,7 +1,7 @@
 import React from 'react';
 import { UploadIcon, ChartPieIcon, ListBulletIcon, SettingsIcon, PlusIcon, UserIcon } from './icons';
 
-type Tab = 'upload' | 'chart' | 'list' | 'settings' | 'trash' | 'me';
+type Tab = 'upload' | 'chart' | 'list' | 'settings' | 'trash' | 'categories' | 'recurring' | 'accounts' | 'currency' | 'rules' | 'merchants' | 'trends' | 'calendar' | 'insights' | 'me';
 
 interface BottomNavBarProps {
   activeTab: Tab;
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Budget, CategoryId } from '../types';
+import { useCategories } from '../utils/categories';
+import { newBudgetId } from '../utils/budgets';
+import { CatIcon } from './icons';
+import { useCurrency } from '../utils/currency';
+
+interface BudgetEditorProps {
+  budgets: Budget[];
+  currentMonth: string;
+  onSave: (budgets: Budget[]) => void;
+  onClose: () => void;
+}
+
+interface Row {
+  amount: string;
+  rollover: boolean;
+}
+
+const OVERALL = '__overall__';
+
+export const BudgetEditor: React.FC<BudgetEditorProps> = ({ budgets, currentMonth, onSave, onClose }) => {
+  const registry = useCategories();
+  const { base } = useCurrency();
+  const categories = registry.active('expense');
+  const [rows, setRows] = useState<Record<string, Row>>(() => {
+    const init: Record<string, Row> = {};
+    for (const b of budgets) {
+      init[b.categoryId || OVERALL] = { amount: String(b.amount), rollover: b.rollover };
+    }
+    return init;
+  });
+
+  const rowFor = (key: string): Row => rows[key] || { amount: '', rollover: false };
+  const update = (key: string, patch: Partial<Row>) =>
+    setRows(prev => ({ ...prev, [key]: { ...rowFor(key), ...patch } }));
+
+  const handleSave = () => {
+    const byKey = new Map<string, Budget>(budgets.map(b => [b.categoryId || OVERALL, b] as [string, Budget]));
+    const next: Budget[] = [];
+    for (const [key, row] of Object.entries<Row>(rows)) {
+      const amount = Number(row.amount);
+      if (!row.amount.trim() || !isFinite(amount) || amount <= 0) continue;
+      const existing = byKey.get(key);
+      next.push({
+        id: existing?.id || newBudgetId(),
+        categoryId: key === OVERALL ? undefined : (key as CategoryId),
+        amount,
+        rollover: row.rollover,
+        startMonth: existing?.startMonth || currentMonth,
+      });
+    }
+    onSave(next);
+  };
+
+  const renderRow = (key: string, label: React.ReactNode, indent = false) => {
+    const row = rowFor(key);
+    return (
+      <li key={key} className={`py-2 flex items-center gap-3 ${indent ? 'pl-8' : ''}`}>
+        <div className="min-w-0 flex-1 flex items-center gap-2">{label}</div>
+        <input
+          type="number"
+          inputMode="decimal"
+          min="0"
+          step="0.01"
+          value={row.amount}
+          onChange={e => update(key, { amount: e.target.value })}
+          placeholder="未设置"
+          className="w-28 rounded-md border border-gray-300 px-2 py-1 text-sm text-right"
+        />
+        <label className="inline-flex items-center gap-1 text-xs text-gray-600 select-none" title="未用完的预算结转到下月">
+          <input type="checkbox" checked={row.rollover} onChange={e => update(key, { rollover: e.target.checked })} />
+          结转
+        </label>
+      </li>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-md max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="px-4 py-3 border-b border-gray-200">
+          <h3 className="text-base font-semibold text-gray-900">每月预算</h3>
+          <p className="text-sm text-gray-500 mt-0.5">金额按报表币种 {base} 计算；留空表示不设预算；新预算从当前查看的月份开始生效。</p>
+        </div>
+        <ul className="px-4 divide-y divide-gray-100 overflow-y-auto">
+          {renderRow(OVERALL, <span className="font-medium text-gray-900">总预算</span>)}
+          {categories.map(c => renderRow(
+            c.id,
+            <>
+              <span style={{ color: c.color }}><CatIcon icon={c.icon} className="w-5 h-5" /></span>
+              <span className="truncate text-gray-800">{c.name}</span>
+            </>,
+            !!c.parentId,
+          ))}
+        </ul>
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-end gap-2">
+          <button onClick={onClose} className="px-3 py-1.5 rounded-md border border-gray-300 text-sm">取消</button>
+          <button onClick={handleSave} className="px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm">保存</button>
+        </div>
+      </div>
+    </div>
+  );
+};
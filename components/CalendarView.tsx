@@ -0,0 +1,199 @@
+import React, { useMemo, useState } from 'react';
+import { Transaction } from '../types';
+import { ChevronLeftIcon, ChevronRightIcon, PencilIcon, TrashIcon } from './icons';
+import { LeadingCat, AmountText } from './TransactionList';
+import { SwipeToDelete } from './SwipeToDelete';
+import { addMonths, localDateStr } from '../utils/helpers';
+import { useCurrency } from '../utils/currency';
+import { WEEKDAY_LABELS } from '../utils/periods';
+import { heatScale, monthGrid, spendingByDay, yearWeeks } from '../utils/calendar';
+
+interface CalendarViewProps {
+  transactions: Transaction[];
+  month: string; // YYYY-MM
+  setMonth: (month: string) => void;
+  weekStart: number; // 0 = Sunday, as in the chart's period settings
+  onEditClick?: (transaction: Transaction) => void;
+  onDeleteClick?: (transactionId: string) => void;
+  onBack: () => void;
+}
+
+// Indexed by heat level; 0 is a day without spending
+const HEAT_CLASSES = ['bg-gray-50 text-gray-400', 'bg-blue-100 text-blue-900', 'bg-blue-200 text-blue-900', 'bg-blue-400 text-white', 'bg-blue-600 text-white'];
+
+// Whole units only, so the total fits in a day cell
+const compact = (value: number) => (value >= 10000 ? `${(value / 10000).toFixed(1)}万` : String(Math.round(value)));
+
+export const CalendarView: React.FC<CalendarViewProps> = ({ transactions, month, setMonth, weekStart, onEditClick, onDeleteClick, onBack }) => {
+  const currency = useCurrency();
+  const [mode, setMode] = useState<'month' | 'year'>('month');
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const today = localDateStr(new Date());
+  const year = Number(month.slice(0, 4));
+
+  const byDay = useMemo(() => spendingByDay(transactions, currency.toBase), [transactions, currency]);
+  const weeks = useMemo(() => monthGrid(month, weekStart), [month, weekStart]);
+  const yearGrid = useMemo(() => (mode === 'year' ? yearWeeks(year, weekStart) : []), [mode, year, weekStart]);
+
+  // Shades are relative to the days on screen
+  const scope = mode === 'year' ? `${year}-` : `${month}-`;
+  const scale = useMemo(() => heatScale(Array.from(byDay).filter(([day]) => day.startsWith(scope)).map(([, v]) => v)), [byDay, scope]);
+  const scopeTotal = useMemo(() => Array.from(byDay).reduce((sum, [day, v]) => (day.startsWith(scope) ? sum + v : sum), 0), [byDay, scope]);
+
+  const dayTransactions = useMemo(
+    () => (selectedDay ? transactions.filter(t => t.date.startsWith(selectedDay)).sort((a, b) => a.date.localeCompare(b.date)) : []),
+    [transactions, selectedDay]
+  );
+
+  const weekdays = Array.from({ length: 7 }, (_, i) => WEEKDAY_LABELS[(weekStart + i) % 7].slice(1));
+  const monthTitle = `${year}年${Number(month.slice(5))}月`;
+
+  const shift = (delta: number) => {
+    setMonth(addMonths(month, mode === 'year' ? delta * 12 : delta));
+    setSelectedDay(null);
+  };
+
+  const openDay = (day: string) => {
+    setMonth(day.slice(0, 7));
+    setMode('month');
+    setSelectedDay(day);
+  };
+
+  return (
+    <div className="md:bg-white md:p-6 p-0 md:rounded-xl md:shadow-md">
+      <div className="flex items-center gap-2 mb-4">
+        <button onClick={onBack} className="p-2 rounded-md border border-gray-200 hover:bg-gray-50" title="返回">
+          <ChevronLeftIcon className="w-5 h-5" />
+        </button>
+        <h2 className="text-lg md:text-xl font-semibold text-gray-800 flex-1">消费日历</h2>
+        <div className="flex rounded-md border border-gray-200 overflow-hidden text-sm">
+          {(['month', 'year'] as const).map(m => (
+            <button key={m} onClick={() => setMode(m)} className={`px-3 py-1 ${mode === m ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-50'}`}>
+              {m === 'month' ? '月' : '年'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <button onClick={() => shift(-1)} className="p-1.5 rounded-md border border-gray-200 text-gray-600 hover:bg-gray-50" aria-label="上一页">
+          <ChevronLeftIcon className="w-5 h-5" />
+        </button>
+        <div className="text-center">
+          <p className="text-sm font-medium text-gray-800">{mode === 'year' ? `${year}年` : monthTitle}</p>
+          <p className="text-xs text-gray-500">支出 {currency.format(scopeTotal)}</p>
+        </div>
+        <button onClick={() => shift(1)} disabled={(mode === 'year' ? `${year}` : month) >= today.slice(0, mode === 'year' ? 4 : 7)} className="p-1.5 rounded-md border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-40" aria-label="下一页">
+          <ChevronRightIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      {mode === 'month' ? (
+        <div>
+          <div className="grid grid-cols-7 gap-1 mb-1 text-center text-xs text-gray-400">
+            {weekdays.map(w => <span key={w}>{w}</span>)}
+          </div>
+          <div className="grid grid-cols-7 gap-1">
+            {weeks.flat().map((day, i) => {
+              if (!day) return <span key={`blank-${i}`} />;
+              const spent = byDay.get(day) || 0;
+              const level = scale(spent);
+              return (
+                <button
+                  key={day}
+                  onClick={() => setSelectedDay(day === selectedDay ? null : day)}
+                  className={`aspect-square rounded-md flex flex-col items-center justify-center leading-tight ${HEAT_CLASSES[level]} ${
+                    day === selectedDay ? 'ring-2 ring-offset-1 ring-blue-500' : day === today ? 'ring-1 ring-blue-300' : ''
+                  }`}
+                  aria-label={`${day} 支出 ${currency.format(spent)}`}
+                >
+                  <span className="text-xs font-medium">{Number(day.slice(8))}</span>
+                  {spent > 0 && <span className="text-[10px] font-mono">{compact(spent)}</span>}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto pb-1">
+          <div className="inline-flex gap-[3px]">
+            {yearGrid.map((week, i) => {
+              const firstOfMonth = week.find(d => d && d.endsWith('-01'));
+              return (
+                <div key={i} className="flex flex-col gap-[3px]">
+                  <span className="h-4 text-[10px] text-gray-400 whitespace-nowrap">{firstOfMonth ? `${Number(firstOfMonth.slice(5, 7))}月` : ''}</span>
+                  {week.map((day, j) => day ? (
+                    <button
+                      key={day}
+                      onClick={() => openDay(day)}
+                      className={`w-3 h-3 rounded-sm ${HEAT_CLASSES[scale(byDay.get(day) || 0)]}`}
+                      title={`${day} ${currency.format(byDay.get(day) || 0)}`}
+                    />
+                  ) : <span key={`blank-${j}`} className="w-3 h-3" />)}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-1 mt-2 text-[10px] text-gray-400">
+        少
+        {HEAT_CLASSES.map(cls => <span key={cls} className={`w-3 h-3 rounded-sm ${cls.split(' ')[0]}`} />)}
+        多
+      </div>
+
+      {selectedDay && mode === 'month' && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-base font-semibold text-gray-800">
+              {new Date(selectedDay + 'T00:00:00').toLocaleDateString('zh-CN', { month: 'long', day: 'numeric', weekday: 'short' })}
+            </h3>
+            <span className="text-sm text-gray-500">{dayTransactions.length} 条 · 支出 {currency.format(byDay.get(selectedDay) || 0)}</span>
+          </div>
+          {dayTransactions.length > 0 ? (
+            <ul className="-mx-4 md:mx-0 divide-y divide-gray-100 md:divide-y-0 md:space-y-3">
+              {dayTransactions.map(t => (
+                <li key={t.id}>
+                  <SwipeToDelete className="w-full bg-white p-3 md:rounded-lg md:border md:border-gray-200 rounded-none" onDelete={() => onDeleteClick && onDeleteClick(t.id)}>
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="flex items-center gap-3 min-w-0">
+                        <LeadingCat category={t.category} />
+                        <div className="min-w-0">
+                          <p className="font-medium text-gray-900 truncate" title={t.name}>{t.name}</p>
+                          <p className="text-xs text-gray-500 mt-0.5">{t.date.slice(11, 16)}{t.location ? ` · ${t.location}` : ''}</p>
+                        </div>
+                      </div>
+                      <div className="shrink-0 flex items-center gap-2">
+                        <AmountText tx={t} className="font-semibold" />
+                        <button
+                          onClick={() => onEditClick && onEditClick(t)}
+                          title="编辑"
+                          className="text-blue-600 hover:text-blue-700 p-1.5 rounded-md active:bg-blue-50"
+                          aria-label={`编辑 ${t.name}`}
+                        >
+                          <PencilIcon className="w-5 h-5" />
+                        </button>
+                        {/* Swiping only works on touch screens */}
+                        <button
+                          onClick={() => onDeleteClick && onDeleteClick(t.id)}
+                          title="删除"
+                          className="hidden md:inline-flex text-red-600 hover:text-red-700 p-1.5 rounded-md active:bg-red-50"
+                          aria-label={`删除 ${t.name}`}
+                        >
+                          <TrashIcon className="w-5 h-5" />
+                        </button>
+                      </div>
+                    </div>
+                  </SwipeToDelete>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="text-center text-gray-500 py-6">当天没有记录</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
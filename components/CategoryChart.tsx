@@ -1,24 +1,69 @@
 import React, { useMemo, useRef, useState, useEffect } from 'react';
 import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer } from 'recharts';
-import { Transaction } from '../types';
-import { CATEGORY_COLORS } from '../constants';
-import { PencilIcon, TrashIcon, BarsArrowDownIcon } from './icons';
-import { LeadingCat } from './TransactionList';
+import { Transaction, Budget, CategoryId } from '../types';
+import { PencilIcon, TrashIcon, BarsArrowDownIcon, ChevronLeftIcon, ChevronRightIcon } from './icons';
+import { LeadingCat, AmountText } from './TransactionList';
 import { SwipeToDelete } from './SwipeToDelete';
+import { localDateStr, summarize } from '../utils/helpers';
+import { useCategories } from '../utils/categories';
+import { spendingByMonth, spendingByRoot, budgetStatus, BudgetStatus } from '../utils/budgets';
+import { BudgetEditor } from './BudgetEditor';
+import { SpendingForecast } from './SpendingForecast';
+import { currencyLabel, useCurrency } from '../utils/currency';
+import { useMerchants } from '../utils/merchants';
+import { Anomaly } from '../utils/anomalies';
+import { PERIOD_LABELS, PeriodKind, PeriodSettings, WEEKDAY_LABELS, inPeriod, isCalendarMonth, periodAt, periodLabel, shiftPeriod } from '../utils/periods';
 
 interface CategoryChartProps {
   transactions: Transaction[];
-  currentMonth: string;
-  setCurrentMonth: (month: string) => void;
+  // Any day in the period shown, YYYY-MM-DD
+  anchor: string;
+  setAnchor: (day: string) => void;
+  periodSettings: PeriodSettings;
+  onPeriodSettingsChange: (settings: PeriodSettings) => void;
   onEditClick?: (transaction: Transaction) => void;
   onDeleteClick?: (transactionId: string) => void;
+  budgets?: Budget[];
+  onSaveBudgets?: (budgets: Budget[]) => void;
+  onBaseCurrencyChange?: (currency: string) => void;
+  onMerchantClick?: (name: string) => void;
+  onOpenReport?: () => void;
+  onOpenTrends?: () => void;
+  onOpenCalendar?: () => void;
+  anomalies?: Map<string, Anomaly[]>;
+  onOpenInsights?: () => void;
 }
 
 interface ChartData {
+  id: string;
   name: string;
+  color: string;
   value: number;
 }
 
+const BudgetBar: React.FC<{ status: BudgetStatus; color?: string }> = ({ status, color }) => {
+  const { format } = useCurrency();
+  return (
+  <div>
+    <div className="h-1.5 rounded-full bg-gray-100 overflow-hidden">
+      <div
+        className="h-full rounded-full"
+        style={{ width: `${Math.min(100, status.ratio * 100)}%`, backgroundColor: status.over ? '#DC2626' : color || '#2563EB' }}
+      />
+    </div>
+    <p className={`mt-0.5 text-xs ${status.over ? 'text-red-600' : 'text-gray-500'}`}>
+      {status.over
+        ? `超支 ${format(-status.remaining)}`
+        : `剩余 ${format(status.remaining)}`}
+      {` / 预算 ${format(status.available)}`}
+      {status.carried > 0 && `（含结转 ${format(status.carried)}）`}
+    </p>
+  </div>
+  );
+};
+
+const TOP_MERCHANTS = 5;
+
 const RADIAN = Math.PI / 180;
 const truncate = (s: string, max = 6) => (s && s.length > max ? s.slice(0, max) + '…' : s);
 const renderCustomizedLabel = ({ cx, cy, midAngle, outerRadius, percent, name }: any) => {
@@ -34,51 +79,102 @@ const renderCustomizedLabel = ({ cx, cy, midAngle, outerRadius, percent, name }:
   );
 };
 
-export const CategoryChart: React.FC<CategoryChartProps> = ({ transactions, currentMonth, setCurrentMonth, onEditClick, onDeleteClick }) => {
+export const CategoryChart: React.FC<CategoryChartProps> = ({ transactions, anchor, setAnchor, periodSettings, onPeriodSettingsChange, onEditClick, onDeleteClick, budgets = [], onSaveBudgets, onBaseCurrencyChange, onMerchantClick, onOpenReport, onOpenTrends, onOpenCalendar, anomalies, onOpenInsights }) => {
+  const registry = useCategories();
+  // Everything on this screen is converted to the report currency
+  const currency = useCurrency();
+  const merchants = useMerchants();
+  const [showBudgetEditor, setShowBudgetEditor] = useState(false);
 
-  const monthOptions = useMemo(() => {
-    const months = new Set<string>();
-    transactions.forEach(t => months.add(t.date.slice(0, 7)));
-    const thisMonth = new Date().toISOString().slice(0, 7);
-    if (!months.has(thisMonth)) {
-        months.add(thisMonth);
-    }
-    return Array.from(months).sort().reverse();
-  }, [transactions]);
+  const period = useMemo(() => periodAt(anchor, periodSettings), [anchor, periodSettings]);
+  const periodTitle = periodLabel(period, periodSettings);
+  // Budgets are monthly, so they only show for a calendar month
+  const budgetMonth = isCalendarMonth(period) ? period.start.slice(0, 7) : null;
+
+  const periodTransactions = useMemo(
+    () => transactions.filter(t => inPeriod(t, period)),
+    [transactions, period]
+  );
+  const totals = useMemo(() => summarize(periodTransactions, currency.toBase), [periodTransactions, currency]);
+  const totalAmount = currency.format(totals.expense);
+  const missingRates = useMemo(() => currency.missingRates(periodTransactions), [periodTransactions, currency]);
+  const flaggedCount = useMemo(() => (anomalies ? periodTransactions.filter(t => anomalies.has(t.id)).length : 0), [periodTransactions, anomalies]);
 
   const chartData = useMemo<ChartData[]>(() => {
-    const monthlyTransactions = transactions.filter(t => t.date.startsWith(currentMonth));
-    const dataMap = new Map<string, number>();
-    monthlyTransactions.forEach(t => {
-      dataMap.set(t.category, (dataMap.get(t.category) || 0) + t.amount);
+    return spendingByRoot(periodTransactions, registry, currency.toBase).map(({ id, value }) => {
+      const def = registry.get(id);
+      return { id, name: def.name, color: def.color, value };
+    });
+  }, [periodTransactions, registry, currency]);
+
+  const budgetStatuses = useMemo(() => {
+    const byCategory = new Map<CategoryId, BudgetStatus>();
+    if (!budgetMonth) return { overall: null, byCategory };
+    const spending = spendingByMonth(transactions, registry, currency.toBase);
+    const overall = budgets.find(b => !b.categoryId);
+    for (const b of budgets) {
+      if (!b.categoryId) continue;
+      const st = budgetStatus(b, budgetMonth, spending);
+      if (st) byCategory.set(b.categoryId, st);
+    }
+    return { overall: overall ? budgetStatus(overall, budgetMonth, spending) : null, byCategory };
+  }, [transactions, registry, budgets, budgetMonth, currency]);
+
+  // Slices plus budgeted categories that have no spending yet this month
+  const legendRows = useMemo(() => {
+    const rows = chartData.map(d => ({ ...d, status: budgetStatuses.byCategory.get(d.id) }));
+    budgetStatuses.byCategory.forEach((status, id) => {
+      if (rows.some(r => r.id === id)) return;
+      const def = registry.get(id);
+      rows.push({ id, name: registry.label(id), color: def.color, value: status.spent, status });
     });
-    return Array.from(dataMap.entries())
-        .map(([name, value]) => ({ name, value }))
-        .sort((a,b) => b.value - a.value);
-  }, [transactions, currentMonth]);
-
-  const totalAmount = useMemo(() => {
-    return chartData.reduce((sum, item) => sum + item.value, 0).toFixed(2);
-  }, [chartData]);
+    return rows;
+  }, [chartData, budgetStatuses, registry]);
   
-  const formattedMonth = new Date(currentMonth + '-01T00:00:00').toLocaleDateString('zh-CN', { month: 'long', year: 'numeric' });
+  // Spending per merchant, with every alias and branch counted under the canonical name
+  const topMerchants = useMemo(() => {
+    const byKey = new Map<string, { name: string; value: number; count: number }>();
+    periodTransactions.forEach(t => {
+      if (t.direction === 'income' || t.direction === 'transfer') return;
+      const amount = currency.toBase(t);
+      const key = merchants.groupKey(t.name);
+      const row = byKey.get(key) || { name: merchants.canonical(t.name), value: 0, count: 0 };
+      row.value += t.direction === 'refund' ? -amount : amount;
+      row.count += 1;
+      byKey.set(key, row);
+    });
+    return Array.from(byKey.values())
+      .filter(r => r.value > 0)
+      .sort((a, b) => b.value - a.value)
+      .slice(0, TOP_MERCHANTS);
+  }, [periodTransactions, merchants, currency]);
 
   const [sortByAmount, setSortByAmount] = useState(false);
   const monthlyTransactions = useMemo(() => {
-    const list = transactions.filter(t => t.date.startsWith(currentMonth));
+    const list = periodTransactions.slice();
     if (sortByAmount) {
-      return list.sort((a, b) => b.amount - a.amount);
+      // In the report currency, like the totals above
+      return list.sort((a, b) => currency.toBase(b) - currency.toBase(a));
     }
     return list.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  }, [transactions, currentMonth, sortByAmount]);
+  }, [periodTransactions, sortByAmount, currency]);
 
   // no multi-select in chart view
 
-  const currentIndex = useMemo(() => monthOptions.indexOf(currentMonth), [monthOptions, currentMonth]);
-  const canPrev = currentIndex !== -1 && currentIndex < monthOptions.length - 1;
-  const canNext = currentIndex !== -1 && currentIndex > 0;
-  const gotoPrev = () => { if (canPrev) setCurrentMonth(monthOptions[currentIndex + 1]); };
-  const gotoNext = () => { if (canNext) setCurrentMonth(monthOptions[currentIndex - 1]); };
+  // Back as far as the oldest record, forward up to the period that contains today
+  const earliest = useMemo(() => transactions.reduce((min, t) => (t.date < min ? t.date : min), localDateStr(new Date())).slice(0, 10), [transactions]);
+  const canPrev = earliest < period.start;
+  const canNext = period.end < localDateStr(new Date());
+  const goto = (delta: 1 | -1) => {
+    const next = shiftPeriod(period, delta, periodSettings);
+    if (periodSettings.kind === 'range') onPeriodSettingsChange({ ...periodSettings, from: next.start, to: next.end });
+    else setAnchor(next.start);
+  };
+  const gotoPrev = () => { if (canPrev) goto(-1); };
+  const gotoNext = () => { if (canNext) goto(1); };
+
+  const setPeriodSetting = (patch: Partial<PeriodSettings>) => onPeriodSettingsChange({ ...periodSettings, ...patch });
+  const periodFieldCls = 'py-1 px-2 border border-gray-300 bg-white rounded-md text-sm';
 
   // Drag-to-switch with follow + snap
   const SLIDE_MS = 140; // shorter slide duration for snappier feel
@@ -224,29 +320,134 @@ export const CategoryChart: React.FC<CategoryChartProps> = ({ transactions, curr
 
   return (
     <div className="md:bg-white md:p-6 p-0 md:rounded-xl md:shadow-md">
-      <div className="flex justify-between items-center mb-4 gap-3">
-        <div className="flex items-center gap-2">
+      <div className="flex flex-wrap justify-between items-center mb-4 gap-3">
+        <div className="flex flex-wrap items-center gap-2">
           <h2 className="text-lg font-semibold text-gray-800">分类支出</h2>
+          {onSaveBudgets && (
+            <button
+              onClick={() => setShowBudgetEditor(true)}
+              className="px-2 py-1 rounded-md border border-gray-200 text-sm text-gray-600 hover:bg-gray-50"
+            >预算</button>
+          )}
+          {onOpenReport && (
+            <button
+              onClick={onOpenReport}
+              className="px-2 py-1 rounded-md border border-gray-200 text-sm text-gray-600 hover:bg-gray-50"
+            >月报</button>
+          )}
+          {onOpenTrends && (
+            <button
+              onClick={onOpenTrends}
+              className="px-2 py-1 rounded-md border border-gray-200 text-sm text-gray-600 hover:bg-gray-50"
+            >趋势</button>
+          )}
+          {onOpenCalendar && (
+            <button
+              onClick={onOpenCalendar}
+              className="px-2 py-1 rounded-md border border-gray-200 text-sm text-gray-600 hover:bg-gray-50"
+            >日历</button>
+          )}
         </div>
   <div className="flex items-center gap-2">
-          <select 
-              value={currentMonth} 
-              onChange={e => setCurrentMonth(e.target.value)}
-              className="block w-40 py-2 px-3 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+          <select
+              value={periodSettings.kind}
+              onChange={e => setPeriodSetting({ kind: e.target.value as PeriodKind })}
+              className="block w-24 py-2 px-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              title="统计周期"
           >
-            {monthOptions.map(month => (
-              <option key={month} value={month}>{new Date(month + '-01T00:00:00').toLocaleDateString('zh-CN', { month: 'long', year: 'numeric' })}</option>
+            {(Object.keys(PERIOD_LABELS) as PeriodKind[]).map(kind => (
+              <option key={kind} value={kind}>{PERIOD_LABELS[kind]}</option>
             ))}
           </select>
+          {onBaseCurrencyChange && (
+            <select
+              value={currency.base}
+              onChange={e => onBaseCurrencyChange(e.target.value)}
+              className="block w-24 py-2 px-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+              title="报表币种"
+            >
+              {[...currency.rates.keys()].sort().map(code => (
+                <option key={code} value={code}>{code}</option>
+              ))}
+            </select>
+          )}
         </div>
       </div>
-      
+
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <button onClick={gotoPrev} disabled={!canPrev} className="p-1.5 rounded-md border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-40" aria-label="上一期">
+          <ChevronLeftIcon className="w-5 h-5" />
+        </button>
+        <span className="text-sm font-medium text-gray-800 text-center">{periodTitle}</span>
+        <button onClick={gotoNext} disabled={!canNext} className="p-1.5 rounded-md border border-gray-200 text-gray-600 hover:bg-gray-50 disabled:opacity-40" aria-label="下一期">
+          <ChevronRightIcon className="w-5 h-5" />
+        </button>
+      </div>
+      {periodSettings.kind !== 'quarter' && periodSettings.kind !== 'year' && (
+        <div className="flex items-center justify-center gap-2 mb-3 text-sm text-gray-600">
+          {periodSettings.kind === 'week' && (
+            <label className="flex items-center gap-2">
+              每周从
+              <select value={periodSettings.weekStart} onChange={e => setPeriodSetting({ weekStart: Number(e.target.value) })} className={periodFieldCls}>
+                {WEEKDAY_LABELS.map((label, i) => <option key={i} value={i}>{label}</option>)}
+              </select>
+              开始
+            </label>
+          )}
+          {periodSettings.kind === 'month' && (
+            <label className="flex items-center gap-2">
+              每月从
+              <select value={periodSettings.monthStartDay} onChange={e => setPeriodSetting({ monthStartDay: Number(e.target.value) })} className={periodFieldCls}>
+                {Array.from({ length: 28 }, (_, i) => i + 1).map(d => <option key={d} value={d}>{d} 日</option>)}
+              </select>
+              开始
+            </label>
+          )}
+          {periodSettings.kind === 'range' && (
+            <>
+              <input type="date" value={periodSettings.from} onChange={e => e.target.value && setPeriodSetting({ from: e.target.value })} className={periodFieldCls} />
+              <span className="text-gray-400">至</span>
+              <input type="date" value={periodSettings.to} onChange={e => e.target.value && setPeriodSetting({ to: e.target.value })} className={periodFieldCls} />
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2 mb-2 text-center">
+        <div className="rounded-lg bg-green-50 py-2">
+          <p className="text-xs text-gray-500">收入</p>
+          <p className="font-mono font-semibold text-green-600">{currency.format(totals.income)}</p>
+        </div>
+        <div className="rounded-lg bg-gray-50 py-2">
+          <p className="text-xs text-gray-500">支出</p>
+          <p className="font-mono font-semibold text-gray-800">{currency.format(totals.expense)}</p>
+        </div>
+        <div className="rounded-lg bg-blue-50 py-2">
+          <p className="text-xs text-gray-500">结余</p>
+          <p className={`font-mono font-semibold ${totals.net < 0 ? 'text-red-600' : 'text-blue-700'}`}>{currency.format(totals.net)}</p>
+        </div>
+      </div>
+      {missingRates.length > 0 && (
+        <p className="mb-2 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-md px-2 py-1">
+          缺少 {missingRates.map(currencyLabel).join('、')} 的汇率，相关记录未计入合计。请在设置中补充汇率。
+        </p>
+      )}
+      {flaggedCount > 0 && onOpenInsights && (
+        <button
+          onClick={onOpenInsights}
+          className="mb-2 w-full flex items-center justify-between gap-2 text-left text-xs text-orange-800 bg-orange-50 border border-orange-200 rounded-md px-2 py-1.5"
+        >
+          <span>本期有 {flaggedCount} 条记录金额异常或疑似重复</span>
+          <span className="font-medium shrink-0">查看</span>
+        </button>
+      )}
+
       {chartData.length > 0 ? (
   <div className="relative" onPointerDown={onPointerDown} onPointerMove={onPointerMove} onPointerUp={onPointerUp} onPointerCancel={onPointerCancel} onLostPointerCapture={onLostPointerCapture} style={{ touchAction: 'pan-y' }}>
           <div ref={containerRef} className="relative">
             <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
-               <span className="text-sm text-gray-500">{formattedMonth}总支出</span>
-               <span className="text-2xl font-bold text-gray-800">¥{totalAmount}</span>
+               <span className="text-sm text-gray-500">总支出</span>
+               <span className="text-2xl font-bold text-gray-800">{totalAmount}</span>
             </div>
             <div className="-mx-6">
             <ResponsiveContainer width="100%" height={320}>
@@ -266,10 +467,10 @@ export const CategoryChart: React.FC<CategoryChartProps> = ({ transactions, curr
                 animationDuration={500}
               >
                 {chartData.map((entry) => (
-                  <Cell key={`cell-${entry.name}`} fill={CATEGORY_COLORS[entry.name as keyof typeof CATEGORY_COLORS]} className="focus:outline-none"/>
+                  <Cell key={`cell-${entry.id}`} fill={entry.color} className="focus:outline-none"/>
                 ))}
               </Pie>
-              {!dragging && !animating && <Tooltip formatter={(value: number) => `¥${value.toFixed(2)}`} />}
+              {!dragging && !animating && <Tooltip formatter={(value: number) => currency.format(value)} />}
               </PieChart>
             </ResponsiveContainer>
             </div>
@@ -277,14 +478,85 @@ export const CategoryChart: React.FC<CategoryChartProps> = ({ transactions, curr
           </div>
       ) : (
         <div className="h-[300px] flex items-center justify-center text-gray-500">
-          <p>当前月份无支出数据</p>
+          <p>所选时段无支出数据</p>
         </div>
       )}
 
+      {budgetStatuses.overall && (
+        <div className="mt-2">
+          <div className="flex items-center justify-between text-sm mb-1">
+            <span className="font-medium text-gray-800">本月总预算</span>
+            {budgetStatuses.overall.over && <span className="text-xs font-semibold text-red-600">已超支</span>}
+          </div>
+          <BudgetBar status={budgetStatuses.overall} />
+        </div>
+      )}
+
+      {legendRows.length > 0 && (
+        <ul className="mt-4 space-y-3">
+          {legendRows.map(row => (
+            <li key={row.id}>
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <span className="flex items-center gap-2 min-w-0">
+                  <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: row.color }} />
+                  <span className="truncate text-gray-800">{row.name}</span>
+                  {row.status?.over && <span className="px-1.5 rounded bg-red-100 text-red-700 text-xs">超支</span>}
+                </span>
+                <span className="font-mono text-gray-700">{currency.format(row.value)}</span>
+              </div>
+              {row.status && <div className="mt-1 pl-4"><BudgetBar status={row.status} color={row.color} /></div>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {periodSettings.kind === 'month' && (
+        <SpendingForecast
+          transactions={transactions}
+          period={period}
+          periodSettings={periodSettings}
+          budgets={budgetStatuses.byCategory}
+          overallBudget={budgetStatuses.overall}
+        />
+      )}
+
+      {topMerchants.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-base font-semibold text-gray-800 mb-2">商户排行</h3>
+          <ul className="space-y-2">
+            {topMerchants.map((m, i) => (
+              <li key={m.name}>
+                <button
+                  onClick={() => onMerchantClick && onMerchantClick(m.name)}
+                  disabled={!onMerchantClick}
+                  className="w-full flex items-center justify-between gap-2 text-sm text-left rounded-md px-1 py-0.5 hover:bg-gray-50 disabled:hover:bg-transparent"
+                >
+                  <span className="flex items-center gap-2 min-w-0">
+                    <span className="w-5 text-xs text-gray-400 text-right shrink-0">{i + 1}</span>
+                    <span className="truncate text-gray-800">{m.name}</span>
+                    <span className="text-xs text-gray-400 shrink-0">{m.count} 笔</span>
+                  </span>
+                  <span className="font-mono text-gray-700">{currency.format(m.value)}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {showBudgetEditor && onSaveBudgets && (
+        <BudgetEditor
+          budgets={budgets}
+          currentMonth={budgetMonth || period.start.slice(0, 7)}
+          onSave={(next) => { onSaveBudgets(next); setShowBudgetEditor(false); }}
+          onClose={() => setShowBudgetEditor(false)}
+        />
+      )}
+
         {/* 月度账单列表 */}
         <div className="mt-6">
           <div className="flex items-center justify-between mb-2">
-            <h3 className="text-base font-semibold text-gray-800">{formattedMonth} 账单</h3>
+            <h3 className="text-base font-semibold text-gray-800">{periodTitle} 账单</h3>
             <div className="flex items-center gap-2">
               <button
                 onClick={() => setSortByAmount(s => !s)}
@@ -321,7 +593,7 @@ export const CategoryChart: React.FC<CategoryChartProps> = ({ transactions, curr
                         </div>
                       </div>
                         <div className="shrink-0 text-right flex flex-col items-end gap-2">
-                          <span className="font-mono font-semibold text-gray-900">¥{t.amount.toFixed(2)}</span>
+                          <AmountText tx={t} className="font-semibold" />
                           <button
                             onClick={() => onEditClick && onEditClick(t)}
                             title="编辑"
@@ -338,7 +610,7 @@ export const CategoryChart: React.FC<CategoryChartProps> = ({ transactions, curr
               </ul>
             </div>
           ) : (
-            <div className="text-center text-gray-500 py-6">本月暂无记录</div>
+            <div className="text-center text-gray-500 py-6">该时段暂无记录</div>
           )}
         </div>
 
@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import { CategoryDef, CategoryKind } from '../types';
+import { CATEGORY_PALETTE, FALLBACK_CATEGORIES } from '../constants';
+import { CATEGORY_ICONS, CatIcon, ChevronLeftIcon, PlusIcon } from './icons';
+import { buildRegistry, newCategoryId } from '../utils/categories';
+
+interface CategoryManagerProps {
+  categories: CategoryDef[];
+  onBack: () => void;
+  onSave: (category: CategoryDef) => void;
+}
+
+type Draft = Omit<CategoryDef, 'order'> & { order?: number };
+
+const emptyDraft = (kind: CategoryKind): Draft => ({
+  id: '',
+  name: '',
+  kind,
+  color: CATEGORY_PALETTE[0],
+  icon: 'other',
+});
+
+export const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onBack, onSave }) => {
+  const [kind, setKind] = useState<CategoryKind>('expense');
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const registry = useMemo(() => buildRegistry(categories), [categories]);
+
+  // Roots of the current kind (archived ones last), each followed by all of its children
+  const rows = useMemo(() => {
+    const roots = registry.all
+      .filter(c => c.kind === kind && !c.parentId)
+      .sort((a, b) => Number(!!a.archived) - Number(!!b.archived) || a.order - b.order);
+    return roots.flatMap(r => [r, ...registry.children(r.id)]);
+  }, [registry, kind]);
+
+  const parentOptions = useMemo(
+    () => registry.all.filter(c => c.kind === (draft?.kind || kind) && !c.parentId && !c.archived && c.id !== draft?.id),
+    [registry, draft, kind]
+  );
+
+  const openNew = () => { setDraft(emptyDraft(kind)); setError(null); };
+  const openEdit = (c: CategoryDef) => { setDraft({ ...c }); setError(null); };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    if (!name) { setError('名称不能为空'); return; }
+    const clash = categories.some(c => c.kind === draft.kind && c.id !== draft.id && !c.archived && c.name === name);
+    if (clash) { setError('已存在同名分类'); return; }
+    const order = draft.order ?? Math.max(0, ...categories.map(c => c.order)) + 1;
+    onSave({ ...draft, id: draft.id || newCategoryId(), name, order, parentId: draft.parentId || undefined });
+    setDraft(null);
+  };
+
+  const toggleArchived = (c: CategoryDef) => {
+    onSave({ ...c, archived: !c.archived });
+  };
+
+  const canArchive = (c: CategoryDef) => c.id !== FALLBACK_CATEGORIES[c.kind];
+  const hasChildren = (c: CategoryDef) => registry.children(c.id).length > 0;
+
+  return (
+    <div className="md:bg-white md:p-6 p-0 md:rounded-xl md:shadow-md">
+      <div className="flex items-center gap-2 mb-4">
+        <button onClick={onBack} className="p-2 rounded-md border border-gray-200 hover:bg-gray-50" title="返回设置">
+          <ChevronLeftIcon className="w-5 h-5" />
+        </button>
+        <h2 className="text-lg md:text-xl font-semibold text-gray-800 flex-1">分类管理</h2>
+        <button onClick={openNew} className="p-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700" title="新建分类" aria-label="新建分类">
+          <PlusIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="inline-flex rounded-lg border border-gray-200 p-0.5 mb-3" role="tablist">
+        {(['expense', 'income'] as const).map(k => (
+          <button
+            key={k}
+            role="tab"
+            aria-selected={kind === k}
+            onClick={() => setKind(k)}
+            className={`px-4 py-1.5 rounded-md text-sm ${kind === k ? 'bg-blue-600 text-white' : 'text-gray-600'}`}
+          >{k === 'expense' ? '支出分类' : '收入分类'}</button>
+        ))}
+      </div>
+
+      <ul className="divide-y divide-gray-100">
+        {rows.map(c => (
+          <li key={c.id} className={`py-2 flex items-center gap-3 ${c.parentId ? 'pl-8' : ''} ${c.archived ? 'opacity-50' : ''}`}>
+            <span
+              className="inline-flex items-center justify-center w-10 h-10 rounded-full shrink-0"
+              style={{ color: c.color, backgroundColor: `${c.color}1A` }}
+            >
+              <CatIcon icon={c.icon} className="w-6 h-6" />
+            </span>
+            <div className="min-w-0 flex-1">
+              <p className="font-medium text-gray-900 truncate">{c.name}</p>
+              <p className="text-xs text-gray-400">
+                {c.builtin ? '内置' : '自定义'}
+                {c.archived && ' · 已归档'}
+              </p>
+            </div>
+            <button onClick={() => openEdit(c)} className="px-2 py-1 text-sm rounded-md border border-gray-200 text-blue-600">编辑</button>
+            {canArchive(c) && (
+              <button onClick={() => toggleArchived(c)} className="px-2 py-1 text-sm rounded-md border border-gray-200 text-gray-600">
+                {c.archived ? '恢复' : '归档'}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {draft && (
+        <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={() => setDraft(null)}>
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+            <div className="px-4 py-3 border-b border-gray-200">
+              <h3 className="text-base font-semibold text-gray-900">{draft.id ? '编辑分类' : '新建分类'}</h3>
+            </div>
+            <div className="p-4 space-y-4 overflow-y-auto">
+              <div>
+                <label className="text-xs text-gray-500">名称</label>
+                <input
+                  value={draft.name}
+                  onChange={e => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="例如：宠物、订阅"
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+                  autoFocus
+                />
+              </div>
+              <div>
+                <label className="text-xs text-gray-500">上级分类（可选）</label>
+                <select
+                  value={draft.parentId || ''}
+                  onChange={e => setDraft({ ...draft, parentId: e.target.value || undefined })}
+                  disabled={!!draft.id && hasChildren(draft as CategoryDef)}
+                  className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm bg-white"
+                >
+                  <option value="">无（顶级分类）</option>
+                  {parentOptions.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="text-xs text-gray-500">颜色</label>
+                <div className="mt-1 flex flex-wrap items-center gap-2">
+                  {CATEGORY_PALETTE.map(col => (
+                    <button
+                      key={col}
+                      type="button"
+                      onClick={() => setDraft({ ...draft, color: col })}
+                      className={`w-7 h-7 rounded-full ${draft.color === col ? 'ring-2 ring-offset-2 ring-blue-500' : ''}`}
+                      style={{ backgroundColor: col }}
+                      aria-label={col}
+                    />
+                  ))}
+                  <input type="color" value={draft.color} onChange={e => setDraft({ ...draft, color: e.target.value })} className="w-8 h-8" title="自定义颜色" />
+                </div>
+              </div>
+              <div>
+                <label className="text-xs text-gray-500">图标</label>
+                <div className="mt-1 grid grid-cols-6 gap-2">
+                  {Object.keys(CATEGORY_ICONS).map(key => (
+                    <button
+                      key={key}
+                      type="button"
+                      onClick={() => setDraft({ ...draft, icon: key })}
+                      className={`inline-flex items-center justify-center w-10 h-10 rounded-full bg-gray-100 ${draft.icon === key ? 'ring-2 ring-blue-500' : ''}`}
+                      style={{ color: draft.color }}
+                      aria-pressed={draft.icon === key}
+                    >
+                      <CatIcon icon={key} className="w-6 h-6" />
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+            <div className="px-4 py-3 border-t border-gray-200 flex justify-end gap-2">
+              <button onClick={() => setDraft(null)} className="px-3 py-1.5 rounded-md border border-gray-300 text-sm">取消</button>
+              <button onClick={saveDraft} className="px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm">保存</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
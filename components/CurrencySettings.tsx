@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { ExchangeRate } from '../types';
+import { CURRENCY_NAMES, DEFAULT_CURRENCY } from '../constants';
+import { ChevronLeftIcon } from './icons';
+import { currencyLabel, normalizeCurrency } from '../utils/currency';
+import { localDateStr } from '../utils/helpers';
+
+interface CurrencySettingsProps {
+  rates: ExchangeRate[];
+  baseCurrency: string;
+  onBaseCurrencyChange: (currency: string) => void;
+  onSaveRate: (rate: ExchangeRate) => void;
+  onDeleteRate: (currency: string) => void;
+  onBack: () => void;
+}
+
+export const CurrencySettings: React.FC<CurrencySettingsProps> = ({ rates, baseCurrency, onBaseCurrencyChange, onSaveRate, onDeleteRate, onBack }) => {
+  // Inputs are kept as text while editing and committed on blur
+  const [edits, setEdits] = useState<Record<string, string>>({});
+  const [newCode, setNewCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const sorted = rates.slice().sort((a, b) => a.currency.localeCompare(b.currency));
+  const codes = [DEFAULT_CURRENCY, ...sorted.map(r => r.currency)];
+
+  const commit = (r: ExchangeRate) => {
+    const text = edits[r.currency];
+    if (text === undefined) return;
+    const rate = Number(text);
+    setEdits(({ [r.currency]: _, ...rest }) => rest);
+    if (!isFinite(rate) || rate <= 0) { setError(`${r.currency} 的汇率必须大于 0`); return; }
+    setError(null);
+    if (rate !== r.rate) onSaveRate({ ...r, rate, updatedAt: localDateStr(new Date()) });
+  };
+
+  const handleAdd = () => {
+    const code = normalizeCurrency(newCode, '');
+    if (!code) { setError('请输入三位货币代码，例如 THB'); return; }
+    if (codes.includes(code)) { setError(`${code} 已在列表中`); return; }
+    setError(null);
+    setNewCode('');
+    // Start at 1 so the row shows up; the user fills in the real rate
+    onSaveRate({ currency: code, rate: 1, updatedAt: localDateStr(new Date()) });
+  };
+
+  const handleDelete = (code: string) => {
+    if (code === baseCurrency) { setError('不能删除当前的报表币种'); return; }
+    if (confirm(`删除 ${currencyLabel(code)} 的汇率？使用该币种的记录将无法计入合计。`)) onDeleteRate(code);
+  };
+
+  return (
+    <div className="md:bg-white md:p-6 p-0 md:rounded-xl md:shadow-md">
+      <div className="flex items-center gap-2 mb-4">
+        <button onClick={onBack} className="p-2 rounded-md border border-gray-200 hover:bg-gray-50" title="返回设置">
+          <ChevronLeftIcon className="w-5 h-5" />
+        </button>
+        <h2 className="text-lg md:text-xl font-semibold text-gray-800 flex-1">币种与汇率</h2>
+      </div>
+
+      <div className="mb-4">
+        <label className="text-xs text-gray-500">报表币种（统计、预算和账户余额都按此币种换算）</label>
+        <select
+          value={baseCurrency}
+          onChange={e => onBaseCurrencyChange(e.target.value)}
+          className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm bg-white"
+        >
+          {codes.map(code => <option key={code} value={code}>{currencyLabel(code)}</option>)}
+        </select>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-2">汇率保存在本机，离线可用。每行表示 1 单位外币折合多少人民币。</p>
+      {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+
+      <ul className="divide-y divide-gray-100">
+        <li className="py-2 flex items-center gap-3 text-sm">
+          <span className="flex-1 text-gray-800">{currencyLabel(DEFAULT_CURRENCY)}</span>
+          <span className="text-gray-400">基准</span>
+        </li>
+        {sorted.map(r => (
+          <li key={r.currency} className="py-2 flex items-center gap-3 text-sm">
+            <div className="min-w-0 flex-1">
+              <p className="text-gray-800 truncate">{currencyLabel(r.currency)}</p>
+              <p className="text-xs text-gray-400">
+                1 {r.currency} = {r.rate} {DEFAULT_CURRENCY} · 更新于 {r.updatedAt}
+              </p>
+            </div>
+            <input
+              type="number"
+              inputMode="decimal"
+              min="0"
+              step="any"
+              value={edits[r.currency] ?? String(r.rate)}
+              onChange={e => setEdits(prev => ({ ...prev, [r.currency]: e.target.value }))}
+              onBlur={() => commit(r)}
+              onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+              className="w-28 rounded-md border border-gray-300 px-2 py-1 text-right"
+              aria-label={`${r.currency} 汇率`}
+            />
+            <button onClick={() => handleDelete(r.currency)} className="px-2 py-1 rounded-md border border-gray-200 text-red-600">删除</button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="mt-4 flex items-center gap-2">
+        <input
+          value={newCode}
+          onChange={e => setNewCode(e.target.value)}
+          placeholder="货币代码，如 THB"
+          maxLength={3}
+          className="flex-1 rounded-md border border-gray-300 px-3 py-2 text-sm uppercase"
+          list="known-currencies"
+        />
+        <datalist id="known-currencies">
+          {Object.keys(CURRENCY_NAMES).filter(c => !codes.includes(c)).map(c => <option key={c} value={c}>{CURRENCY_NAMES[c]}</option>)}
+        </datalist>
+        <button onClick={handleAdd} className="px-3 py-2 rounded-md bg-blue-600 text-white text-sm">添加币种</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React, { useMemo } from 'react';
+import { CategoryId } from '../types';
+import { ExportFilter } from '../utils/exportFilter';
+import { useCategories } from '../utils/categories';
+
+interface ExportFilterFieldsProps {
+  filter: ExportFilter;
+  onChange: (filter: ExportFilter) => void;
+}
+
+// Date range and top-level category toggles for the export dialogs
+export const ExportFilterFields: React.FC<ExportFilterFieldsProps> = ({ filter, onChange }) => {
+  const registry = useCategories();
+  const roots = useMemo(() => [...registry.active('expense'), ...registry.active('income')].filter(c => !c.parentId), [registry]);
+
+  const toggleCategory = (id: CategoryId) =>
+    onChange({ ...filter, excluded: filter.excluded.includes(id) ? filter.excluded.filter(x => x !== id) : [...filter.excluded, id] });
+
+  const inputCls = 'mt-1 block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm bg-white';
+  const chipCls = (on: boolean) => `px-2.5 py-1 rounded-full text-xs border ${on ? 'bg-blue-50 border-blue-300 text-blue-700' : 'border-gray-200 text-gray-400'}`;
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="text-xs text-gray-500">开始日期</label>
+          <input type="date" value={filter.from} onChange={e => onChange({ ...filter, from: e.target.value })} className={inputCls} />
+        </div>
+        <div>
+          <label className="text-xs text-gray-500">结束日期</label>
+          <input type="date" value={filter.to} onChange={e => onChange({ ...filter, to: e.target.value })} className={inputCls} />
+        </div>
+      </div>
+      <div>
+        <p className="text-xs text-gray-500 mb-1">包含的分类</p>
+        <div className="flex flex-wrap gap-2">
+          {roots.map(c => (
+            <button key={c.id} onClick={() => toggleCategory(c.id)} className={chipCls(!filter.excluded.includes(c.id))}>{c.name}</button>
+          ))}
+          <button onClick={() => onChange({ ...filter, includeTransfers: !filter.includeTransfers })} className={chipCls(filter.includeTransfers)}>转账</button>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import { Transaction } from '../types';
+import { XIcon } from './icons';
+import { AmountText } from './TransactionList';
+import { BackupData, categoriesToAdd } from '../utils/backup';
+import {
+  IMPORT_STATUS_LABELS, ImportPlan, ImportStatus, MERGE_STRATEGY_LABELS, MergeStrategy, classifyImport, planImport,
+} from '../utils/importPreview';
+import { buildRegistry, useCategories } from '../utils/categories';
+import { useAccounts } from '../utils/accounts';
+import { useMerchants } from '../utils/merchants';
+
+interface ImportPreviewProps {
+  fileName: string;
+  backup: BackupData;
+  transactions: Transaction[];
+  // Applies the plan and returns a function that undoes it
+  onMerge: (plan: ImportPlan, extras: Pick<BackupData, 'accounts' | 'budgets' | 'categories'>) => () => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ImportStatus, string> = {
+  new: 'bg-blue-50 text-blue-700',
+  duplicate: 'bg-gray-100 text-gray-600',
+  probable: 'bg-amber-50 text-amber-700',
+  invalid: 'bg-red-50 text-red-700',
+};
+
+// Long files only list the first records of each kind
+const MAX_ROWS = 200;
+
+interface MergeResult {
+  plan: ImportPlan;
+  accountsAdded: number;
+  categoriesAdded: number;
+  undo: () => void;
+  undone: boolean;
+}
+
+export const ImportPreview: React.FC<ImportPreviewProps> = ({ fileName, backup, transactions, onMerge, onClose }) => {
+  const registry = useCategories();
+  const accounts = useAccounts();
+  const merchants = useMerchants();
+  // Custom categories from the file count as known, so their records keep them
+  const [newCategories] = useState(() => categoriesToAdd(backup.categories, registry.all));
+  // Classified once against the ledger as it was when the file was opened
+  const [candidates] = useState(() => classifyImport(backup.transactions, transactions, {
+    registry: newCategories.length ? buildRegistry([...registry.all, ...newCategories]) : registry,
+    merchants,
+  }));
+  const [strategies, setStrategies] = useState<Record<'duplicate' | 'probable', MergeStrategy>>({ duplicate: 'skip', probable: 'keepBoth' });
+  const [shown, setShown] = useState<ImportStatus>(() => (['probable', 'duplicate', 'invalid', 'new'] as ImportStatus[])
+    .find(s => candidates.some(c => c.status === s)) || 'new');
+  const [result, setResult] = useState<MergeResult | null>(null);
+
+  const counts = useMemo(() => {
+    const out: Record<ImportStatus, number> = { new: 0, duplicate: 0, probable: 0, invalid: 0 };
+    candidates.forEach(c => { out[c.status] += 1; });
+    return out;
+  }, [candidates]);
+  const plan = useMemo(() => planImport(candidates, strategies), [candidates, strategies]);
+  const newAccounts = useMemo(() => backup.accounts.filter(a => !accounts.some(x => x.id === a.id)), [backup.accounts, accounts]);
+  const rows = useMemo(() => candidates.filter(c => c.status === shown), [candidates, shown]);
+  const changes = plan.added.length + plan.overwrites.length;
+
+  const commit = () => {
+    const undo = onMerge(plan, { accounts: backup.accounts, budgets: backup.budgets, categories: newCategories });
+    setResult({ plan, accountsAdded: newAccounts.length, categoriesAdded: newCategories.length, undo, undone: false });
+  };
+
+  const handleUndo = () => {
+    if (!result || result.undone) return;
+    result.undo();
+    setResult({ ...result, undone: true });
+  };
+
+  const rawLabel = (raw: unknown) => {
+    if (typeof raw !== 'object' || !raw) return String(raw);
+    return String(('name' in raw && (raw as { name?: unknown }).name) || '（无名称）');
+  };
+
+  const tile = (label: string, value: number, tone: string) => (
+    <div className={`rounded-lg py-2 ${tone}`}>
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className="font-semibold">{value}</p>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center gap-2">
+          <div className="min-w-0 flex-1">
+            <h3 className="text-base font-semibold text-gray-900">{result ? '导入结果' : '导入预览'}</h3>
+            <p className="text-xs text-gray-500 truncate" title={fileName}>{fileName}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 rounded-full p-1" aria-label="关闭">
+            <XIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-3">
+          {result ? (
+            <>
+              {result.undone && (
+                <p className="text-sm text-green-700 bg-green-100 border border-green-300 rounded-md px-3 py-2">已撤销本次导入，记录、分类、账户和预算均已恢复原状。</p>
+              )}
+              <div className={`grid grid-cols-4 gap-2 text-center ${result.undone ? 'opacity-50' : ''}`}>
+                {tile('新增', result.plan.added.length, 'bg-blue-50 text-blue-700')}
+                {tile('覆盖', result.plan.overwrites.length, 'bg-amber-50 text-amber-700')}
+                {tile('跳过', result.plan.skipped, 'bg-gray-50 text-gray-700')}
+                {tile('无效', result.plan.invalid, 'bg-red-50 text-red-700')}
+              </div>
+              {!result.undone && (
+                <ul className="text-sm text-gray-600 list-disc pl-5 space-y-0.5">
+                  {result.plan.keptBoth > 0 && <li>新增的记录中有 {result.plan.keptBoth} 条与已有记录重复，按选择两条都保留。</li>}
+                  {result.categoriesAdded > 0 && <li>新建了 {result.categoriesAdded} 个分类。</li>}
+                  {result.accountsAdded > 0 && <li>新建了 {result.accountsAdded} 个账户。</li>}
+                  {backup.budgets.length > 0 && <li>导入了 {backup.budgets.length} 项预算，替换了相同分类的已有预算。</li>}
+                </ul>
+              )}
+            </>
+          ) : candidates.length === 0 ? (
+            <p className="text-sm text-gray-500">文件中没有记录。</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-4 gap-2 text-center">
+                {(Object.keys(IMPORT_STATUS_LABELS) as ImportStatus[]).map(s => (
+                  <button
+                    key={s}
+                    onClick={() => setShown(s)}
+                    className={`rounded-lg py-2 border ${STATUS_STYLES[s]} ${shown === s ? 'border-current' : 'border-transparent'}`}
+                  >
+                    <p className="text-xs">{IMPORT_STATUS_LABELS[s]}</p>
+                    <p className="font-semibold">{counts[s]}</p>
+                  </button>
+                ))}
+              </div>
+
+              {(counts.duplicate > 0 || counts.probable > 0) && (
+                <div className="grid grid-cols-2 gap-3">
+                  {(['duplicate', 'probable'] as const).filter(s => counts[s] > 0).map(s => (
+                    <div key={s}>
+                      <label className="text-xs text-gray-500">{IMPORT_STATUS_LABELS[s]}的记录</label>
+                      <select
+                        value={strategies[s]}
+                        onChange={e => setStrategies(st => ({ ...st, [s]: e.target.value as MergeStrategy }))}
+                        className="mt-1 block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm bg-white"
+                      >
+                        {(Object.keys(MERGE_STRATEGY_LABELS) as MergeStrategy[]).map(m => <option key={m} value={m}>{MERGE_STRATEGY_LABELS[m]}</option>)}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {rows.length === 0 ? (
+                <p className="text-sm text-gray-500 py-4 text-center">没有{IMPORT_STATUS_LABELS[shown]}。</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+                  {rows.slice(0, MAX_ROWS).map((c, i) => (
+                    <li key={i} className="px-3 py-2 text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="min-w-0 flex-1 truncate text-gray-900">{c.tx ? c.tx.name : rawLabel(c.raw)}</span>
+                        {c.tx && <span className="text-xs text-gray-500">{c.tx.date.replace('T', ' ')}</span>}
+                        {c.tx && <AmountText tx={c.tx} className="w-24 text-right" />}
+                      </div>
+                      {c.tx && c.tx.direction !== 'transfer' && <p className="text-xs text-gray-400">{registry.label(c.tx.category)}</p>}
+                      {c.match && (
+                        <p className="text-xs text-gray-500">
+                          已有：{c.match.name} · {c.match.date.replace('T', ' ')}
+                        </p>
+                      )}
+                      {c.reason && <p className={`text-xs ${c.status === 'invalid' ? 'text-red-600' : 'text-amber-700'}`}>{c.reason}</p>}
+                    </li>
+                  ))}
+                  {rows.length > MAX_ROWS && <li className="px-3 py-2 text-xs text-gray-400">另有 {rows.length - MAX_ROWS} 条未列出</li>}
+                </ul>
+              )}
+
+              {(newCategories.length > 0 || newAccounts.length > 0 || backup.budgets.length > 0) && (
+                <p className="text-xs text-gray-500">
+                  {newCategories.length > 0 && `将新建 ${newCategories.length} 个分类。`}
+                  {newAccounts.length > 0 && `将新建 ${newAccounts.length} 个账户。`}
+                  {backup.budgets.length > 0 && `将导入 ${backup.budgets.length} 项预算，替换相同分类的已有预算。`}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-200 flex items-center gap-2">
+          {result ? (
+            <>
+              <span className="flex-1" />
+              {!result.undone && (
+                <button onClick={handleUndo} className="px-3 py-1.5 rounded-md border border-gray-300 text-sm">撤销本次导入</button>
+              )}
+              <button onClick={onClose} className="px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm">完成</button>
+            </>
+          ) : (
+            <>
+              <span className="flex-1 text-sm text-gray-500">
+                新增 {plan.added.length} 条{plan.overwrites.length > 0 && `，覆盖 ${plan.overwrites.length} 条`}
+              </span>
+              <button onClick={onClose} className="px-3 py-1.5 rounded-md border border-gray-300 text-sm">取消</button>
+              <button
+                onClick={commit}
+                disabled={changes === 0 && newAccounts.length === 0 && backup.budgets.length === 0}
+                className="px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm disabled:opacity-50"
+              >
+                导入
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
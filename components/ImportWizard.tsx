@@ -0,0 +1,338 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AmountSign, ImportField, ImportPreset, NewTransaction, Transaction } from '../types';
+import { SpinnerIcon, XIcon } from './icons';
+import { AmountText } from './TransactionList';
+import { DATE_FORMATS, IMPORT_FIELD_LABELS, MappedRow, REQUIRED_FIELDS, columnLetter, mapRows, matchPreset, newImportPresetId, newPreset, readTable } from '../utils/tableImport';
+import { findDuplicates } from '../utils/review';
+import { useCategories } from '../utils/categories';
+import { useCurrency } from '../utils/currency';
+import { useRules } from '../utils/rules';
+import { usePreferences } from '../utils/preferences';
+import { useMerchants } from '../utils/merchants';
+
+interface ImportWizardProps {
+  file: File;
+  transactions: Transaction[];
+  presets: ImportPreset[];
+  onSavePreset: (preset: ImportPreset) => void;
+  onDeletePreset: (presetId: string) => void;
+  // Returns how many records were actually added
+  onImport: (items: NewTransaction[]) => number;
+  onClose: () => void;
+}
+
+const SIGN_LABELS: Record<AmountSign, string> = {
+  'negative-expense': '负数为支出，正数为收入（银行流水）',
+  'positive-expense': '正数为支出，负数为退款（信用卡、记账表格）',
+};
+
+const FIELDS = Object.keys(IMPORT_FIELD_LABELS) as ImportField[];
+
+const PREVIEW_ROWS = 5;
+// Unreadable rows listed in the summary; all of them are counted
+const PROBLEM_LIMIT = 20;
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ file, transactions, presets, onSavePreset, onDeletePreset, onImport, onClose }) => {
+  const registry = useCategories();
+  const currency = useCurrency();
+  const rules = useRules();
+  const prefs = usePreferences();
+  const merchants = useMerchants();
+  const [rows, setRows] = useState<string[][] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [preset, setPreset] = useState<ImportPreset | null>(null);
+  const [step, setStep] = useState<'map' | 'review' | 'done'>('map');
+  const [added, setAdded] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    readTable(file)
+      .then(table => {
+        if (cancelled) return;
+        setRows(table);
+        // A preset saved for the same export is picked up again
+        setPreset(matchPreset(presets, table) || newPreset(table, currency.base));
+      })
+      .catch(e => { if (!cancelled) setLoadError(e?.message || String(e)); });
+    return () => { cancelled = true; };
+  }, [file]);
+
+  const header = rows && preset ? rows[preset.headerRow] || [] : [];
+  const width = rows ? Math.max(0, ...rows.slice(0, 50).map(r => r.length)) : 0;
+  const missing = preset ? REQUIRED_FIELDS.filter(f => preset.columns[f] === undefined) : [];
+
+  const ctx = useMemo(
+    () => ({ registry, defaultCurrency: currency.base, rules, prefs, merchants }),
+    [registry, currency, rules, prefs, merchants]
+  );
+
+  // The preview only maps the first rows; the full file is mapped for the dry run
+  const preview = useMemo<MappedRow[]>(() => {
+    if (!rows || !preset) return [];
+    return mapRows(rows.slice(0, preset.headerRow + 1 + PREVIEW_ROWS * 2), preset, ctx).slice(0, PREVIEW_ROWS);
+  }, [rows, preset, ctx]);
+
+  const dryRun = useMemo(() => {
+    if (step !== 'review' || !rows || !preset) return null;
+    const mapped = mapRows(rows, preset, ctx);
+    const items = mapped.flatMap(m => (m.tx ? [m.tx] : []));
+    const duplicates = findDuplicates(items, transactions);
+    const dupValues = Array.from(duplicates.values());
+    return {
+      items: items.filter((_, i) => !duplicates.has(i)),
+      ledger: dupValues.filter(d => d === 'ledger').length,
+      batch: dupValues.filter(d => d === 'batch').length,
+      problems: mapped.filter(m => m.problem),
+    };
+  }, [step, rows, preset, ctx, transactions]);
+
+  const update = (patch: Partial<ImportPreset>) => setPreset(p => (p ? { ...p, ...patch } : p));
+
+  const setColumn = (field: ImportField, value: string) => {
+    if (!preset) return;
+    const columns = { ...preset.columns };
+    if (value === '') delete columns[field];
+    else columns[field] = Number(value);
+    update({ columns });
+  };
+
+  const setHeaderRow = (n: number) => {
+    if (!rows) return;
+    const headerRow = Math.min(Math.max(0, n), rows.length - 1);
+    update({ headerRow, header: rows[headerRow] || [] });
+  };
+
+  const choosePreset = (id: string) => {
+    if (!rows) return;
+    const chosen = presets.find(p => p.id === id);
+    setPreset(chosen ? { ...chosen } : { ...newPreset(rows, currency.base) });
+  };
+
+  const savePreset = () => {
+    if (!preset || !rows) return;
+    const name = preset.name.trim();
+    if (!name) return;
+    const saved = { ...preset, name, id: preset.id || newImportPresetId(), header: rows[preset.headerRow] || [] };
+    onSavePreset(saved);
+    setPreset(saved);
+  };
+
+  const deletePreset = () => {
+    if (!preset?.id || !confirm(`删除预设「${preset.name}」？`)) return;
+    onDeletePreset(preset.id);
+    update({ id: '' });
+  };
+
+  const commit = () => {
+    if (!dryRun) return;
+    setAdded(onImport(dryRun.items));
+    setStep('done');
+  };
+
+  const inputCls = 'mt-1 block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm bg-white';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center gap-2">
+          <div className="min-w-0 flex-1">
+            <h3 className="text-base font-semibold text-gray-900">导入表格</h3>
+            <p className="text-xs text-gray-500 truncate" title={file.name}>{file.name}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 rounded-full p-1" aria-label="关闭">
+            <XIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-4">
+          {loadError ? (
+            <p className="text-sm text-red-600">读取失败：{loadError}</p>
+          ) : !rows || !preset ? (
+            <div className="flex items-center justify-center py-10 text-gray-500"><SpinnerIcon className="w-6 h-6 mr-2" />正在读取…</div>
+          ) : rows.length === 0 ? (
+            <p className="text-sm text-gray-500">文件中没有数据。</p>
+          ) : step === 'map' ? (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                  <label className="text-xs text-gray-500">预设</label>
+                  <select value={preset.id} onChange={e => choosePreset(e.target.value)} className={inputCls}>
+                    <option value="">不使用预设</option>
+                    {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-xs text-gray-500">标题行</label>
+                  <input type="number" min={1} max={rows.length} value={preset.headerRow + 1} onChange={e => setHeaderRow(Number(e.target.value) - 1)} className={inputCls} />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-500">币种</label>
+                  <select value={preset.currency} onChange={e => update({ currency: e.target.value })} className={inputCls}>
+                    {[...currency.rates.keys()].sort().map(code => <option key={code} value={code}>{code}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+                {FIELDS.map(field => (
+                  <div key={field}>
+                    <label className="text-xs text-gray-500">
+                      {IMPORT_FIELD_LABELS[field]}{REQUIRED_FIELDS.includes(field) && <span className="text-red-500">*</span>}
+                    </label>
+                    <select value={preset.columns[field] ?? ''} onChange={e => setColumn(field, e.target.value)} className={inputCls}>
+                      <option value="">—</option>
+                      {Array.from({ length: width }, (_, i) => (
+                        <option key={i} value={i}>{columnLetter(i)}{header[i] ? ` · ${header[i]}` : ''}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <div>
+                  <label className="text-xs text-gray-500">日期格式</label>
+                  <input
+                    list="import-date-formats"
+                    value={preset.dateFormat}
+                    onChange={e => update({ dateFormat: e.target.value })}
+                    placeholder="自动（年-月-日）"
+                    className={inputCls}
+                  />
+                  <datalist id="import-date-formats">
+                    {DATE_FORMATS.map(f => <option key={f} value={f} />)}
+                  </datalist>
+                </div>
+                <div>
+                  <label className="text-xs text-gray-500">小数点</label>
+                  <select value={preset.decimal} onChange={e => update({ decimal: e.target.value as ImportPreset['decimal'] })} className={inputCls}>
+                    <option value=".">1,234.56</option>
+                    <option value=",">1.234,56</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="text-xs text-gray-500">金额正负</label>
+                  <select value={preset.sign} onChange={e => update({ sign: e.target.value as AmountSign })} className={inputCls}>
+                    {(Object.keys(SIGN_LABELS) as AmountSign[]).map(s => <option key={s} value={s}>{SIGN_LABELS[s]}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <p className="text-xs text-gray-500 mb-1">原始数据</p>
+                <div className="overflow-x-auto border border-gray-200 rounded-md">
+                  <table className="min-w-full text-xs">
+                    <tbody>
+                      {rows.slice(preset.headerRow, preset.headerRow + 1 + PREVIEW_ROWS).map((r, i) => (
+                        <tr key={i} className={i === 0 ? 'bg-gray-50 font-medium' : 'border-t border-gray-100'}>
+                          {Array.from({ length: width }, (_, c) => (
+                            <td key={c} className="px-2 py-1 whitespace-nowrap max-w-[12rem] truncate">{r[c] ?? ''}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <div>
+                <p className="text-xs text-gray-500 mb-1">导入效果</p>
+                {missing.length > 0 ? (
+                  <p className="text-sm text-amber-700">请选择{missing.map(f => IMPORT_FIELD_LABELS[f]).join('、')}所在的列。</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md text-sm">
+                    {preview.map(m => (
+                      <li key={m.row} className="px-2 py-1.5 flex items-center gap-2">
+                        <span className="w-10 text-xs text-gray-400">{m.row + 1}</span>
+                        {m.tx ? (
+                          <>
+                            <span className="text-xs text-gray-500 w-32 shrink-0">{m.tx.date.replace('T', ' ')}</span>
+                            <span className="min-w-0 flex-1 truncate">{m.tx.name}</span>
+                            <span className="text-xs text-gray-500 hidden sm:inline">{registry.label(m.tx.category)}</span>
+                            <AmountText tx={m.tx} className="font-medium" />
+                          </>
+                        ) : (
+                          <span className="text-red-600">{m.problem}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  <label className="text-xs text-gray-500">保存为预设（例如银行名称）</label>
+                  <input value={preset.name} onChange={e => update({ name: e.target.value })} placeholder="招商银行储蓄卡" className={inputCls} />
+                </div>
+                <button onClick={savePreset} disabled={!preset.name.trim()} className="px-3 py-1.5 rounded-md border border-gray-300 text-sm disabled:opacity-50">
+                  {preset.id ? '更新预设' : '保存预设'}
+                </button>
+                {preset.id && (
+                  <button onClick={deletePreset} className="px-3 py-1.5 rounded-md border border-gray-200 text-sm text-red-600">删除</button>
+                )}
+              </div>
+            </>
+          ) : step === 'review' && dryRun ? (
+            <>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-center">
+                <div className="rounded-lg bg-blue-50 py-2">
+                  <p className="text-xs text-gray-500">新记录</p>
+                  <p className="font-semibold text-blue-700">{dryRun.items.length}</p>
+                </div>
+                <div className="rounded-lg bg-gray-50 py-2">
+                  <p className="text-xs text-gray-500">与已有记录重复</p>
+                  <p className="font-semibold text-gray-700">{dryRun.ledger}</p>
+                </div>
+                <div className="rounded-lg bg-gray-50 py-2">
+                  <p className="text-xs text-gray-500">文件内重复</p>
+                  <p className="font-semibold text-gray-700">{dryRun.batch}</p>
+                </div>
+                <div className="rounded-lg bg-red-50 py-2">
+                  <p className="text-xs text-gray-500">无法读取</p>
+                  <p className="font-semibold text-red-600">{dryRun.problems.length}</p>
+                </div>
+              </div>
+              {dryRun.problems.length > 0 && (
+                <div>
+                  <p className="text-xs text-gray-500 mb-1">无法读取的行（不会导入）</p>
+                  <ul className="text-sm divide-y divide-gray-100 border border-gray-200 rounded-md">
+                    {dryRun.problems.slice(0, PROBLEM_LIMIT).map(m => (
+                      <li key={m.row} className="px-2 py-1 flex gap-2">
+                        <span className="w-14 text-xs text-gray-400">第 {m.row + 1} 行</span>
+                        <span className="text-red-600">{m.problem}</span>
+                        <span className="min-w-0 flex-1 truncate text-xs text-gray-400">{rows[m.row].join(' | ')}</span>
+                      </li>
+                    ))}
+                  </ul>
+                  {dryRun.problems.length > PROBLEM_LIMIT && <p className="text-xs text-gray-400 mt-1">仅列出前 {PROBLEM_LIMIT} 行</p>}
+                </div>
+              )}
+              <p className="text-sm text-gray-500">这是预演，确认前不会写入任何记录。重复的记录会被跳过。</p>
+            </>
+          ) : (
+            <p className="text-sm text-green-700">已导入 {added} 条记录。</p>
+          )}
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-end gap-2">
+          {step === 'map' && (
+            <>
+              <button onClick={onClose} className="px-3 py-1.5 rounded-md border border-gray-300 text-sm">取消</button>
+              <button onClick={() => setStep('review')} disabled={!rows || !preset || missing.length > 0} className="px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm disabled:opacity-50">下一步</button>
+            </>
+          )}
+          {step === 'review' && (
+            <>
+              <button onClick={() => setStep('map')} className="px-3 py-1.5 rounded-md border border-gray-300 text-sm">返回修改</button>
+              <button onClick={commit} disabled={!dryRun?.items.length} className="px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm disabled:opacity-50">导入 {dryRun?.items.length ?? 0} 条</button>
+            </>
+          )}
+          {step === 'done' && (
+            <button onClick={onClose} className="px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm">完成</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React, { useMemo, useState } from 'react';
+import { Transaction } from '../types';
+import { ChevronLeftIcon, PencilIcon, TrashIcon } from './icons';
+import { LeadingCat, AmountText, AnomalyBadge } from './TransactionList';
+import { ANOMALY_LABELS, Anomaly } from '../utils/anomalies';
+import { useCurrency } from '../utils/currency';
+
+interface InsightsPanelProps {
+  transactions: Transaction[];
+  anomalies: Map<string, Anomaly[]>;
+  onEditClick: (transaction: Transaction) => void;
+  onDeleteClick: (transactionId: string) => void;
+  onDismiss: (transactionId: string, anomaly: Anomaly) => void;
+  onBack: () => void;
+}
+
+type Filter = 'all' | Anomaly['kind'];
+
+export const InsightsPanel: React.FC<InsightsPanelProps> = ({ transactions, anomalies, onEditClick, onDeleteClick, onDismiss, onBack }) => {
+  const currency = useCurrency();
+  const [filter, setFilter] = useState<Filter>('all');
+
+  const byId = useMemo(() => new Map(transactions.map(t => [t.id, t])), [transactions]);
+  // Newest first; a record with two flags shows once per flag
+  const items = useMemo(() => transactions
+    .filter(t => anomalies.has(t.id))
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .flatMap(t => anomalies.get(t.id)!.map(anomaly => ({ t, anomaly })))
+    .filter(it => filter === 'all' || it.anomaly.kind === filter),
+  [transactions, anomalies, filter]);
+
+  const describe = (anomaly: Anomaly) => {
+    if (anomaly.kind === 'duplicate') {
+      const other = byId.get(anomaly.otherId);
+      return other ? `与同日的“${other.name}”（${other.date.slice(11, 16)}）金额相同` : '与另一条记录金额相同';
+    }
+    const basis = anomaly.scope === 'merchant' ? '该商户' : '该分类';
+    const text = `是${basis}通常金额 ${currency.format(anomaly.median)} 的 ${anomaly.ratio.toFixed(1)} 倍`;
+    return anomaly.decimalSlip ? `${text}，可能少了小数点` : text;
+  };
+
+  const chipCls = (on: boolean) => `px-3 py-1 rounded-full text-sm border ${on ? 'bg-blue-50 border-blue-300 text-blue-700' : 'border-gray-200 text-gray-600'}`;
+
+  return (
+    <div className="md:bg-white md:p-6 p-0 md:rounded-xl md:shadow-md">
+      <div className="flex items-center gap-2 mb-4">
+        <button onClick={onBack} className="p-2 rounded-md border border-gray-200 hover:bg-gray-50" title="返回">
+          <ChevronLeftIcon className="w-5 h-5" />
+        </button>
+        <h2 className="text-lg md:text-xl font-semibold text-gray-800 flex-1">洞察</h2>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-3">
+        以下记录的金额明显偏离该商户或分类的历史水平，或与同日另一条记录疑似重复。确认无误的可以忽略。
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {(['all', 'outlier', 'duplicate'] as Filter[]).map(f => (
+          <button key={f} onClick={() => setFilter(f)} className={chipCls(filter === f)}>
+            {f === 'all' ? '全部' : ANOMALY_LABELS[f]}
+          </button>
+        ))}
+      </div>
+
+      {items.length > 0 ? (
+        <ul className="-mx-4 md:mx-0 divide-y divide-gray-100 md:divide-y-0 md:space-y-3">
+          {items.map(({ t, anomaly }) => (
+            <li key={`${t.id}|${anomaly.kind}`} className="bg-white p-3 md:rounded-lg md:border md:border-gray-200">
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex items-start gap-3 min-w-0">
+                  <LeadingCat category={t.category} />
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate" title={t.name}>{t.name}</p>
+                    <div className="mt-1 flex items-center gap-2 text-xs text-gray-500">
+                      <span>{t.date.replace('T', ' ')}</span>
+                      <AnomalyBadge anomaly={anomaly} />
+                    </div>
+                    <p className="mt-1 text-xs text-gray-600">{describe(anomaly)}</p>
+                  </div>
+                </div>
+                <AmountText tx={t} className="font-semibold shrink-0" />
+              </div>
+              <div className="mt-2 flex justify-end gap-2 text-sm">
+                <button onClick={() => onDismiss(t.id, anomaly)} className="px-2 py-1 rounded-md border border-gray-200 text-gray-600 hover:bg-gray-50">忽略</button>
+                <button onClick={() => onEditClick(t)} className="px-2 py-1 rounded-md border border-gray-200 text-blue-600 hover:bg-blue-50 inline-flex items-center gap-1">
+                  <PencilIcon className="w-4 h-4" />编辑
+                </button>
+                <button onClick={() => onDeleteClick(t.id)} className="px-2 py-1 rounded-md border border-gray-200 text-red-600 hover:bg-red-50 inline-flex items-center gap-1">
+                  <TrashIcon className="w-4 h-4" />删除
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="text-center text-gray-500 py-10">没有需要留意的记录</div>
+      )}
+    </div>
+  );
+};
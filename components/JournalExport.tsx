@@ -0,0 +1,138 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CategoryId, Transaction } from '../types';
+import { XIcon } from './icons';
+import { ExportFilterFields } from './ExportFilterFields';
+import {
+  JOURNAL_EXTENSIONS, JOURNAL_LABELS, JournalConfig, JournalFormat, buildJournal, defaultCategoryAccount, defaultPaymentAccount, isValidAccountName,
+  journalAccounts, loadJournalConfig, saveJournalConfig,
+} from '../utils/journal';
+import { DEFAULT_EXPORT_FILTER, ExportFilter, filterForExport } from '../utils/exportFilter';
+import { downloadBlob, fileTimestamp } from '../utils/helpers';
+import { useCategories } from '../utils/categories';
+import { useAccounts } from '../utils/accounts';
+import { useCurrency } from '../utils/currency';
+
+interface JournalExportProps {
+  transactions: Transaction[];
+  onClose: () => void;
+}
+
+export const JournalExport: React.FC<JournalExportProps> = ({ transactions, onClose }) => {
+  const registry = useCategories();
+  const accounts = useAccounts();
+  const currency = useCurrency();
+  const [config, setConfig] = useState<JournalConfig>(loadJournalConfig);
+  const [filter, setFilter] = useState<ExportFilter>(DEFAULT_EXPORT_FILTER);
+
+  useEffect(() => { saveJournalConfig(config); }, [config]);
+
+  const selected = useMemo(() => filterForExport(transactions, filter, registry), [transactions, filter, registry]);
+
+  // Every category and account the export uses gets a row, archived ones included
+  const usedCategories = useMemo(() => {
+    const ids = new Set<CategoryId>(selected.filter(t => t.direction !== 'transfer').map(t => t.category));
+    return registry.all.filter(c => ids.has(c.id) || (!c.archived && !filter.excluded.includes(registry.rootOf(c.id))));
+  }, [selected, registry, filter.excluded]);
+  const usedAccounts = useMemo(() => {
+    const ids = new Set(selected.flatMap(t => [t.accountId, t.toAccountId]));
+    return accounts.filter(a => ids.has(a.id) || !a.archived);
+  }, [selected, accounts]);
+
+  const names = useMemo(() => journalAccounts(config, registry, accounts), [config, registry, accounts]);
+  const invalid = useMemo(() => {
+    const all = [...usedCategories.map(c => names.category(c.id)), ...usedAccounts.map(a => names.payment(a.id)), names.payment(undefined)];
+    return Array.from(new Set(all.filter(n => !isValidAccountName(n))));
+  }, [usedCategories, usedAccounts, names]);
+
+  const setName = (key: 'categoryAccounts' | 'paymentAccounts', id: string, value: string) =>
+    setConfig(c => ({ ...c, [key]: { ...c[key], [id]: value } }));
+
+  const handleExport = () => {
+    const text = buildJournal(selected, config.format, names, currency.base);
+    downloadBlob(new Blob([text], { type: 'text/plain;charset=utf-8' }), `transactions-${fileTimestamp()}.${JOURNAL_EXTENSIONS[config.format]}`);
+    onClose();
+  };
+
+  const inputCls = 'mt-1 block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm bg-white';
+  const nameCls = (name: string) =>
+    `block w-full rounded-md border px-2 py-1 text-xs font-mono ${isValidAccountName(name) ? 'border-gray-300' : 'border-red-400 bg-red-50'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center">
+          <h3 className="flex-1 text-base font-semibold text-gray-900">导出到 Beancount / Ledger</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 rounded-full p-1" aria-label="关闭">
+            <XIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-4">
+          <div>
+            <label className="text-xs text-gray-500">格式</label>
+            <select value={config.format} onChange={e => setConfig(c => ({ ...c, format: e.target.value as JournalFormat }))} className={inputCls}>
+              {(Object.keys(JOURNAL_LABELS) as JournalFormat[]).map(f => <option key={f} value={f}>{JOURNAL_LABELS[f]}</option>)}
+            </select>
+          </div>
+          <ExportFilterFields filter={filter} onChange={setFilter} />
+
+          <div>
+            <p className="text-xs text-gray-500 mb-1">分类对应的科目</p>
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+              {usedCategories.map(c => (
+                <li key={c.id} className="px-3 py-1.5 flex items-center gap-3">
+                  <span className="w-28 shrink-0 text-sm text-gray-700 truncate">{registry.label(c.id)}</span>
+                  <input
+                    value={config.categoryAccounts[c.id] ?? ''}
+                    onChange={e => setName('categoryAccounts', c.id, e.target.value)}
+                    placeholder={defaultCategoryAccount(c, registry)}
+                    className={nameCls(names.category(c.id))}
+                  />
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div>
+            <p className="text-xs text-gray-500 mb-1">支付账户对应的科目</p>
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+              {usedAccounts.map(a => (
+                <li key={a.id} className="px-3 py-1.5 flex items-center gap-3">
+                  <span className="w-28 shrink-0 text-sm text-gray-700 truncate">{a.name}</span>
+                  <input
+                    value={config.paymentAccounts[a.id] ?? ''}
+                    onChange={e => setName('paymentAccounts', a.id, e.target.value)}
+                    placeholder={defaultPaymentAccount(a)}
+                    className={nameCls(names.payment(a.id))}
+                  />
+                </li>
+              ))}
+              <li className="px-3 py-1.5 flex items-center gap-3">
+                <span className="w-28 shrink-0 text-sm text-gray-500">未指定账户</span>
+                <input
+                  value={config.defaultPayment}
+                  onChange={e => setConfig(c => ({ ...c, defaultPayment: e.target.value }))}
+                  className={nameCls(names.payment(undefined))}
+                />
+              </li>
+            </ul>
+          </div>
+
+          {invalid.length > 0 && (
+            <p className="text-sm text-red-600">
+              科目名称无效：{invalid.join('、')}。须以 Assets、Liabilities、Equity、Income 或 Expenses 开头，各级以冒号分隔，每级以大写字母、数字或中文开头，不含空格和标点。
+            </p>
+          )}
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-200 flex items-center gap-2">
+          <span className="flex-1 text-sm text-gray-500">共 {selected.length} 条记录</span>
+          <button onClick={onClose} className="px-3 py-1.5 rounded-md border border-gray-300 text-sm">取消</button>
+          <button onClick={handleExport} disabled={selected.length === 0 || invalid.length > 0} className="px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm disabled:opacity-50">
+            导出
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
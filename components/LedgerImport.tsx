@@ -0,0 +1,244 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Account, CategoryId, CategoryMapping, NewTransaction } from '../types';
+import { SpinnerIcon, XIcon } from './icons';
+import {
+  CategorySource, LEDGER_APP_LABELS, LedgerImport as LedgerExport, SummaryLine, accountNames, categoryGroups, newAccountsFor, readLedgerExport, resolveMapping,
+  summarizeEntries, toEntries,
+} from '../utils/ledgerApps';
+import { useCategories } from '../utils/categories';
+import { useAccounts } from '../utils/accounts';
+import { useCurrency } from '../utils/currency';
+import { useRules } from '../utils/rules';
+import { usePreferences } from '../utils/preferences';
+import { useMerchants } from '../utils/merchants';
+
+interface LedgerImportProps {
+  file: File;
+  mappings: CategoryMapping[];
+  onSaveMappings: (mappings: CategoryMapping[]) => void;
+  onImportAccounts: (accounts: Account[]) => void;
+  // Returns how many records were actually added
+  onImport: (items: NewTransaction[]) => number;
+  onClose: () => void;
+}
+
+const KIND_LABELS = { expense: '支出', income: '收入' };
+
+const SOURCE_LABELS: Record<CategorySource, string> = {
+  mapped: '按对照表映射',
+  rules: '按分类规则归类',
+  fallback: '未能归类，记为其他',
+};
+
+// Account choice for an app account that matches none of ours
+const NEW_ACCOUNT = '';
+const NO_ACCOUNT = '-';
+
+interface ImportSummary {
+  added: number;
+  duplicates: number;
+  accountsCreated: number;
+  lines: Record<CategorySource, SummaryLine[]>;
+}
+
+export const LedgerImport: React.FC<LedgerImportProps> = ({ file, mappings, onSaveMappings, onImportAccounts, onImport, onClose }) => {
+  const registry = useCategories();
+  const accounts = useAccounts();
+  const currency = useCurrency();
+  const rules = useRules();
+  const prefs = usePreferences();
+  const merchants = useMerchants();
+  const [parsed, setParsed] = useState<LedgerExport | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  // Categories picked in this dialog, by mapping id; saved to the mapping table on import
+  const [choices, setChoices] = useState<Record<string, CategoryId>>({});
+  // Our account for each of the app's accounts, by name
+  const [accountChoices, setAccountChoices] = useState<Record<string, string>>({});
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    readLedgerExport(file)
+      .then(result => {
+        if (cancelled) return;
+        setParsed(result);
+        setAccountChoices(Object.fromEntries(accountNames(result).map(([name]) =>
+          [name, accounts.find(a => a.name === name && !a.archived)?.id ?? NEW_ACCOUNT])));
+      })
+      .catch(e => { if (!cancelled) setLoadError(e?.message || String(e)); });
+    return () => { cancelled = true; };
+  }, [file]);
+
+  const groups = useMemo(() => (parsed ? categoryGroups(parsed) : []), [parsed]);
+  const appAccounts = useMemo(() => (parsed ? accountNames(parsed) : []), [parsed]);
+
+  const chosen = useMemo<CategoryMapping[]>(() => {
+    if (!parsed) return [];
+    return groups
+      .filter(g => g.id in choices)
+      .map(g => ({ id: g.id, app: parsed.app, kind: g.kind, large: g.large, medium: g.medium, category: choices[g.id] }));
+  }, [parsed, groups, choices]);
+
+  const effective = useMemo(() => {
+    const ids = new Set(chosen.map(m => m.id));
+    return [...mappings.filter(m => !ids.has(m.id)), ...chosen];
+  }, [mappings, chosen]);
+
+  const commit = () => {
+    if (!parsed) return;
+    // Accounts first so the records can refer to them
+    const created = newAccountsFor(appAccounts.map(([name]) => name).filter(name => accountChoices[name] === NEW_ACCOUNT), accounts);
+    if (created.length) onImportAccounts(created);
+    const accountIds = new Map<string, string>(created.map(a => [a.name, a.id]));
+    appAccounts.forEach(([name]) => {
+      const id = accountChoices[name];
+      if (id && id !== NO_ACCOUNT) accountIds.set(name, id);
+    });
+
+    const ctx = { registry, defaultCurrency: currency.base, rules, prefs, merchants };
+    const entries = toEntries(parsed, effective, ctx, accountIds);
+    if (chosen.length) onSaveMappings(chosen);
+    const added = onImport(entries.map(e => e.tx));
+    setSummary({ added, duplicates: entries.length - added, accountsCreated: created.length, lines: summarizeEntries(parsed, entries) });
+  };
+
+  const inputCls = 'block w-full rounded-md border border-gray-300 px-2 py-1 text-sm bg-white';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center gap-2">
+          <div className="min-w-0 flex-1">
+            <h3 className="text-base font-semibold text-gray-900">{parsed ? `导入 ${LEDGER_APP_LABELS[parsed.app]}` : '导入记账应用数据'}</h3>
+            <p className="text-xs text-gray-500 truncate" title={file.name}>{file.name}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 rounded-full p-1" aria-label="关闭">
+            <XIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-3">
+          {loadError ? (
+            <p className="text-sm text-red-600">读取失败：{loadError}</p>
+          ) : !parsed ? (
+            <div className="flex items-center justify-center py-10 text-gray-500"><SpinnerIcon className="w-6 h-6 mr-2" />正在读取…</div>
+          ) : summary ? (
+            <>
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <div className="rounded-lg bg-blue-50 py-2">
+                  <p className="text-xs text-gray-500">已导入</p>
+                  <p className="font-semibold text-blue-700">{summary.added}</p>
+                </div>
+                <div className="rounded-lg bg-gray-50 py-2">
+                  <p className="text-xs text-gray-500">重复跳过</p>
+                  <p className="font-semibold text-gray-700">{summary.duplicates}</p>
+                </div>
+                <div className="rounded-lg bg-gray-50 py-2">
+                  <p className="text-xs text-gray-500">未导入</p>
+                  <p className="font-semibold text-gray-700">{Object.values(parsed.skipped).reduce((n: number, c: number) => n + c, 0)}</p>
+                </div>
+              </div>
+              {summary.accountsCreated > 0 && <p className="text-sm text-gray-600">新建了 {summary.accountsCreated} 个账户，可在账户管理中调整类型和初始余额。</p>}
+              {(Object.keys(SOURCE_LABELS) as CategorySource[]).filter(k => summary.lines[k].length > 0).map(k => (
+                <div key={k}>
+                  <p className={`text-xs mb-1 ${k === 'fallback' ? 'text-amber-700' : 'text-gray-500'}`}>{SOURCE_LABELS[k]}</p>
+                  <ul className="text-sm divide-y divide-gray-100 border border-gray-200 rounded-md">
+                    {summary.lines[k].map(line => (
+                      <li key={`${line.source}|${line.category}`} className="px-2 py-1 flex items-center gap-2">
+                        <span className="min-w-0 flex-1 truncate">{line.source}</span>
+                        <span className="text-gray-500">→ {registry.label(line.category)}</span>
+                        <span className="w-14 text-right text-xs text-gray-400">{line.count} 条</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+              {Object.keys(parsed.skipped).length > 0 && (
+                <div>
+                  <p className="text-xs text-gray-500 mb-1">未导入的记录</p>
+                  <ul className="text-sm divide-y divide-gray-100 border border-gray-200 rounded-md">
+                    {Object.entries(parsed.skipped).map(([reason, count]) => (
+                      <li key={reason} className="px-2 py-1 flex items-center gap-2">
+                        <span className="flex-1">{reason}</span>
+                        <span className="w-14 text-right text-xs text-gray-400">{count} 条</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          ) : parsed.rows.length === 0 ? (
+            <p className="text-sm text-gray-500">文件中没有可导入的记录。</p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-500">
+                共 {parsed.rows.length} 条记录。请确认各分类对应的本地分类，选择会保存下来供下次导入使用；未指定的按分类规则归类。
+              </p>
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+                {groups.map(g => {
+                  const value = choices[g.id] ?? resolveMapping(mappings, parsed.app, g.kind, g.large, g.medium, registry) ?? '';
+                  return (
+                    <li key={g.id} className="px-3 py-2 flex items-center gap-3">
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm text-gray-900 truncate">
+                          {g.large || '（无分类）'}{g.medium && <span className="text-gray-500"> › {g.medium}</span>}
+                        </p>
+                        <p className="text-xs text-gray-400">{KIND_LABELS[g.kind]} · {g.count} 条</p>
+                      </div>
+                      <select
+                        value={value}
+                        onChange={e => setChoices(c => ({ ...c, [g.id]: e.target.value }))}
+                        className={`${inputCls} w-40`}
+                      >
+                        <option value="">按规则自动</option>
+                        {registry.active(g.kind).map(c => <option key={c.id} value={c.id}>{registry.label(c.id)}</option>)}
+                      </select>
+                    </li>
+                  );
+                })}
+              </ul>
+              {appAccounts.length > 0 && (
+                <>
+                  <p className="text-sm text-gray-500">账户对应：</p>
+                  <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+                    {appAccounts.map(([name, count]) => (
+                      <li key={name} className="px-3 py-2 flex items-center gap-3">
+                        <div className="min-w-0 flex-1">
+                          <p className="text-sm text-gray-900 truncate">{name}</p>
+                          <p className="text-xs text-gray-400">{count} 条</p>
+                        </div>
+                        <select
+                          value={accountChoices[name] ?? NEW_ACCOUNT}
+                          onChange={e => setAccountChoices(c => ({ ...c, [name]: e.target.value }))}
+                          className={`${inputCls} w-40`}
+                        >
+                          <option value={NEW_ACCOUNT}>新建账户</option>
+                          <option value={NO_ACCOUNT}>不关联账户</option>
+                          {accounts.filter(a => !a.archived).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                        </select>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+              <p className="text-xs text-gray-400">转账、借贷和不计入统计的记录不会导入，与已有记录重复的会被跳过。</p>
+            </>
+          )}
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-200 flex justify-end gap-2">
+          {summary || loadError ? (
+            <button onClick={onClose} className="px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm">完成</button>
+          ) : (
+            <>
+              <button onClick={onClose} className="px-3 py-1.5 rounded-md border border-gray-300 text-sm">取消</button>
+              <button onClick={commit} disabled={!parsed?.rows.length} className="px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm disabled:opacity-50">
+                导入 {parsed?.rows.length ?? 0} 条
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,219 @@
+import React, { useMemo, useState } from 'react';
+import { Merchant, Transaction } from '../types';
+import { ChevronLeftIcon, PlusIcon } from './icons';
+import { MergeSuggestion, buildMerchantIndex, isRegexAlias, newMerchantId, suggestMerges } from '../utils/merchants';
+
+interface MerchantManagerProps {
+  merchants: Merchant[];
+  transactions: Transaction[];
+  onBack: () => void;
+  onSave: (merchant: Merchant) => void;
+  onDelete: (merchantId: string) => void;
+  // Renames existing records that the merchant matches to its canonical name
+  onApplyToRecords: (merchant: Merchant) => void;
+}
+
+// Aliases are edited one per line
+interface Draft {
+  id: string;
+  name: string;
+  aliases: string;
+}
+
+const DISMISSED_KEY = 'dismissedMerges';
+
+const loadDismissed = (): Set<string> => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(DISMISSED_KEY) || '[]');
+    return new Set(Array.isArray(raw) ? raw.map(String) : []);
+  } catch {
+    return new Set();
+  }
+};
+
+const uniqueAliases = (aliases: string[], name: string) => {
+  const seen = new Set([name.trim().toLowerCase()]);
+  return aliases.map(a => a.trim()).filter(a => {
+    const k = a.toLowerCase();
+    if (!a || seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+};
+
+export const MerchantManager: React.FC<MerchantManagerProps> = ({ merchants, transactions, onBack, onSave, onDelete, onApplyToRecords }) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [dismissed, setDismissed] = useState<Set<string>>(loadDismissed);
+  const [renameRecords, setRenameRecords] = useState(true);
+  // Chosen canonical name per suggestion; defaults to the merchant or the most used name
+  const [chosen, setChosen] = useState<Record<string, string>>({});
+
+  const index = useMemo(() => buildMerchantIndex(merchants), [merchants]);
+  const suggestions = useMemo(() => suggestMerges(index, transactions, dismissed), [index, transactions, dismissed]);
+
+  const recordCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const t of transactions) {
+      const m = index.match(t.name);
+      if (m) counts.set(m.merchant.id, (counts.get(m.merchant.id) || 0) + 1);
+    }
+    return counts;
+  }, [index, transactions]);
+
+  const sorted = useMemo(
+    () => merchants.slice().sort((a, b) => (recordCounts.get(b.id) || 0) - (recordCounts.get(a.id) || 0) || a.name.localeCompare(b.name)),
+    [merchants, recordCounts]
+  );
+
+  const save = (merchant: Merchant) => {
+    onSave(merchant);
+    if (renameRecords) onApplyToRecords(merchant);
+  };
+
+  const canonicalOf = (s: MergeSuggestion) => chosen[s.id] ?? (s.merchant?.name || s.names[0].name);
+
+  // Joins the names into the suggested merchant, or into a new one named after the chosen name
+  const merge = (s: MergeSuggestion) => {
+    const name = canonicalOf(s);
+    const names = [...(s.merchant ? [s.merchant.name] : []), ...s.names.map(n => n.name)];
+    save({
+      id: s.merchant?.id || newMerchantId(),
+      name,
+      aliases: uniqueAliases([...(s.merchant?.aliases || []), ...names], name),
+    });
+  };
+
+  const dismiss = (s: MergeSuggestion) => {
+    const next = new Set(dismissed).add(s.id);
+    setDismissed(next);
+    try { localStorage.setItem(DISMISSED_KEY, JSON.stringify(Array.from(next))); } catch {}
+  };
+
+  const openNew = () => {
+    setDraft({ id: '', name: '', aliases: '' });
+    setError(null);
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    if (!name) { setError('商户名称不能为空'); return; }
+    const aliases = uniqueAliases(draft.aliases.split('\n'), name);
+    const invalid = aliases.find(a => {
+      if (!isRegexAlias(a)) return false;
+      try { new RegExp(a.slice(1, -1)); return false; } catch { return true; }
+    });
+    if (invalid) { setError(`正则表达式无效：${invalid}`); return; }
+    const taken = merchants.find(m => m.id !== draft.id && m.name.toLowerCase() === name.toLowerCase());
+    if (taken) { setError(`已有同名商户「${taken.name}」`); return; }
+    save({ id: draft.id || newMerchantId(), name, aliases });
+    setDraft(null);
+  };
+
+  const handleDelete = (m: Merchant) => {
+    if (confirm(`删除商户「${m.name}」？已有记录的名称不会改变。`)) onDelete(m.id);
+  };
+
+  const inputCls = 'mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm';
+
+  return (
+    <div className="md:bg-white md:p-6 p-0 md:rounded-xl md:shadow-md">
+      <div className="flex items-center gap-2 mb-4">
+        <button onClick={onBack} className="p-2 rounded-md border border-gray-200 hover:bg-gray-50" title="返回设置">
+          <ChevronLeftIcon className="w-5 h-5" />
+        </button>
+        <h2 className="text-lg md:text-xl font-semibold text-gray-800 flex-1">商户</h2>
+        <button onClick={openNew} className="p-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700" title="新建商户" aria-label="新建商户">
+          <PlusIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-3">
+        同一家店的不同写法（别名、分店）会归到标准名称下：识别和导入的记录自动改用标准名称，交易详情和统计按商户合并。
+      </p>
+      <label className="flex items-center gap-2 text-sm text-gray-700 mb-4">
+        <input type="checkbox" checked={renameRecords} onChange={e => setRenameRecords(e.target.checked)} />
+        合并或保存时，把已有记录也改为标准名称
+      </label>
+
+      {suggestions.length > 0 && (
+        <div className="mb-4 p-4 border border-amber-200 bg-amber-50 rounded-lg">
+          <h3 className="font-medium text-gray-900 mb-2">可能是同一商户</h3>
+          <ul className="space-y-3">
+            {suggestions.map(s => (
+              <li key={s.id} className="bg-white rounded-md border border-amber-100 p-3">
+                <p className="text-sm text-gray-700">
+                  {s.names.map(n => `${n.name}（${n.count}）`).join('、')}
+                  {s.merchant && <span className="text-gray-500"> → 已有商户「{s.merchant.name}」</span>}
+                </p>
+                <div className="mt-2 flex items-center gap-2">
+                  <select
+                    value={canonicalOf(s)}
+                    onChange={e => setChosen(prev => ({ ...prev, [s.id]: e.target.value }))}
+                    className="min-w-0 flex-1 rounded-md border border-gray-300 bg-white px-2 py-1 text-sm"
+                    aria-label="标准名称"
+                  >
+                    {s.merchant && <option value={s.merchant.name}>{s.merchant.name}</option>}
+                    {s.names.map(n => <option key={n.name} value={n.name}>{n.name}</option>)}
+                  </select>
+                  <button onClick={() => dismiss(s)} className="px-2 py-1 text-sm rounded-md border border-gray-200 text-gray-600">忽略</button>
+                  <button onClick={() => merge(s)} className="px-2 py-1 text-sm rounded-md bg-blue-600 text-white">合并</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <ul className="divide-y divide-gray-100">
+        {sorted.map(m => (
+          <li key={m.id} className="py-2 flex items-center gap-2">
+            <div className="min-w-0 flex-1">
+              <p className="font-medium text-gray-900 truncate">
+                {m.name}
+                <span className="ml-2 text-xs text-gray-400">{recordCounts.get(m.id) || 0} 条记录</span>
+              </p>
+              <p className="text-xs text-gray-500 truncate" title={m.aliases.join('\n')}>
+                {m.aliases.length ? `别名：${m.aliases.join('、')}` : '无别名'}
+              </p>
+            </div>
+            <button onClick={() => { setDraft({ id: m.id, name: m.name, aliases: m.aliases.join('\n') }); setError(null); }} className="px-2 py-1 text-sm rounded-md border border-gray-200 text-blue-600">编辑</button>
+            <button onClick={() => handleDelete(m)} className="px-2 py-1 text-sm rounded-md border border-gray-200 text-red-600">删除</button>
+          </li>
+        ))}
+      </ul>
+
+      {draft && (
+        <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={() => setDraft(null)}>
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+            <div className="px-4 py-3 border-b border-gray-200">
+              <h3 className="text-base font-semibold text-gray-900">{draft.id ? '编辑商户' : '新建商户'}</h3>
+            </div>
+            <div className="p-4 space-y-4 overflow-y-auto">
+              <div>
+                <label className="text-xs text-gray-500">标准名称</label>
+                <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="例如：7-Eleven" className={inputCls} autoFocus />
+              </div>
+              <div>
+                <label className="text-xs text-gray-500">别名（每行一个；名称以别名开头并带分店也算，/…/ 为正则表达式）</label>
+                <textarea
+                  value={draft.aliases}
+                  onChange={e => setDraft({ ...draft, aliases: e.target.value })}
+                  rows={6}
+                  placeholder={'7-11\nセブン-イレブン\n/seven\\s*eleven/'}
+                  className={inputCls}
+                />
+              </div>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+            <div className="px-4 py-3 border-t border-gray-200 flex justify-end gap-2">
+              <button onClick={() => setDraft(null)} className="px-3 py-1.5 rounded-md border border-gray-300 text-sm">取消</button>
+              <button onClick={saveDraft} className="px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm">保存</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
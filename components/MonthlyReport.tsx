@@ -0,0 +1,171 @@
+import React, { useMemo } from 'react';
+import { PieChart, Pie, Cell } from 'recharts';
+import { Transaction } from '../types';
+import { XIcon } from './icons';
+import { AmountText } from './TransactionList';
+import { signedAmount, summarize } from '../utils/helpers';
+import { spendingByRoot } from '../utils/budgets';
+import { useCategories } from '../utils/categories';
+import { accountName, useAccounts } from '../utils/accounts';
+import { currencyLabel, useCurrency } from '../utils/currency';
+
+interface MonthlyReportProps {
+  transactions: Transaction[];
+  month: string;
+  setMonth: (month: string) => void;
+  onClose: () => void;
+}
+
+const monthLabel = (month: string) => new Date(month + '-01T00:00:00').toLocaleDateString('zh-CN', { month: 'long', year: 'numeric' });
+
+const dayLabel = (day: string) => new Date(day + 'T00:00:00').toLocaleDateString('zh-CN', { month: 'long', day: 'numeric', weekday: 'short' });
+
+// Full-page statement for one month. It sits outside the app shell, which is hidden when
+// printing, so window.print() (or "save as PDF") produces only the report.
+export const MonthlyReport: React.FC<MonthlyReportProps> = ({ transactions, month, setMonth, onClose }) => {
+  const registry = useCategories();
+  const accounts = useAccounts();
+  const currency = useCurrency();
+
+  const monthOptions = useMemo(() => {
+    const months = new Set(transactions.map(t => t.date.slice(0, 7)));
+    months.add(month);
+    return Array.from(months).sort().reverse();
+  }, [transactions, month]);
+
+  const monthTransactions = useMemo(
+    () => transactions.filter(t => t.date.startsWith(month)).sort((a, b) => a.date.localeCompare(b.date)),
+    [transactions, month]
+  );
+  const totals = useMemo(() => summarize(monthTransactions, currency.toBase), [monthTransactions, currency]);
+  const missingRates = useMemo(() => currency.missingRates(monthTransactions), [monthTransactions, currency]);
+
+  const breakdown = useMemo(() => spendingByRoot(monthTransactions, registry, currency.toBase).map(({ id, value }) => {
+    const def = registry.get(id);
+    return { id, name: def.name, color: def.color, value };
+  }), [monthTransactions, registry, currency]);
+
+  // Oldest day first, as on a bank statement; the day total is the net change in the report currency
+  const days = useMemo(() => {
+    const byDay = new Map<string, Transaction[]>();
+    monthTransactions.forEach(t => {
+      const day = t.date.slice(0, 10);
+      byDay.set(day, [...(byDay.get(day) || []), t]);
+    });
+    return Array.from(byDay, ([day, list]) => ({
+      day,
+      list,
+      net: list.reduce((sum, t) => sum + signedAmount({ amount: currency.toBase(t), direction: t.direction }), 0),
+    }));
+  }, [monthTransactions, currency]);
+
+  const accountOf = (t: Transaction) =>
+    t.direction === 'transfer'
+      ? `${accountName(accounts, t.accountId)} → ${accountName(accounts, t.toAccountId)}`
+      : t.accountId ? accountName(accounts, t.accountId) : '';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-white overflow-y-auto text-gray-800 print:static print:overflow-visible">
+      <div className="sticky top-0 z-10 bg-white border-b border-gray-200 print:hidden" style={{ paddingTop: 'env(safe-area-inset-top)' }}>
+        <div className="max-w-3xl mx-auto px-4 py-3 flex items-center gap-2">
+          <select
+            value={month}
+            onChange={e => setMonth(e.target.value)}
+            className="block w-40 py-1.5 px-2 border border-gray-300 bg-white rounded-md text-sm"
+          >
+            {monthOptions.map(m => <option key={m} value={m}>{monthLabel(m)}</option>)}
+          </select>
+          <span className="flex-1" />
+          <button onClick={() => window.print()} className="px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm">打印 / 存为 PDF</button>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 rounded-full p-1" aria-label="关闭">
+            <XIcon className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+
+      <div className="max-w-3xl mx-auto px-4 py-6 print:px-0 print:py-0 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{monthLabel(month)}账单</h1>
+          <p className="text-sm text-gray-500">共 {monthTransactions.length} 条记录，金额以 {currencyLabel(currency.base)} 计</p>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="rounded-lg border border-gray-200 py-2">
+            <p className="text-xs text-gray-500">收入</p>
+            <p className="font-mono font-semibold text-green-600">{currency.format(totals.income)}</p>
+          </div>
+          <div className="rounded-lg border border-gray-200 py-2">
+            <p className="text-xs text-gray-500">支出</p>
+            <p className="font-mono font-semibold text-gray-800">{currency.format(totals.expense)}</p>
+          </div>
+          <div className="rounded-lg border border-gray-200 py-2">
+            <p className="text-xs text-gray-500">结余</p>
+            <p className={`font-mono font-semibold ${totals.net < 0 ? 'text-red-600' : 'text-blue-700'}`}>{currency.format(totals.net)}</p>
+          </div>
+        </div>
+        {missingRates.length > 0 && (
+          <p className="text-xs text-amber-700">缺少 {missingRates.map(currencyLabel).join('、')} 的汇率，相关记录未计入合计。</p>
+        )}
+
+        {breakdown.length > 0 && (
+          <section className="break-inside-avoid">
+            <h2 className="text-base font-semibold text-gray-800 mb-2">分类支出</h2>
+            <div className="flex flex-col sm:flex-row print:flex-row items-center gap-4">
+              {/* Fixed size so the chart is laid out before the print dialog measures the page */}
+              <PieChart width={200} height={200}>
+                <Pie data={breakdown} dataKey="value" nameKey="name" innerRadius={55} outerRadius={85} paddingAngle={2} isAnimationActive={false}>
+                  {breakdown.map(row => <Cell key={row.id} fill={row.color} />)}
+                </Pie>
+              </PieChart>
+              <table className="flex-1 w-full text-sm">
+                <tbody className="divide-y divide-gray-100">
+                  {breakdown.map(row => (
+                    <tr key={row.id}>
+                      <td className="py-1">
+                        <span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: row.color }} />
+                        {row.name}
+                      </td>
+                      <td className="py-1 text-right font-mono">{currency.format(row.value)}</td>
+                      <td className="py-1 w-16 text-right text-gray-500">{totals.expense > 0 ? `${((row.value / totals.expense) * 100).toFixed(1)}%` : ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
+
+        <section>
+          <h2 className="text-base font-semibold text-gray-800 mb-2">每日明细</h2>
+          {days.length === 0 ? (
+            <p className="text-sm text-gray-500">本月暂无记录</p>
+          ) : (
+            <div className="space-y-4">
+              {days.map(({ day, list, net }) => (
+                <div key={day} className="break-inside-avoid">
+                  <div className="flex items-center justify-between border-b border-gray-300 pb-1 text-sm">
+                    <span className="font-medium text-gray-900">{dayLabel(day)}</span>
+                    <span className={`font-mono ${net < 0 ? 'text-gray-700' : 'text-green-600'}`}>{currency.format(net)}</span>
+                  </div>
+                  <table className="w-full text-sm">
+                    <tbody className="divide-y divide-gray-100">
+                      {list.map(t => (
+                        <tr key={t.id}>
+                          <td className="py-1 w-12 text-gray-500 font-mono">{t.date.slice(11, 16)}</td>
+                          <td className="py-1">{t.name}</td>
+                          <td className="py-1 text-gray-500">{t.direction === 'transfer' ? '转账' : registry.label(t.category)}</td>
+                          <td className="py-1 text-gray-500">{accountOf(t)}</td>
+                          <td className="py-1 text-right"><AmountText tx={t} /></td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
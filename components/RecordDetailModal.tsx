@@ -1,6 +1,9 @@
 import React from 'react';
 import { Transaction } from '../types';
 import { XIcon } from './icons';
+import { AmountText } from './TransactionList';
+import { summarize } from '../utils/helpers';
+import { useCurrency } from '../utils/currency';
 
 interface RecordDetailModalProps {
   recordName: string;
@@ -9,11 +12,14 @@ interface RecordDetailModalProps {
 }
 
 export const RecordDetailModal: React.FC<RecordDetailModalProps> = ({ recordName, transactions, onClose }) => {
+  const currency = useCurrency();
   if (transactions.length === 0) {
     return null;
   }
   
-  const totalAmount = transactions.reduce((sum, t) => sum + t.amount, 0);
+  const { income, expense } = summarize(transactions, currency.toBase);
+  // Other names the same merchant was recorded under
+  const variants = Array.from(new Set(transactions.map(t => t.name))).filter(n => n !== recordName);
 
   return (
     <div 
@@ -31,6 +37,9 @@ export const RecordDetailModal: React.FC<RecordDetailModalProps> = ({ recordName
           <div>
             <h3 className="text-lg font-semibold text-gray-900">交易详情</h3>
             <p className="text-sm text-gray-500 truncate" title={recordName}>名称: {recordName}</p>
+            {variants.length > 0 && (
+              <p className="text-xs text-gray-400 truncate" title={variants.join('、')}>也记作: {variants.join('、')}</p>
+            )}
           </div>
           <button 
             onClick={onClose}
@@ -48,9 +57,11 @@ export const RecordDetailModal: React.FC<RecordDetailModalProps> = ({ recordName
                 <li key={t.id} className="flex justify-between items-center bg-gray-50 p-3 rounded-lg">
                   <div>
                     <p className="font-medium text-gray-700">{t.date.replace('T', ' ')}</p>
+                    {t.name !== recordName && <p className="text-xs text-gray-500">{t.name}</p>}
                     {t.location && <p className="text-xs text-gray-500">{t.location}</p>}
+                    {t.note && <p className="text-xs text-gray-400">{t.note}</p>}
                   </div>
-                  <p className="font-mono font-semibold text-gray-800">¥{t.amount.toFixed(2)}</p>
+                  <AmountText tx={t} className="font-semibold" />
                 </li>
               ))}
             </ul>
@@ -61,7 +72,10 @@ export const RecordDetailModal: React.FC<RecordDetailModalProps> = ({ recordName
         
         <div className="p-6 bg-gray-50 rounded-b-xl flex justify-between items-center">
             <span className="font-semibold text-gray-800">总计</span>
-            <span className="font-mono font-bold text-xl text-gray-900">¥{totalAmount.toFixed(2)}</span>
+            <div className="text-right">
+              <span className="font-mono font-bold text-xl text-gray-900">{currency.format(expense)}</span>
+              {income > 0 && <p className="font-mono text-sm text-green-600">收入 {currency.format(income, true)}</p>}
+            </div>
         </div>
       </div>
       <style>{`
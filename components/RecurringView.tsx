@@ -0,0 +1,365 @@
+import React, { useMemo, useState } from 'react';
+import { Category, Direction, RecurrenceFrequency, RecurringRule } from '../types';
+import { DIRECTION_LABELS, FALLBACK_CATEGORIES } from '../constants';
+import { CatIcon, ChevronLeftIcon, PlusIcon } from './icons';
+import { useCategories, kindFor } from '../utils/categories';
+import { describeRule, newRuleId, upcomingOccurrences } from '../utils/recurrence';
+import { localDateStr } from '../utils/helpers';
+import { accountName, useAccounts } from '../utils/accounts';
+import { formatMoney, roundAmount, currencyLabel, useCurrency } from '../utils/currency';
+
+interface RecurringViewProps {
+  rules: RecurringRule[];
+  onBack: () => void;
+  onSave: (rule: RecurringRule) => void;
+  onDelete: (ruleId: string) => void;
+}
+
+type EndMode = 'never' | 'date' | 'count';
+
+interface Draft {
+  id: string;
+  name: string;
+  amount: string;
+  currency: string;
+  direction: Direction;
+  category: string;
+  accountId: string; // '' = none
+  toAccountId: string; // transfers only
+  location: string;
+  time: string;
+  frequency: RecurrenceFrequency;
+  interval: string;
+  weekday: number;
+  dayOfMonth: string;
+  startDate: string;
+  endMode: EndMode;
+  endDate: string;
+  count: string;
+}
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: '每天',
+  weekly: '每周',
+  monthly: '每月',
+  yearly: '每年',
+};
+
+const WEEKDAYS = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+
+const UPCOMING_COUNT = 5;
+
+const toDraft = (rule: RecurringRule | null, today: string, defaultCurrency: string): Draft => {
+  if (!rule) {
+    const now = new Date();
+    return {
+      id: '', name: '', amount: '', currency: defaultCurrency, direction: 'expense', category: FALLBACK_CATEGORIES.expense,
+      accountId: '', toAccountId: '', location: '',
+      time: '09:00', frequency: 'monthly', interval: '1', weekday: now.getDay(), dayOfMonth: String(now.getDate()),
+      startDate: today, endMode: 'never', endDate: '', count: '',
+    };
+  }
+  const t = rule.template;
+  return {
+    id: rule.id, name: t.name, amount: String(t.amount), currency: t.currency, direction: t.direction, category: t.category,
+    accountId: t.accountId || '', toAccountId: t.toAccountId || '', location: t.location || '', time: t.time, frequency: rule.frequency, interval: String(rule.interval),
+    weekday: rule.weekday ?? new Date(`${rule.startDate}T00:00`).getDay(), dayOfMonth: String(rule.dayOfMonth || ''),
+    startDate: rule.startDate, endMode: rule.endDate ? 'date' : rule.count ? 'count' : 'never',
+    endDate: rule.endDate || '', count: rule.count ? String(rule.count) : '',
+  };
+};
+
+export const RecurringView: React.FC<RecurringViewProps> = ({ rules, onBack, onSave, onDelete }) => {
+  const registry = useCategories();
+  const accounts = useAccounts();
+  const activeAccounts = useMemo(() => accounts.filter(a => !a.archived), [accounts]);
+  const { base, rates } = useCurrency();
+  const today = localDateStr(new Date());
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sorted = useMemo(
+    () => rules.slice().sort((a, b) => Number(!!a.paused) - Number(!!b.paused) || a.template.name.localeCompare(b.template.name)),
+    [rules]
+  );
+
+  const openNew = () => { setDraft(toDraft(null, today, base)); setError(null); };
+  const openEdit = (rule: RecurringRule) => { setDraft(toDraft(rule, today, base)); setError(null); };
+
+  const setDirection = (direction: Direction) => {
+    if (!draft) return;
+    if (direction === 'transfer') {
+      // Transfers always use the built-in transfer category; preselect a destination other than the source
+      const toAccountId = draft.toAccountId || activeAccounts.find(a => a.id !== draft.accountId)?.id || '';
+      setDraft({ ...draft, direction, category: Category.Transfer, toAccountId });
+      return;
+    }
+    const kind = kindFor(direction);
+    const category = registry.active(kind).some(c => c.id === draft.category) ? draft.category : FALLBACK_CATEGORIES[kind];
+    setDraft({ ...draft, direction, category });
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    const amount = Number(draft.amount);
+    const interval = Math.floor(Number(draft.interval));
+    const isTransfer = draft.direction === 'transfer';
+    if (!name && !isTransfer) { setError('名称不能为空'); return; }
+    if (isTransfer && (!draft.accountId || !draft.toAccountId)) { setError('请选择转出和转入账户'); return; }
+    if (isTransfer && draft.accountId === draft.toAccountId) { setError('转出和转入账户不能相同'); return; }
+    if (!isFinite(amount) || amount <= 0) { setError('请输入大于 0 的金额'); return; }
+    if (!interval || interval < 1) { setError('间隔必须是正整数'); return; }
+    if (!draft.startDate) { setError('请选择开始日期'); return; }
+    if (draft.endMode === 'date' && (!draft.endDate || draft.endDate < draft.startDate)) { setError('结束日期不能早于开始日期'); return; }
+    const count = Math.floor(Number(draft.count));
+    if (draft.endMode === 'count' && (!count || count < 1)) { setError('重复次数必须是正整数'); return; }
+    const dayOfMonth = Math.floor(Number(draft.dayOfMonth));
+    if (draft.frequency === 'monthly' && (!dayOfMonth || dayOfMonth < 1 || dayOfMonth > 31)) { setError('日期必须在 1–31 之间'); return; }
+
+    const existing = rules.find(r => r.id === draft.id);
+    // Editing only affects occurrences that have not been created yet; generatedThrough is kept
+    onSave({
+      id: existing?.id || newRuleId(),
+      template: {
+        // Unnamed transfers are labelled with their route, as in the transaction form
+        name: name || `${accountName(accounts, draft.accountId)} → ${accountName(accounts, draft.toAccountId)}`,
+        amount: roundAmount(amount, draft.currency),
+        currency: draft.currency,
+        direction: draft.direction,
+        category: draft.category,
+        accountId: draft.accountId || undefined,
+        toAccountId: isTransfer ? draft.toAccountId : undefined,
+        location: draft.location.trim() || undefined,
+        time: draft.time || '00:00',
+      },
+      frequency: draft.frequency,
+      interval,
+      weekday: draft.frequency === 'weekly' ? draft.weekday : undefined,
+      dayOfMonth: draft.frequency === 'monthly' ? dayOfMonth : undefined,
+      startDate: draft.startDate,
+      endDate: draft.endMode === 'date' ? draft.endDate : undefined,
+      count: draft.endMode === 'count' ? count : undefined,
+      skipped: existing?.skipped || [],
+      paused: existing?.paused,
+      generatedThrough: existing?.generatedThrough,
+    });
+    setDraft(null);
+  };
+
+  const toggleSkip = (rule: RecurringRule, day: string) => {
+    const skipped = rule.skipped.includes(day) ? rule.skipped.filter(d => d !== day) : [...rule.skipped, day];
+    onSave({ ...rule, skipped });
+  };
+
+  const handleDelete = (rule: RecurringRule) => {
+    if (confirm(`删除周期规则「${rule.template.name}」？已生成的记录会保留。`)) onDelete(rule.id);
+  };
+
+  return (
+    <div className="md:bg-white md:p-6 p-0 md:rounded-xl md:shadow-md">
+      <div className="flex items-center gap-2 mb-4">
+        <button onClick={onBack} className="p-2 rounded-md border border-gray-200 hover:bg-gray-50" title="返回设置">
+          <ChevronLeftIcon className="w-5 h-5" />
+        </button>
+        <h2 className="text-lg md:text-xl font-semibold text-gray-800 flex-1">周期记账</h2>
+        <button onClick={openNew} className="p-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700" title="新建周期规则" aria-label="新建周期规则">
+          <PlusIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      {sorted.length === 0 ? (
+        <div className="text-center text-gray-500 py-16">
+          <p>暂无周期规则</p>
+          <p className="text-sm text-gray-400 mt-1">例如房租、订阅、工资，到期后会在打开应用时自动记账。</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {sorted.map(rule => {
+            const cat = registry.get(rule.template.category);
+            const upcoming = upcomingOccurrences(rule, today, UPCOMING_COUNT);
+            const income = rule.template.direction === 'income' || rule.template.direction === 'refund';
+            return (
+              <li key={rule.id} className={`py-3 ${rule.paused ? 'opacity-60' : ''}`}>
+                <div className="flex items-center gap-3">
+                  <span
+                    className="inline-flex items-center justify-center w-10 h-10 rounded-full shrink-0"
+                    style={{ color: cat.color, backgroundColor: `${cat.color}1A` }}
+                  >
+                    <CatIcon icon={cat.icon} className="w-6 h-6" />
+                  </span>
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium text-gray-900 truncate">{rule.template.name}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {describeRule(rule)}
+                      {rule.paused && ' · 已暂停'}
+                    </p>
+                  </div>
+                  <span className={`font-semibold ${income ? 'text-green-600' : 'text-gray-900'}`}>
+                    {formatMoney(rule.template.amount, rule.template.currency, income)}
+                  </span>
+                </div>
+                <div className="mt-2 pl-[3.25rem] flex flex-wrap gap-1.5">
+                  {upcoming.length === 0 && <span className="text-xs text-gray-400">没有后续日期</span>}
+                  {upcoming.map(day => {
+                    const skipped = rule.skipped.includes(day);
+                    return (
+                      <button
+                        key={day}
+                        onClick={() => toggleSkip(rule, day)}
+                        className={`px-2 py-0.5 rounded-full text-xs border ${skipped ? 'border-gray-200 text-gray-400 line-through' : 'border-blue-200 text-blue-700 bg-blue-50'}`}
+                        title={skipped ? '点击恢复这一次' : '点击跳过这一次'}
+                      >{day.slice(5)}</button>
+                    );
+                  })}
+                </div>
+                <div className="mt-2 flex justify-end gap-2">
+                  <button onClick={() => openEdit(rule)} className="px-2 py-1 text-sm rounded-md border border-gray-200 text-blue-600">编辑</button>
+                  <button onClick={() => onSave({ ...rule, paused: !rule.paused })} className="px-2 py-1 text-sm rounded-md border border-gray-200 text-gray-600">
+                    {rule.paused ? '恢复' : '暂停'}
+                  </button>
+                  <button onClick={() => handleDelete(rule)} className="px-2 py-1 text-sm rounded-md border border-gray-200 text-red-600">删除</button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {draft && (
+        <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={() => setDraft(null)}>
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+            <div className="px-4 py-3 border-b border-gray-200">
+              <h3 className="text-base font-semibold text-gray-900">{draft.id ? '编辑周期规则' : '新建周期规则'}</h3>
+              {draft.id && <p className="text-sm text-gray-500 mt-0.5">修改只影响之后生成的记录。</p>}
+            </div>
+            <div className="p-4 space-y-3 overflow-y-auto text-sm">
+              <div className="inline-flex rounded-lg border border-gray-200 p-0.5">
+                {(['expense', 'income', 'refund', 'transfer'] as const).map(d => (
+                  <button
+                    key={d}
+                    type="button"
+                    onClick={() => setDirection(d)}
+                    className={`px-3 py-1 rounded-md ${draft.direction === d ? 'bg-blue-600 text-white' : 'text-gray-600'}`}
+                  >{DIRECTION_LABELS[d]}</button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="col-span-2">
+                  <label className="text-xs text-gray-500">名称</label>
+                  <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder={draft.direction === 'transfer' ? '可选：例如 信用卡还款、定投' : '例如：房租、会员订阅'} className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2" autoFocus />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-500">金额</label>
+                  <input type="number" inputMode="decimal" min="0" step="0.01" value={draft.amount} onChange={e => setDraft({ ...draft, amount: e.target.value })} className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2" />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-500">币种</label>
+                  <select value={draft.currency} onChange={e => setDraft({ ...draft, currency: e.target.value })} className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 bg-white">
+                    {[...rates.keys()].sort().map(code => <option key={code} value={code}>{currencyLabel(code)}</option>)}
+                  </select>
+                </div>
+                {draft.direction === 'transfer' ? (
+                  <>
+                    <div>
+                      <label className="text-xs text-gray-500">转出账户</label>
+                      <select value={draft.accountId} onChange={e => setDraft({ ...draft, accountId: e.target.value })} className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 bg-white">
+                        <option value="" disabled>请选择</option>
+                        {activeAccounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="text-xs text-gray-500">转入账户</label>
+                      <select value={draft.toAccountId} onChange={e => setDraft({ ...draft, toAccountId: e.target.value })} className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 bg-white">
+                        <option value="" disabled>请选择</option>
+                        {activeAccounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                      </select>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <div>
+                      <label className="text-xs text-gray-500">分类</label>
+                      <select value={draft.category} onChange={e => setDraft({ ...draft, category: e.target.value })} className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 bg-white">
+                        {registry.active(kindFor(draft.direction)).map(c => <option key={c.id} value={c.id}>{registry.label(c.id)}</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="text-xs text-gray-500">账户</label>
+                      <select value={draft.accountId} onChange={e => setDraft({ ...draft, accountId: e.target.value })} className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 bg-white">
+                        <option value="">不指定</option>
+                        {/* An archived account already on the rule stays selectable */}
+                        {accounts.filter(a => !a.archived || a.id === draft.accountId).map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                      </select>
+                    </div>
+                  </>
+                )}
+                <div>
+                  <label className="text-xs text-gray-500">频率</label>
+                  <select value={draft.frequency} onChange={e => setDraft({ ...draft, frequency: e.target.value as RecurrenceFrequency })} className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 bg-white">
+                    {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map(f => <option key={f} value={f}>{FREQUENCY_LABELS[f]}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-xs text-gray-500">间隔</label>
+                  <input type="number" min="1" step="1" value={draft.interval} onChange={e => setDraft({ ...draft, interval: e.target.value })} className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2" />
+                </div>
+                {draft.frequency === 'weekly' && (
+                  <div>
+                    <label className="text-xs text-gray-500">星期</label>
+                    <select value={draft.weekday} onChange={e => setDraft({ ...draft, weekday: Number(e.target.value) })} className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 bg-white">
+                      {WEEKDAYS.map((w, i) => <option key={i} value={i}>{w}</option>)}
+                    </select>
+                  </div>
+                )}
+                {draft.frequency === 'monthly' && (
+                  <div>
+                    <label className="text-xs text-gray-500">每月几号</label>
+                    <input type="number" min="1" max="31" step="1" value={draft.dayOfMonth} onChange={e => setDraft({ ...draft, dayOfMonth: e.target.value })} className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2" />
+                  </div>
+                )}
+                <div>
+                  <label className="text-xs text-gray-500">记账时间</label>
+                  <input type="time" value={draft.time} onChange={e => setDraft({ ...draft, time: e.target.value })} className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2" />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-500">开始日期</label>
+                  <input type="date" value={draft.startDate} onChange={e => setDraft({ ...draft, startDate: e.target.value })} className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2" />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-500">结束</label>
+                  <select value={draft.endMode} onChange={e => setDraft({ ...draft, endMode: e.target.value as EndMode })} className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 bg-white">
+                    <option value="never">永不结束</option>
+                    <option value="date">到指定日期</option>
+                    <option value="count">重复指定次数</option>
+                  </select>
+                </div>
+                {draft.endMode === 'date' && (
+                  <div>
+                    <label className="text-xs text-gray-500">结束日期</label>
+                    <input type="date" value={draft.endDate} onChange={e => setDraft({ ...draft, endDate: e.target.value })} className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2" />
+                  </div>
+                )}
+                {draft.endMode === 'count' && (
+                  <div>
+                    <label className="text-xs text-gray-500">次数</label>
+                    <input type="number" min="1" step="1" value={draft.count} onChange={e => setDraft({ ...draft, count: e.target.value })} className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2" />
+                  </div>
+                )}
+                <div className="col-span-2">
+                  <label className="text-xs text-gray-500">地点（可选）</label>
+                  <input value={draft.location} onChange={e => setDraft({ ...draft, location: e.target.value })} className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2" />
+                </div>
+              </div>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+            <div className="px-4 py-3 border-t border-gray-200 flex justify-end gap-2">
+              <button onClick={() => setDraft(null)} className="px-3 py-1.5 rounded-md border border-gray-300 text-sm">取消</button>
+              <button onClick={saveDraft} className="px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm">保存</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
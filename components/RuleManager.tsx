@@ -0,0 +1,243 @@
+import React, { useMemo, useState } from 'react';
+import { CategoryRule, RuleField, RuleMatchMode, Transaction } from '../types';
+import { ChevronLeftIcon, PlusIcon } from './icons';
+import { useCategories } from '../utils/categories';
+import { RuleChange, newCategoryRuleId, planRuleChanges, ruleProblem } from '../utils/rules';
+
+interface RuleManagerProps {
+  rules: CategoryRule[];
+  transactions: Transaction[];
+  onBack: () => void;
+  onSave: (rule: CategoryRule) => void;
+  onDelete: (ruleId: string) => void;
+  onApply: (changes: RuleChange[]) => void;
+}
+
+const FIELD_LABELS: Record<RuleField, string> = { name: '名称', location: '地点' };
+const MODE_LABELS: Record<RuleMatchMode, string> = { keyword: '包含关键词', exact: '完全一致', regex: '正则表达式' };
+
+// Amounts are edited as text so the range can be left open on either side
+interface Draft extends Omit<CategoryRule, 'minAmount' | 'maxAmount'> {
+  minAmount: string;
+  maxAmount: string;
+}
+
+// Only the first changes are listed in the preview; all of them are applied
+const PREVIEW_LIMIT = 50;
+
+const toDraft = (r: CategoryRule): Draft => ({
+  ...r,
+  minAmount: r.minAmount === undefined ? '' : String(r.minAmount),
+  maxAmount: r.maxAmount === undefined ? '' : String(r.maxAmount),
+});
+
+const fromDraft = (d: Draft): CategoryRule => ({
+  ...d,
+  name: d.name.trim(),
+  pattern: d.pattern.trim(),
+  minAmount: d.minAmount.trim() === '' ? undefined : Number(d.minAmount),
+  maxAmount: d.maxAmount.trim() === '' ? undefined : Number(d.maxAmount),
+});
+
+export const RuleManager: React.FC<RuleManagerProps> = ({ rules, transactions, onBack, onSave, onDelete, onApply }) => {
+  const registry = useCategories();
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<RuleChange[] | null>(null);
+
+  const sorted = useMemo(() => rules.slice().sort((a, b) => a.order - b.order), [rules]);
+
+  const openNew = () => {
+    setDraft({
+      id: '', name: '', field: 'name', mode: 'keyword', pattern: '', minAmount: '', maxAmount: '',
+      category: registry.active('expense')[0]?.id || '', enabled: true, order: Math.max(-1, ...rules.map(r => r.order)) + 1,
+    });
+    setError(null);
+  };
+
+  const saveDraft = () => {
+    if (!draft) return;
+    const rule = fromDraft(draft);
+    if ([rule.minAmount, rule.maxAmount].some(v => v !== undefined && !(isFinite(v) && v >= 0))) { setError('金额必须是不小于 0 的数字'); return; }
+    const problem = ruleProblem(rule);
+    if (problem) { setError(problem); return; }
+    onSave({ ...rule, id: rule.id || newCategoryRuleId() });
+    setDraft(null);
+  };
+
+  // Swaps the order of two neighbouring rules
+  const move = (index: number, by: -1 | 1) => {
+    const a = sorted[index];
+    const b = sorted[index + by];
+    if (!a || !b) return;
+    onSave({ ...a, order: b.order });
+    onSave({ ...b, order: a.order });
+  };
+
+  const handleDelete = (r: CategoryRule) => {
+    if (confirm(`删除规则「${r.name}」？已有记录的分类不会改变。`)) onDelete(r.id);
+  };
+
+  const confirmApply = () => {
+    if (preview) onApply(preview);
+    setPreview(null);
+  };
+
+  const describe = (r: CategoryRule) => {
+    const parts: string[] = [];
+    if (r.pattern) parts.push(`${FIELD_LABELS[r.field]}${MODE_LABELS[r.mode]}`);
+    if (r.minAmount !== undefined || r.maxAmount !== undefined) parts.push(`金额 ${r.minAmount ?? 0}–${r.maxAmount ?? '∞'}`);
+    return `${parts.join('，')} → ${registry.label(r.category)}`;
+  };
+
+  const inputCls = 'mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm';
+
+  return (
+    <div className="md:bg-white md:p-6 p-0 md:rounded-xl md:shadow-md">
+      <div className="flex items-center gap-2 mb-4">
+        <button onClick={onBack} className="p-2 rounded-md border border-gray-200 hover:bg-gray-50" title="返回设置">
+          <ChevronLeftIcon className="w-5 h-5" />
+        </button>
+        <h2 className="text-lg md:text-xl font-semibold text-gray-800 flex-1">分类规则</h2>
+        <button onClick={openNew} className="p-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700" title="新建规则" aria-label="新建规则">
+          <PlusIcon className="w-5 h-5" />
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-3">
+        按顺序匹配，第一条命中的规则决定分类。用于识别账单、手动记账时的分类建议，也可以套用到已有记录。
+      </p>
+
+      <ul className="divide-y divide-gray-100">
+        {sorted.map((r, i) => (
+          <li key={r.id} className={`py-2 flex items-center gap-2 ${r.enabled ? '' : 'opacity-50'}`}>
+            <div className="flex flex-col">
+              <button onClick={() => move(i, -1)} disabled={i === 0} className="px-1 text-xs text-gray-500 disabled:opacity-30" aria-label="上移">▲</button>
+              <button onClick={() => move(i, 1)} disabled={i === sorted.length - 1} className="px-1 text-xs text-gray-500 disabled:opacity-30" aria-label="下移">▼</button>
+            </div>
+            <div className="min-w-0 flex-1">
+              <p className="font-medium text-gray-900 truncate">
+                {r.name}
+                {r.builtin && <span className="ml-2 text-xs text-gray-400">内置</span>}
+              </p>
+              <p className="text-xs text-gray-500 truncate" title={r.pattern}>{describe(r)}</p>
+            </div>
+            <label className="inline-flex items-center gap-1 text-xs text-gray-600">
+              <input type="checkbox" checked={r.enabled} onChange={() => onSave({ ...r, enabled: !r.enabled })} />
+              启用
+            </label>
+            <button onClick={() => { setDraft(toDraft(r)); setError(null); }} className="px-2 py-1 text-sm rounded-md border border-gray-200 text-blue-600">编辑</button>
+            {!r.builtin && (
+              <button onClick={() => handleDelete(r)} className="px-2 py-1 text-sm rounded-md border border-gray-200 text-red-600">删除</button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="mt-4 p-4 border border-gray-200 rounded-lg">
+        <h3 className="font-medium text-gray-900 mb-2">套用到已有记录</h3>
+        {preview === null ? (
+          <>
+            <p className="text-sm text-gray-500 mb-3">按当前规则重新分类历史记录，先预览再确认。</p>
+            <button
+              onClick={() => setPreview(planRuleChanges(rules, transactions, registry))}
+              className="w-full bg-gray-800 text-white font-semibold py-2 px-4 rounded-lg hover:bg-gray-900"
+            >预览变更</button>
+          </>
+        ) : preview.length === 0 ? (
+          <>
+            <p className="text-sm text-gray-500 mb-3">所有记录都已符合当前规则。</p>
+            <button onClick={() => setPreview(null)} className="w-full py-2 px-4 rounded-lg border border-gray-300 text-sm">关闭</button>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-700 mb-2">将修改 {preview.length} 条记录的分类：</p>
+            <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 text-sm mb-3">
+              {preview.slice(0, PREVIEW_LIMIT).map(({ tx, rule, category }) => (
+                <li key={tx.id} className="py-1.5 flex items-center gap-2">
+                  <span className="min-w-0 flex-1 truncate" title={tx.name}>{tx.name}</span>
+                  <span className="text-xs text-gray-400 truncate">{registry.label(tx.category)} → <span className="text-gray-700">{registry.label(category)}</span></span>
+                  <span className="text-xs text-gray-400 hidden sm:inline">（{rule.name}）</span>
+                </li>
+              ))}
+            </ul>
+            {preview.length > PREVIEW_LIMIT && <p className="text-xs text-gray-400 mb-2">仅列出前 {PREVIEW_LIMIT} 条</p>}
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setPreview(null)} className="px-3 py-1.5 rounded-md border border-gray-300 text-sm">取消</button>
+              <button onClick={confirmApply} className="px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm">应用 {preview.length} 条</button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {draft && (
+        <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={() => setDraft(null)}>
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+            <div className="px-4 py-3 border-b border-gray-200">
+              <h3 className="text-base font-semibold text-gray-900">{draft.id ? '编辑规则' : '新建规则'}</h3>
+            </div>
+            <div className="p-4 space-y-4 overflow-y-auto">
+              <div>
+                <label className="text-xs text-gray-500">规则名称</label>
+                <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="例如：咖啡店" className={inputCls} autoFocus />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="text-xs text-gray-500">匹配字段</label>
+                  <select value={draft.field} onChange={e => setDraft({ ...draft, field: e.target.value as RuleField })} className={`${inputCls} bg-white`}>
+                    {(Object.keys(FIELD_LABELS) as RuleField[]).map(f => <option key={f} value={f}>{FIELD_LABELS[f]}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-xs text-gray-500">匹配方式</label>
+                  <select value={draft.mode} onChange={e => setDraft({ ...draft, mode: e.target.value as RuleMatchMode })} className={`${inputCls} bg-white`}>
+                    {(Object.keys(MODE_LABELS) as RuleMatchMode[]).map(m => <option key={m} value={m}>{MODE_LABELS[m]}</option>)}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="text-xs text-gray-500">
+                  {draft.mode === 'keyword' ? '关键词（用逗号分隔，任一命中即可）' : draft.mode === 'regex' ? '正则表达式（不区分大小写）' : '完整内容（不区分大小写）'}
+                </label>
+                <textarea
+                  value={draft.pattern}
+                  onChange={e => setDraft({ ...draft, pattern: e.target.value })}
+                  rows={draft.mode === 'regex' ? 4 : 2}
+                  placeholder="留空则只按金额范围匹配"
+                  className={`${inputCls} ${draft.mode === 'regex' ? 'font-mono text-xs' : ''}`}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="text-xs text-gray-500">最小金额（原币）</label>
+                  <input type="number" inputMode="decimal" min="0" step="any" value={draft.minAmount} onChange={e => setDraft({ ...draft, minAmount: e.target.value })} placeholder="不限" className={inputCls} />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-500">最大金额（原币）</label>
+                  <input type="number" inputMode="decimal" min="0" step="any" value={draft.maxAmount} onChange={e => setDraft({ ...draft, maxAmount: e.target.value })} placeholder="不限" className={inputCls} />
+                </div>
+              </div>
+              <div>
+                <label className="text-xs text-gray-500">设为分类</label>
+                <select value={draft.category} onChange={e => setDraft({ ...draft, category: e.target.value })} className={`${inputCls} bg-white`}>
+                  {!registry.resolve(draft.category, registry.get(draft.category).kind) && <option value={draft.category}>{registry.label(draft.category)}（已归档）</option>}
+                  <optgroup label="支出">
+                    {registry.active('expense').map(c => <option key={c.id} value={c.id}>{registry.label(c.id)}</option>)}
+                  </optgroup>
+                  <optgroup label="收入">
+                    {registry.active('income').map(c => <option key={c.id} value={c.id}>{registry.label(c.id)}</option>)}
+                  </optgroup>
+                </select>
+              </div>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </div>
+            <div className="px-4 py-3 border-t border-gray-200 flex justify-end gap-2">
+              <button onClick={() => setDraft(null)} className="px-3 py-1.5 rounded-md border border-gray-300 text-sm">取消</button>
+              <button onClick={saveDraft} className="px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm">保存</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
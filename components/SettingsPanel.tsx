@@ -1,21 +1,61 @@
 import React, { useRef, useState } from 'react';
-import { Transaction, NewTransaction, Category } from '../types';
+import { Transaction, Budget, Account } from '../types';
+import { BackupData, buildBackup, parseBackup } from '../utils/backup';
+import { ImportPlan } from '../utils/importPreview';
+import { RECOGNIZER_LABELS, RecognizerConfig, RecognizerKind } from '../services/recognizers';
+import { decodeText } from '../utils/csv';
+import { STATEMENT_LABELS, parseStatement } from '../utils/statements';
+import { useCategories } from '../utils/categories';
+import { useAccounts } from '../utils/accounts';
+import { useCurrency } from '../utils/currency';
+import { useRules } from '../utils/rules';
+import { usePreferences } from '../utils/preferences';
+import { useMerchants } from '../utils/merchants';
+import { JournalExport } from './JournalExport';
+import { SpreadsheetExport } from './SpreadsheetExport';
+import { ImportPreview } from './ImportPreview';
 
 interface SettingsPanelProps {
   transactions: Transaction[];
-  onImport: (items: any[]) => void;
+  budgets: Budget[];
+  accounts: Account[];
+  onImport: (items: any[]) => number;
+  // Applies a previewed backup restore; returns a function that undoes it
+  onMergeImport: (plan: ImportPlan, extras: Pick<BackupData, 'accounts' | 'budgets' | 'categories'>) => () => void;
   onClearAll: () => void;
   onOpenTrash?: () => void;
+  onOpenCategories?: () => void;
+  onOpenRecurring?: () => void;
+  onOpenAccounts?: () => void;
+  onOpenCurrency?: () => void;
+  onOpenRules?: () => void;
+  onOpenMerchants?: () => void;
+  onOpenImport: (file: File) => void;
+  onOpenLedgerImport: (file: File) => void;
+  recognizerConfig: RecognizerConfig;
+  onRecognizerConfigChange: (config: RecognizerConfig) => void;
 }
 
-export const SettingsPanel: React.FC<SettingsPanelProps> = ({ transactions, onImport, onClearAll, onOpenTrash }) => {
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ transactions, budgets, accounts, onImport, onMergeImport, onClearAll, onOpenTrash, onOpenCategories, onOpenRecurring, onOpenAccounts, onOpenCurrency, onOpenRules, onOpenMerchants, onOpenImport, onOpenLedgerImport, recognizerConfig, onRecognizerConfigChange }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const statementInputRef = useRef<HTMLInputElement>(null);
+  const tableInputRef = useRef<HTMLInputElement>(null);
+  const ledgerInputRef = useRef<HTMLInputElement>(null);
+  const registry = useCategories();
+  const accountList = useAccounts();
+  const currency = useCurrency();
+  const rules = useRules();
+  const prefs = usePreferences();
+  const merchants = useMerchants();
   const [message, setMessage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [journalOpen, setJournalOpen] = useState(false);
+  const [spreadsheetOpen, setSpreadsheetOpen] = useState(false);
+  const [restore, setRestore] = useState<{ fileName: string; backup: BackupData } | null>(null);
 
   const handleExport = () => {
     try {
-      const dataStr = JSON.stringify(transactions, null, 2);
+      const dataStr = JSON.stringify(buildBackup({ transactions, budgets, accounts, categories: registry.all }), null, 2);
       const blob = new Blob([dataStr], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -42,10 +82,30 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ transactions, onIm
     if (!file) return;
     try {
       const text = await file.text();
-      const json = JSON.parse(text);
-      if (!Array.isArray(json)) throw new Error('JSON 须为数组');
-      onImport(json);
-      setMessage(`已导入 ${json.length} 条记录。`);
+      setRestore({ fileName: file.name, backup: parseBackup(JSON.parse(text)) });
+      setMessage(null);
+      setError(null);
+    } catch (e) {
+      const msg = e && typeof e === 'object' && 'message' in e ? (e as any).message : String(e);
+      setError(`导入失败：${msg}`);
+      setMessage(null);
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  // Alipay and WeChat Pay statements are parsed here, with the same rules and merchants as recognized bills
+  const handleStatementChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const ctx = { registry, defaultCurrency: currency.base, rules, prefs, merchants };
+      const result = parseStatement(decodeText(await file.arrayBuffer()), ctx, accountList);
+      const added = onImport(result.transactions);
+      const duplicates = result.transactions.length - added;
+      const skipped = Object.entries(result.skipped).map(([reason, count]) => `${reason} ${count} 条`);
+      if (duplicates > 0) skipped.push(`重复 ${duplicates} 条`);
+      setMessage(`已从${STATEMENT_LABELS[result.format]}账单导入 ${added} 条记录${skipped.length ? `，跳过：${skipped.join('、')}` : ''}。`);
       setError(null);
     } catch (e) {
       const msg = e && typeof e === 'object' && 'message' in e ? (e as any).message : String(e);
@@ -56,6 +116,9 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ transactions, onIm
     }
   };
 
+  const updateRecognizer = (patch: Partial<RecognizerConfig>) => onRecognizerConfigChange({ ...recognizerConfig, ...patch });
+  const fieldCls = 'mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm';
+
   const handleClear = () => {
     if (confirm('确定要清空所有记录吗？此操作不可撤销。')) {
       onClearAll();
@@ -78,20 +141,143 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ transactions, onIm
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
         <div className="p-4 border border-gray-200 rounded-lg">
           <h3 className="font-medium text-gray-900 mb-2">备份数据</h3>
-          <p className="text-sm text-gray-500 mb-3">将当前所有账单记录导出为 JSON 文件。</p>
+          <p className="text-sm text-gray-500 mb-3">将当前所有账单记录、预算、账户和分类导出为 JSON 文件。周期记账、汇率、分类规则、商户和分类对照表不在备份中。</p>
           <button onClick={handleExport} className="w-full bg-blue-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-blue-700">导出 JSON</button>
         </div>
+        <div className="p-4 border border-gray-200 rounded-lg">
+          <h3 className="font-medium text-gray-900 mb-2">导出复式账本</h3>
+          <p className="text-sm text-gray-500 mb-3">导出为 Beancount 或 ledger-cli 账本，可按日期和分类筛选，自定义分类和账户对应的科目。</p>
+          <button onClick={() => setJournalOpen(true)} className="w-full bg-slate-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-slate-700">导出账本</button>
+        </div>
+        <div className="p-4 border border-gray-200 rounded-lg">
+          <h3 className="font-medium text-gray-900 mb-2">导出表格</h3>
+          <p className="text-sm text-gray-500 mb-3">导出为 CSV 或 Excel 表格，可选择导出的列，并按日期和分类筛选。</p>
+          <button onClick={() => setSpreadsheetOpen(true)} className="w-full bg-emerald-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-emerald-700">导出表格</button>
+        </div>
         <div className="p-4 border border-gray-200 rounded-lg">
           <h3 className="font-medium text-gray-900 mb-2">恢复数据</h3>
-          <p className="text-sm text-gray-500 mb-3">从 JSON 文件导入记录，自动去重。</p>
+          <p className="text-sm text-gray-500 mb-3">从 JSON 文件导入记录，导入前预览重复和无效的记录，可选择跳过、覆盖或都保留。</p>
           <input type="file" accept="application/json" className="hidden" ref={fileInputRef} onChange={handleFileChange} />
           <button onClick={handleImportClick} className="w-full bg-gray-800 text-white font-semibold py-2 px-4 rounded-lg hover:bg-gray-900">导入 JSON</button>
         </div>
+        <div className="p-4 border border-gray-200 rounded-lg">
+          <h3 className="font-medium text-gray-900 mb-2">导入支付账单</h3>
+          <p className="text-sm text-gray-500 mb-3">导入支付宝、微信支付导出的 CSV 账单，在本地解析，跳过已关闭和已退款的交易并自动去重。</p>
+          <input type="file" accept=".csv,text/csv" className="hidden" ref={statementInputRef} onChange={handleStatementChange} />
+          <button onClick={() => statementInputRef.current?.click()} className="w-full bg-cyan-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-cyan-700">导入 CSV 账单</button>
+        </div>
+        <div className="p-4 border border-gray-200 rounded-lg">
+          <h3 className="font-medium text-gray-900 mb-2">导入表格</h3>
+          <p className="text-sm text-gray-500 mb-3">导入银行或其他来源的 CSV、Excel（XLSX）文件：指定各列含义，可保存为预设，导入前预演。</p>
+          <input
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            className="hidden"
+            ref={tableInputRef}
+            onChange={e => { const f = e.target.files?.[0]; if (f) onOpenImport(f); e.target.value = ''; }}
+          />
+          <button onClick={() => tableInputRef.current?.click()} className="w-full bg-violet-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-violet-700">选择文件</button>
+        </div>
+        <div className="p-4 border border-gray-200 rounded-lg">
+          <h3 className="font-medium text-gray-900 mb-2">从其他记账应用迁移</h3>
+          <p className="text-sm text-gray-500 mb-3">导入随手记、鲨鱼记账、钱迹、Zaim、マネーフォワード ME 的导出文件，按可编辑的对照表映射分类，保留账户和备注。</p>
+          <input
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            className="hidden"
+            ref={ledgerInputRef}
+            onChange={e => { const f = e.target.files?.[0]; if (f) onOpenLedgerImport(f); e.target.value = ''; }}
+          />
+          <button onClick={() => ledgerInputRef.current?.click()} className="w-full bg-fuchsia-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-fuchsia-700">选择文件</button>
+        </div>
         <div className="p-4 border border-gray-200 rounded-lg">
           <h3 className="font-medium text-gray-900 mb-2">回收站</h3>
           <p className="text-sm text-gray-500 mb-3">查看最近删除的记录（保留3天，可还原）。</p>
           <button onClick={onOpenTrash} className="w-full bg-green-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-green-700">打开回收站</button>
         </div>
+        <div className="p-4 border border-gray-200 rounded-lg">
+          <h3 className="font-medium text-gray-900 mb-2">分类管理</h3>
+          <p className="text-sm text-gray-500 mb-3">新建、重命名、设置颜色与图标、归档分类或添加子分类。</p>
+          <button onClick={onOpenCategories} className="w-full bg-amber-500 text-white font-semibold py-2 px-4 rounded-lg hover:bg-amber-600">管理分类</button>
+        </div>
+        <div className="p-4 border border-gray-200 rounded-lg">
+          <h3 className="font-medium text-gray-900 mb-2">分类规则</h3>
+          <p className="text-sm text-gray-500 mb-3">按商户名称、地点或金额自动归类，可调整顺序、停用内置规则或套用到历史记录。</p>
+          <button onClick={onOpenRules} className="w-full bg-orange-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-orange-700">管理规则</button>
+        </div>
+        <div className="p-4 border border-gray-200 rounded-lg">
+          <h3 className="font-medium text-gray-900 mb-2">商户</h3>
+          <p className="text-sm text-gray-500 mb-3">为同一家店的不同写法设置标准名称和别名，合并相近的名称。</p>
+          <button onClick={onOpenMerchants} className="w-full bg-rose-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-rose-700">管理商户</button>
+        </div>
+        <div className="p-4 border border-gray-200 rounded-lg">
+          <h3 className="font-medium text-gray-900 mb-2">账户</h3>
+          <p className="text-sm text-gray-500 mb-3">管理现金、支付宝、微信、银行卡等账户，查看余额和转账记录。</p>
+          <button onClick={onOpenAccounts} className="w-full bg-teal-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-teal-700">管理账户</button>
+        </div>
+        <div className="p-4 border border-gray-200 rounded-lg">
+          <h3 className="font-medium text-gray-900 mb-2">币种与汇率</h3>
+          <p className="text-sm text-gray-500 mb-3">设置报表币种，维护离线汇率表，用于多币种记录的换算。</p>
+          <button onClick={onOpenCurrency} className="w-full bg-sky-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-sky-700">管理汇率</button>
+        </div>
+        <div className="p-4 border border-gray-200 rounded-lg">
+          <h3 className="font-medium text-gray-900 mb-2">周期记账</h3>
+          <p className="text-sm text-gray-500 mb-3">房租、订阅、工资等固定账单到期自动记录，可跳过单次或暂停。</p>
+          <button onClick={onOpenRecurring} className="w-full bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-700">管理周期规则</button>
+        </div>
+        <div className="p-4 border border-gray-200 rounded-lg sm:col-span-2">
+          <h3 className="font-medium text-gray-900 mb-2">账单识别</h3>
+          <p className="text-sm text-gray-500 mb-3">选择上传账单时使用的识别方式。识别结果都会经过相同的整理和分类规则。</p>
+          <div className="space-y-3">
+            <div>
+              <label className="text-xs text-gray-500">识别方式</label>
+              <select
+                value={recognizerConfig.kind}
+                onChange={e => updateRecognizer({ kind: e.target.value as RecognizerKind })}
+                className={`${fieldCls} bg-white`}
+              >
+                {(Object.keys(RECOGNIZER_LABELS) as RecognizerKind[]).map(k => <option key={k} value={k}>{RECOGNIZER_LABELS[k]}</option>)}
+              </select>
+            </div>
+            {recognizerConfig.kind === 'http' && (
+              <div>
+                <label className="text-xs text-gray-500">服务器地址</label>
+                <input
+                  type="url"
+                  value={recognizerConfig.endpoint}
+                  onChange={e => updateRecognizer({ endpoint: e.target.value })}
+                  placeholder="https://example.com/api/analyze"
+                  className={fieldCls}
+                />
+              </div>
+            )}
+            {recognizerConfig.kind === 'gemini' && (
+              <>
+                <div>
+                  <label className="text-xs text-gray-500">API Key（仅保存在本机）</label>
+                  <input
+                    type="password"
+                    autoComplete="off"
+                    value={recognizerConfig.apiKey}
+                    onChange={e => updateRecognizer({ apiKey: e.target.value })}
+                    className={fieldCls}
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-500">模型</label>
+                  <input
+                    value={recognizerConfig.model}
+                    onChange={e => updateRecognizer({ model: e.target.value })}
+                    className={fieldCls}
+                  />
+                </div>
+              </>
+            )}
+            {recognizerConfig.kind === 'mock' && (
+              <p className="text-sm text-amber-700">不会读取图片内容，每次返回固定的示例记录，仅用于开发调试。</p>
+            )}
+          </div>
+        </div>
       </div>
 
       <div className="mt-6 p-4 border border-red-200 rounded-lg bg-red-50">
@@ -99,6 +285,18 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ transactions, onIm
         <p className="text-sm text-red-700 mb-3">清空本地的所有账单记录。</p>
         <button onClick={handleClear} className="w-full bg-red-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-red-700">清空所有记录</button>
       </div>
+
+      {journalOpen && <JournalExport transactions={transactions} onClose={() => setJournalOpen(false)} />}
+      {spreadsheetOpen && <SpreadsheetExport transactions={transactions} onClose={() => setSpreadsheetOpen(false)} />}
+      {restore && (
+        <ImportPreview
+          fileName={restore.fileName}
+          backup={restore.backup}
+          transactions={transactions}
+          onMerge={onMergeImport}
+          onClose={() => setRestore(null)}
+        />
+      )}
     </div>
   );
 };
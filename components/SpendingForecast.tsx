@@ -0,0 +1,121 @@
+import React, { useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, Legend, CartesianGrid, ResponsiveContainer } from 'recharts';
+import { CategoryId, Transaction } from '../types';
+import { localDateStr } from '../utils/helpers';
+import { useCategories } from '../utils/categories';
+import { useCurrency } from '../utils/currency';
+import { useMerchants } from '../utils/merchants';
+import { BudgetStatus } from '../utils/budgets';
+import { Period, PeriodSettings, shiftPeriod } from '../utils/periods';
+import { cumulativeSpending, forecastPeriod, yearEarlier } from '../utils/forecast';
+
+interface SpendingForecastProps {
+  transactions: Transaction[];
+  period: Period; // a month, which may start on any day
+  periodSettings: PeriodSettings;
+  budgets?: Map<CategoryId, BudgetStatus>;
+  overallBudget?: BudgetStatus | null;
+}
+
+// Cumulative spending this month against last month and the same month last year, and for the
+// current month a projection of where it will end
+export const SpendingForecast: React.FC<SpendingForecastProps> = ({ transactions, period, periodSettings, budgets, overallBudget }) => {
+  const registry = useCategories();
+  const currency = useCurrency();
+  const merchants = useMerchants();
+  const today = localDateStr(new Date());
+
+  const forecast = useMemo(
+    () => forecastPeriod(transactions, period, periodSettings, today, registry, merchants, currency.toBase),
+    [transactions, period, periodSettings, today, registry, merchants, currency]
+  );
+
+  const data = useMemo(() => {
+    const current = cumulativeSpending(transactions, period, currency.toBase);
+    const last = cumulativeSpending(transactions, shiftPeriod(period, -1, periodSettings), currency.toBase);
+    const lastYear = cumulativeSpending(transactions, yearEarlier(period, periodSettings), currency.toBase);
+    const length = Math.max(current.length, last.length, lastYear.length);
+    return Array.from({ length }, (_, i) => ({
+      day: i + 1,
+      // Up to today only, so the line does not run flat into the future
+      current: i < current.length && (!forecast || i < forecast.elapsed) ? current[i] : undefined,
+      // Starts on today so the dashed line continues the solid one
+      projected: forecast && i >= forecast.elapsed - 1 && i < forecast.curve.length ? forecast.curve[i] : undefined,
+      last: last[i],
+      lastYear: lastYear[i],
+    }));
+  }, [transactions, period, periodSettings, currency, forecast]);
+
+  const hasHistory = data.some(d => d.last || d.lastYear);
+  if (!forecast && !hasHistory) return null;
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-baseline justify-between gap-2 mb-2">
+        <h3 className="text-base font-semibold text-gray-800">{forecast ? '月末预测' : '累计支出'}</h3>
+        {forecast && (
+          <span className="text-sm text-gray-500">
+            第 {forecast.elapsed}/{forecast.days} 天 · 预计 <span className="font-mono font-semibold text-gray-800">{currency.format(forecast.projected)}</span>
+          </span>
+        )}
+      </div>
+      {forecast && overallBudget && forecast.projected > overallBudget.available && (
+        <p className="mb-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded-md px-2 py-1">
+          按目前的节奏，本月预计超出总预算 {currency.format(forecast.projected - overallBudget.available)}
+        </p>
+      )}
+
+      <div className="-mx-2">
+        <ResponsiveContainer width="100%" height={220}>
+          <LineChart data={data} margin={{ top: 8, right: 16, bottom: 0, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="day" tick={{ fontSize: 12 }} interval="preserveStartEnd" />
+            <YAxis tick={{ fontSize: 12 }} width={56} tickFormatter={(v: number) => (v >= 10000 ? `${(v / 10000).toFixed(1)}万` : String(Math.round(v)))} />
+            <Tooltip labelFormatter={(day) => `第 ${day} 天`} formatter={(value: number) => currency.format(value)} />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            <Line type="monotone" dataKey="lastYear" name="去年同月" stroke="#D1D5DB" strokeWidth={1.5} dot={false} />
+            <Line type="monotone" dataKey="last" name="上月" stroke="#9CA3AF" strokeWidth={1.5} dot={false} />
+            <Line type="monotone" dataKey="current" name="本月" stroke="#2563EB" strokeWidth={2} dot={false} />
+            {forecast && <Line type="monotone" dataKey="projected" name="预测" stroke="#2563EB" strokeWidth={2} strokeDasharray="5 4" dot={false} />}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {forecast && forecast.byCategory.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {forecast.byCategory.map(c => {
+            const def = registry.get(c.id);
+            const budget = budgets?.get(c.id);
+            const over = budget && c.projected > budget.available;
+            return (
+              <li key={c.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="flex items-center gap-2 min-w-0">
+                  <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: def.color }} />
+                  <span className="truncate text-gray-800">{registry.label(c.id)}</span>
+                  {over && <span className="px-1.5 rounded bg-red-100 text-red-700 text-xs shrink-0">预计超支</span>}
+                </span>
+                <span className="font-mono text-gray-700 shrink-0">
+                  <span className="text-gray-400">{currency.format(c.spent)} → </span>{currency.format(c.projected)}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {forecast && forecast.pending.length > 0 && (
+        <div className="mt-3">
+          <p className="text-xs text-gray-500 mb-1">尚未出现的固定支出（已计入预测）</p>
+          <ul className="space-y-1">
+            {forecast.pending.map(c => (
+              <li key={`${c.name}|${c.day}`} className="flex items-center justify-between gap-2 text-xs text-gray-600">
+                <span className="truncate">{c.name} · 通常在第 {c.day + 1} 天</span>
+                <span className="font-mono shrink-0">{currency.format(c.amount)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Transaction } from '../types';
+import { XIcon } from './icons';
+import { ExportFilterFields } from './ExportFilterFields';
+import { EXPORT_COLUMN_LABELS, ExportColumn, SpreadsheetFormat, exportRows, loadExportColumns, saveExportColumns, toCsv } from '../utils/spreadsheetExport';
+import { DEFAULT_EXPORT_FILTER, ExportFilter, filterForExport } from '../utils/exportFilter';
+import { downloadBlob, fileTimestamp } from '../utils/helpers';
+import { writeXlsx } from '../utils/xlsx';
+import { useCategories } from '../utils/categories';
+import { useAccounts } from '../utils/accounts';
+import { useCurrency } from '../utils/currency';
+
+interface SpreadsheetExportProps {
+  transactions: Transaction[];
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<SpreadsheetFormat, string> = {
+  xlsx: 'Excel（XLSX）',
+  csv: 'CSV',
+};
+
+export const SpreadsheetExport: React.FC<SpreadsheetExportProps> = ({ transactions, onClose }) => {
+  const registry = useCategories();
+  const accounts = useAccounts();
+  const currency = useCurrency();
+  const [format, setFormat] = useState<SpreadsheetFormat>('xlsx');
+  const [columns, setColumns] = useState<ExportColumn[]>(loadExportColumns);
+  const [filter, setFilter] = useState<ExportFilter>(DEFAULT_EXPORT_FILTER);
+
+  useEffect(() => { saveExportColumns(columns); }, [columns]);
+
+  const selected = useMemo(() => filterForExport(transactions, filter, registry), [transactions, filter, registry]);
+
+  const toggleColumn = (c: ExportColumn) => setColumns(cs => (cs.includes(c) ? cs.filter(x => x !== c) : [...cs, c]));
+
+  const handleExport = () => {
+    const rows = exportRows(selected, columns, { registry, accounts, currency });
+    const blob = format === 'xlsx' ? writeXlsx(rows, '账单') : toCsv(rows);
+    downloadBlob(blob, `transactions-${fileTimestamp()}.${format}`);
+    onClose();
+  };
+
+  const inputCls = 'mt-1 block w-full rounded-md border border-gray-300 px-2 py-1.5 text-sm bg-white';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center">
+          <h3 className="flex-1 text-base font-semibold text-gray-900">导出表格</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 rounded-full p-1" aria-label="关闭">
+            <XIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-4">
+          <div>
+            <label className="text-xs text-gray-500">格式</label>
+            <select value={format} onChange={e => setFormat(e.target.value as SpreadsheetFormat)} className={inputCls}>
+              {(Object.keys(FORMAT_LABELS) as SpreadsheetFormat[]).map(f => <option key={f} value={f}>{FORMAT_LABELS[f]}</option>)}
+            </select>
+          </div>
+          <ExportFilterFields filter={filter} onChange={setFilter} />
+          <div>
+            <p className="text-xs text-gray-500 mb-1">导出的列</p>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-3 gap-y-1.5">
+              {(Object.keys(EXPORT_COLUMN_LABELS) as ExportColumn[]).map(c => (
+                <label key={c} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={columns.includes(c)} onChange={() => toggleColumn(c)} />
+                  {c === 'baseAmount' ? `折合 ${currency.base}` : EXPORT_COLUMN_LABELS[c]}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="px-4 py-3 border-t border-gray-200 flex items-center gap-2">
+          <span className="flex-1 text-sm text-gray-500">共 {selected.length} 条记录</span>
+          <button onClick={onClose} className="px-3 py-1.5 rounded-md border border-gray-300 text-sm">取消</button>
+          <button onClick={handleExport} disabled={selected.length === 0 || columns.length === 0} className="px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm disabled:opacity-50">
+            导出
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
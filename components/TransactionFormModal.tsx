@@ -1,7 +1,13 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Transaction, NewTransaction, Category } from '../types';
-import { CATEGORIES } from '../constants';
+import { Transaction, NewTransaction, Category, Direction } from '../types';
+import { DEFAULT_CURRENCY, DIRECTION_LABELS, FALLBACK_CATEGORIES } from '../constants';
 import { CatIcon } from './icons';
+import { useCategories, kindFor } from '../utils/categories';
+import { useAccounts, accountName } from '../utils/accounts';
+import { currencyDecimals, roundAmount, useCurrency } from '../utils/currency';
+import { useRules } from '../utils/rules';
+import { describeSuggestion, suggestCategory, usePreferences } from '../utils/preferences';
+import { useMerchants } from '../utils/merchants';
 
 interface TransactionFormModalProps {
   isOpen: boolean;
@@ -14,6 +20,8 @@ const initialFormState: NewTransaction = {
   name: '',
   category: Category.Other,
   amount: 0,
+  currency: DEFAULT_CURRENCY,
+  direction: 'expense',
   date: new Date().toISOString().slice(0, 16),
   location: '',
 };
@@ -24,9 +32,18 @@ export const TransactionFormModal: React.FC<TransactionFormModalProps> = ({
   onSave,
   transaction,
 }) => {
+  const registry = useCategories();
+  const accounts = useAccounts();
+  const currency = useCurrency();
+  const rules = useRules();
+  const prefs = usePreferences();
+  const merchants = useMerchants();
+  const activeAccounts = useMemo(() => accounts.filter(a => !a.archived), [accounts]);
   const [formData, setFormData] = useState<NewTransaction>(initialFormState);
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
   const nameInputRef = useRef<HTMLInputElement | null>(null);
+  // Once the user picks a category themselves, learned suggestions stop replacing it
+  const categoryTouchedRef = useRef(false);
   const dateInputRef = useRef<HTMLInputElement | null>(null);
   const isEdit = !!transaction;
   const [amountStr, setAmountStr] = useState<string>('0');
@@ -47,25 +64,35 @@ export const TransactionFormModal: React.FC<TransactionFormModalProps> = ({
         name: transaction.name,
         category: transaction.category,
         amount: transaction.amount,
+        currency: transaction.currency || DEFAULT_CURRENCY,
+        direction: transaction.direction || 'expense',
         date: transaction.date.slice(0, 16),
         location: transaction.location || '',
+        accountId: transaction.accountId,
+        toAccountId: transaction.toAccountId,
       });
       setAmountStr(String(transaction.amount));
     } else {
       // Use last chosen category/location as convenient defaults
       try {
-        const lastCategory = localStorage.getItem('lastCategory') as Category | null;
+        const lastCategory = localStorage.getItem('lastCategory');
+        const usable = !!lastCategory && registry.active(kindFor(initialFormState.direction)).some(c => c.id === lastCategory);
+        const lastAccount = localStorage.getItem('lastAccount');
+        const lastCurrency = localStorage.getItem('lastCurrency');
         setFormData({
           ...initialFormState,
-          category: lastCategory && (Object.values(Category) as string[]).includes(lastCategory) ? (lastCategory as Category) : initialFormState.category,
+          category: usable ? lastCategory! : initialFormState.category,
+          accountId: activeAccounts.some(a => a.id === lastAccount) ? lastAccount! : undefined,
+          currency: lastCurrency && currency.rates.has(lastCurrency) ? lastCurrency : currency.base,
           date: new Date().toISOString().slice(0, 16),
         });
       } catch {
-        setFormData({ ...initialFormState, date: new Date().toISOString().slice(0, 16) });
+        setFormData({ ...initialFormState, currency: currency.base, date: new Date().toISOString().slice(0, 16) });
       }
       setAmountStr('0');
     }
     setErrors({});
+    categoryTouchedRef.current = false;
     // focus the name field shortly after open
     setTimeout(() => nameInputRef.current?.focus(), 50);
   }, [transaction, isOpen]);
@@ -105,9 +132,24 @@ export const TransactionFormModal: React.FC<TransactionFormModalProps> = ({
 
   const parsedAmount = useMemo(() => evalExpression(amountStr), [amountStr]);
 
+  const isTransfer = formData.direction === 'transfer';
+
   const isValid = useMemo(() => {
-    return formData.name.trim().length > 0 && parsedAmount > 0 && !!formData.date;
-  }, [formData.name, formData.date, parsedAmount]);
+    return (isTransfer || formData.name.trim().length > 0) && parsedAmount > 0 && !!formData.date;
+  }, [formData.name, formData.date, parsedAmount, isTransfer]);
+
+  // Category the learned preferences or the rules would pick for what has been typed so far
+  const suggestion = useMemo(
+    // Aliases are looked up under the canonical merchant, which is what corrections are recorded for
+    () => (isOpen ? suggestCategory({ ...formData, name: merchants.canonical(formData.name), amount: parsedAmount }, prefs, rules, registry) : undefined),
+    [isOpen, prefs, rules, registry, merchants, formData.name, formData.location, formData.direction, parsedAmount]
+  );
+
+  // New records follow what the user taught the app; rules are only offered
+  useEffect(() => {
+    if (!isOpen || transaction || categoryTouchedRef.current) return;
+    if (suggestion?.source === 'learned') setFormData(prev => ({ ...prev, category: suggestion.category }));
+  }, [suggestion?.category, suggestion?.source]);
 
   if (!isOpen) {
     return null;
@@ -121,9 +163,27 @@ export const TransactionFormModal: React.FC<TransactionFormModalProps> = ({
     }));
   };
   
+  const handleDirectionChange = (direction: Direction) => {
+    setFormData(prev => {
+      if (direction === 'transfer') {
+        // Transfers always use the built-in transfer category; preselect a destination other than the source
+        const toAccountId = prev.toAccountId || activeAccounts.find(a => a.id !== prev.accountId)?.id;
+        return { ...prev, direction, category: Category.Transfer, toAccountId };
+      }
+      const kind = kindFor(direction);
+      const options = registry.active(kind);
+      const category = options.some(c => c.id === prev.category) ? prev.category : FALLBACK_CATEGORIES[kind];
+      return { ...prev, direction, category };
+    });
+  };
+
   const validate = (): boolean => {
     const newErrors: { [key: string]: string } = {};
-    if (!formData.name.trim()) newErrors.name = '名称不能为空';
+    if (!formData.name.trim() && !isTransfer) newErrors.name = '名称不能为空';
+    if (isTransfer) {
+      if (!formData.accountId || !formData.toAccountId) newErrors.account = '请选择转出和转入账户';
+      else if (formData.accountId === formData.toAccountId) newErrors.account = '转出和转入账户不能相同';
+    }
   if (parsedAmount <= 0) newErrors.amount = '金额必须大于0';
     if (!formData.date) newErrors.date = '日期不能为空';
     setErrors(newErrors);
@@ -132,13 +192,22 @@ export const TransactionFormModal: React.FC<TransactionFormModalProps> = ({
 
   const attemptSave = () => {
     if (!validate()) return;
+    const data: NewTransaction = {
+      ...formData,
+      amount: roundAmount(parsedAmount, formData.currency),
+      // Unnamed transfers are labelled with their route
+      name: formData.name.trim() || `${accountName(accounts, formData.accountId)} → ${accountName(accounts, formData.toAccountId)}`,
+      toAccountId: isTransfer ? formData.toAccountId : undefined,
+    };
     const payload: Transaction | NewTransaction = transaction
-      ? ({ ...formData, amount: parsedAmount, id: transaction.id } as Transaction)
-      : ({ ...formData, amount: parsedAmount } as NewTransaction);
+      ? ({ ...transaction, ...data } as Transaction)
+      : data;
     onSave(payload);
     // remember quick defaults
     try {
-      localStorage.setItem('lastCategory', formData.category);
+      if (!isTransfer) localStorage.setItem('lastCategory', formData.category);
+      if (formData.accountId) localStorage.setItem('lastAccount', formData.accountId);
+      localStorage.setItem('lastCurrency', formData.currency);
       if (formData.location) localStorage.setItem('lastLocation', formData.location);
     } catch {}
   };
@@ -160,6 +229,8 @@ export const TransactionFormModal: React.FC<TransactionFormModalProps> = ({
       }
       if (k === 'clear') return '0';
       if (k === '.') {
+        // Currencies without minor units (JPY, KRW) take whole numbers only
+        if (currencyDecimals(formData.currency) === 0) return s;
         const lastSeg = s.split(/[+\-]/).pop() || '';
         if (lastSeg.includes('.')) return s;
         return s.endsWith('.') ? s : s + '.';
@@ -171,8 +242,8 @@ export const TransactionFormModal: React.FC<TransactionFormModalProps> = ({
       }
       if (k === '=') {
         const v = evalExpression(s);
-        // keep up to 2 decimals cleanly
-        const out = Number.isFinite(v) ? (Math.round(v * 100) / 100).toString() : '0';
+        // keep only the currency's decimals
+        const out = Number.isFinite(v) ? roundAmount(v, formData.currency).toString() : '0';
         return out;
       }
       if (k === 'done') {
@@ -227,33 +298,139 @@ export const TransactionFormModal: React.FC<TransactionFormModalProps> = ({
             {/* Header (primary blue) */}
             <div className="px-4 py-3 bg-blue-600 text-white md:rounded-t-xl flex items-center justify-between" style={{ paddingTop: 'env(safe-area-inset-top + 10px)' }}>
               <div className="w-10" />
-              <div className="text-base font-semibold">支出 ▾</div>
+              <div className="inline-flex rounded-md bg-white/15 p-0.5" role="radiogroup" aria-label="收支类型">
+                {(Object.keys(DIRECTION_LABELS) as Direction[]).map(d => (
+                  <button
+                    key={d}
+                    type="button"
+                    role="radio"
+                    aria-checked={formData.direction === d}
+                    onClick={() => handleDirectionChange(d)}
+                    className={`px-3 py-1 rounded text-sm font-semibold transition-colors ${formData.direction === d ? 'bg-white text-blue-700' : 'text-white/90'}`}
+                  >
+                    {DIRECTION_LABELS[d]}
+                  </button>
+                ))}
+              </div>
               <button type="button" onClick={onClose} className="text-white/80 hover:text-white text-sm">取消</button>
             </div>
 
             {/* Scrollable content */}
             <div className="flex-1 overflow-y-auto p-4 space-y-4">
-              {/* Category grid */}
-              <div className="grid grid-cols-4 gap-4">
-                {CATEGORIES.map(cat => {
-                  const selected = formData.category === cat;
-                  return (
+              {/* Transfers pick two accounts instead of a category */}
+              {isTransfer && (
+                <div className="grid grid-cols-[1fr_auto_1fr] items-end gap-2">
+                  <div>
+                    <label htmlFor="accountId" className="text-xs text-gray-500">转出账户</label>
+                    <select id="accountId" name="accountId" value={formData.accountId || ''} onChange={handleChange} className="mt-1 block w-full rounded-md border border-gray-300 px-2 py-2 text-sm bg-white">
+                      <option value="" disabled>请选择</option>
+                      {activeAccounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                    </select>
+                  </div>
+                  <span className="pb-2 text-gray-400">→</span>
+                  <div>
+                    <label htmlFor="toAccountId" className="text-xs text-gray-500">转入账户</label>
+                    <select id="toAccountId" name="toAccountId" value={formData.toAccountId || ''} onChange={handleChange} className="mt-1 block w-full rounded-md border border-gray-300 px-2 py-2 text-sm bg-white">
+                      <option value="" disabled>请选择</option>
+                      {activeAccounts.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                    </select>
+                  </div>
+                  {errors.account && <p className="col-span-3 text-sm text-red-600">{errors.account}</p>}
+                </div>
+              )}
+
+              {!isTransfer && suggestion && (
+                suggestion.category === formData.category ? (
+                  <p className="text-xs text-gray-500">分类来源：{describeSuggestion(suggestion)}</p>
+                ) : (
+                  <div className="flex items-center gap-2 rounded-md bg-amber-50 border border-amber-200 px-3 py-2 text-sm">
+                    <span className="min-w-0 flex-1 truncate text-amber-800">
+                      建议分类：{registry.label(suggestion.category)}（{describeSuggestion(suggestion)}）
+                    </span>
                     <button
-                      key={cat}
                       type="button"
-                      onClick={() => setFormData(prev => ({ ...prev, category: cat }))}
-                      className="flex flex-col items-center gap-1"
-                      aria-pressed={selected}
-                      title={cat}
-                    >
-                      <span className={`inline-flex items-center justify-center w-14 h-14 rounded-full bg-gray-200 ${selected ? 'ring-2 ring-blue-400 bg-blue-100' : ''}`}>
-                        <CatIcon cat={cat} className="w-8 h-8 text-gray-700" />
-                      </span>
-                      <span className="text-xs text-gray-600">{cat}</span>
-                    </button>
-                  );
-                })}
-              </div>
+                      onClick={() => setFormData(prev => ({ ...prev, category: suggestion.category }))}
+                      className="px-2 py-0.5 rounded border border-amber-300 text-amber-800 text-xs shrink-0"
+                    >使用</button>
+                  </div>
+                )
+              )}
+
+              {/* Category grid */}
+              {!isTransfer && (() => {
+                const options = registry.active(kindFor(formData.direction));
+                const selectedRoot = registry.rootOf(formData.category);
+                const subOptions = options.filter(c => c.parentId === selectedRoot);
+                return (
+                  <>
+                    <div className="grid grid-cols-4 gap-4">
+                      {options.filter(c => !c.parentId).map(cat => {
+                        const selected = selectedRoot === cat.id;
+                        return (
+                          <button
+                            key={cat.id}
+                            type="button"
+                            onClick={() => { categoryTouchedRef.current = true; setFormData(prev => ({ ...prev, category: cat.id })); }}
+                            className="flex flex-col items-center gap-1"
+                            aria-pressed={selected}
+                            title={cat.name}
+                          >
+                            <span
+                              className={`inline-flex items-center justify-center w-14 h-14 rounded-full bg-gray-200 ${selected ? 'ring-2 ring-blue-400 bg-blue-100' : ''}`}
+                              style={{ color: cat.color }}
+                            >
+                              <CatIcon icon={cat.icon} className="w-8 h-8" />
+                            </span>
+                            <span className="text-xs text-gray-600 truncate max-w-full">{cat.name}</span>
+                          </button>
+                        );
+                      })}
+                    </div>
+                    {/* Subcategories of the selected parent */}
+                    {subOptions.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {subOptions.map(sc => {
+                          const selected = formData.category === sc.id;
+                          return (
+                            <button
+                              key={sc.id}
+                              type="button"
+                              onClick={() => { categoryTouchedRef.current = true; setFormData(prev => ({ ...prev, category: selected ? selectedRoot : sc.id })); }}
+                              className={`px-3 py-1 rounded-full border text-xs ${selected ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-600'}`}
+                              aria-pressed={selected}
+                            >
+                              {sc.name}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </>
+                );
+              })()}
+
+              {/* Paying / receiving account */}
+              {!isTransfer && activeAccounts.length > 0 && (
+                <div>
+                  <p className="text-xs text-gray-500 mb-1">{formData.direction === 'expense' ? '支付账户' : '收款账户'}</p>
+                  <div className="flex flex-wrap gap-2">
+                    {[{ id: '', name: '不指定' }, ...activeAccounts].map(a => {
+                      const selected = (formData.accountId || '') === a.id;
+                      return (
+                        <button
+                          key={a.id || 'none'}
+                          type="button"
+                          onClick={() => setFormData(prev => ({ ...prev, accountId: a.id || undefined }))}
+                          className={`px-3 py-1 rounded-full border text-xs ${selected ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-600'}`}
+                          aria-pressed={selected}
+                        >
+                          {a.name}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
 
               {/* Note moved to bottom dock; removed here */}
 
@@ -282,10 +459,21 @@ export const TransactionFormModal: React.FC<TransactionFormModalProps> = ({
                   id="name"
                   value={formData.name}
                   onChange={handleChange}
-                  placeholder="备注：例如 麦当劳 / 打车 / 购物"
+                  placeholder={isTransfer ? '备注（可选）：例如 信用卡还款' : '备注：例如 麦当劳 / 打车 / 购物'}
                   autoComplete="off"
                   className={`flex-1 border-0 border-b border-gray-300 focus:border-blue-500 focus:ring-0 text-base px-0 py-1 ${errors.name ? 'border-red-500' : ''}`}
                 />
+                <select
+                  name="currency"
+                  value={formData.currency}
+                  onChange={handleChange}
+                  className="shrink-0 border-0 bg-gray-100 rounded-md text-sm py-1 pl-2 pr-6"
+                  aria-label="币种"
+                >
+                  {[...new Set([formData.currency, ...currency.rates.keys()])].sort().map(code => (
+                    <option key={code} value={code}>{code}</option>
+                  ))}
+                </select>
                 <div className="shrink-0 text-right leading-none">
                   <div className="text-3xl font-semibold text-gray-900">{amountStr}</div>
                 </div>
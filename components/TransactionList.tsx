@@ -1,62 +1,123 @@
 import React, { useMemo, useState, useRef, useEffect } from 'react';
-import { Transaction, Category } from '../types';
-import { CATEGORY_COLORS } from '../constants';
-import { PlusIcon, PencilIcon, TrashIcon, BarsArrowDownIcon, FoodIcon, TransportIcon, ShoppingIcon, EntertainmentIcon, HomeIcon, MedicalIcon, EducationIcon, TransferIcon, OtherIcon } from './icons';
+import { Transaction, CategoryId } from '../types';
+import { PlusIcon, PencilIcon, TrashIcon, BarsArrowDownIcon, CatIcon } from './icons';
+import { useCategories } from '../utils/categories';
+import { useAccounts, accountName } from '../utils/accounts';
+import { formatMoney, useCurrency } from '../utils/currency';
 import { SwipeToDelete } from './SwipeToDelete';
+import { summarize, Totals } from '../utils/helpers';
+import { ANOMALY_LABELS, Anomaly } from '../utils/anomalies';
 import { VariableSizeList as List, ListChildComponentProps } from 'react-window';
 
 interface TransactionListProps {
   resetToken?: number;
   transactions: Transaction[];
   onRecordClick: (recordName: string) => void;
+  onTransferClick?: (transaction: Transaction) => void;
   onAddClick: () => void;
   onEditClick: (transaction: Transaction) => void;
   onDeleteClick: (transactionId: string) => void;
-  onBulkChangeCategory?: (ids: string[], category: Category) => void;
+  onBulkChangeCategory?: (ids: string[], category: CategoryId) => void;
   onBulkDelete?: (ids: string[]) => void;
   onSelectModeChange?: (active: boolean) => void;
+  // Undismissed flags by transaction ID, shown as badges
+  anomalies?: Map<string, Anomaly[]>;
 }
 
-const CatIcon: React.FC<{ cat: Category; className?: string }> = ({ cat, className }) => {
-  const common = className || 'w-4 h-4';
-  switch (cat) {
-    case Category.Food: return <FoodIcon className={common} />;
-    case Category.Transport: return <TransportIcon className={common} />;
-    case Category.Shopping: return <ShoppingIcon className={common} />;
-    case Category.Entertainment: return <EntertainmentIcon className={common} />;
-    case Category.Home: return <HomeIcon className={common} />;
-    case Category.Medical: return <MedicalIcon className={common} />;
-    case Category.Education: return <EducationIcon className={common} />;
-    case Category.Transfer: return <TransferIcon className={common} />;
-    default: return <OtherIcon className={common} />;
-  }
+export const CategoryBadge: React.FC<{ category: Transaction['category'] }> = React.memo(({ category }) => {
+  const registry = useCategories();
+  const def = registry.get(category);
+  return (
+    <span
+      className="px-2 py-1 text-xs font-semibold leading-tight rounded-full whitespace-nowrap max-w-[9rem] truncate inline-flex items-center gap-1"
+      style={{
+        backgroundColor: `${def.color}22`,
+        color: def.color
+      }}
+      title={registry.label(category)}
+    >
+      <CatIcon icon={def.icon} className="w-5 h-5" />
+      <span className="hidden sm:inline">{def.name}</span>
+    </span>
+  );
+});
+
+// Expenses show as plain amounts; money coming back in (income, refunds) is green with a plus sign;
+// transfers are neutral blue since they do not change the overall total
+export const AmountText: React.FC<{ tx: Pick<Transaction, 'amount' | 'direction' | 'currency'>; className?: string }> = ({ tx, className }) => {
+  const incoming = tx.direction === 'income' || tx.direction === 'refund';
+  const color = tx.direction === 'transfer' ? 'text-blue-600' : incoming ? 'text-green-600' : 'text-gray-900';
+  return (
+    <span className={`font-mono ${color} ${className || ''}`}>
+      {formatMoney(tx.amount, tx.currency, incoming)}
+    </span>
+  );
 };
 
-export const CategoryBadge: React.FC<{ category: Transaction['category'] }> = React.memo(({ category }) => (
-  <span
-    className="px-2 py-1 text-xs font-semibold leading-tight rounded-full whitespace-nowrap max-w-[9rem] truncate inline-flex items-center gap-1"
-    style={{ 
-      backgroundColor: `${CATEGORY_COLORS[category]}22`,
-      color: CATEGORY_COLORS[category]
-    }}
-    title={category}
-  >
-    <CatIcon cat={category} className="w-5 h-5" />
-    <span className="hidden sm:inline">{category}</span>
+export const AnomalyBadge: React.FC<{ anomaly: Anomaly }> = ({ anomaly }) => (
+  <span className={`px-1.5 rounded text-xs whitespace-nowrap ${anomaly.kind === 'duplicate' ? 'bg-orange-100 text-orange-700' : 'bg-amber-100 text-amber-700'}`}>
+    {ANOMALY_LABELS[anomaly.kind]}
   </span>
-));
+);
 
-export const LeadingCat: React.FC<{ category: Category }> = React.memo(({ category }) => (
-  <span className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-gray-100 text-gray-700 shrink-0">
-    <CatIcon cat={category} className="w-6 h-6" />
-  </span>
-));
+export const LeadingCat: React.FC<{ category: CategoryId }> = React.memo(({ category }) => {
+  const registry = useCategories();
+  const def = registry.get(category);
+  return (
+    <span
+      className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-gray-100 text-gray-700 shrink-0"
+      style={{ color: def.color, backgroundColor: `${def.color}1A` }}
+      title={registry.label(category)}
+    >
+      <CatIcon icon={def.icon} className="w-6 h-6" />
+    </span>
+  );
+});
+
+// Category picker shared by the bulk-change modals: active expense categories, then income ones
+export const CategoryPickerGrid: React.FC<{ onPick: (id: CategoryId) => void }> = ({ onPick }) => {
+  const registry = useCategories();
+  return (
+    <div className="space-y-3">
+      {(['expense', 'income'] as const).map(kind => (
+        <div key={kind}>
+          <p className="text-xs text-gray-500 mb-1">{kind === 'income' ? '收入' : '支出'}</p>
+          <div className="flex flex-wrap gap-2">
+            {registry.active(kind).map(c => (
+              <button
+                key={c.id}
+                onClick={() => onPick(c.id)}
+                className="rounded-full focus:outline-none focus:ring-2 focus:ring-blue-500"
+                title={`设为 ${registry.label(c.id)}`}
+                aria-label={`设为 ${registry.label(c.id)}`}
+              >
+                <CategoryBadge category={c.id} />
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
 
 
 type FlatItem =
-  | { type: 'header'; key: string; month: string }
+  | { type: 'header'; key: string; month: string; totals: Totals }
   | { type: 'item'; key: string; tx: Transaction };
 
+// Month totals are converted to the report currency
+const MonthTotals: React.FC<{ totals: Totals }> = ({ totals }) => {
+  const { format } = useCurrency();
+  return (
+    <span className="text-xs font-normal text-gray-500 whitespace-nowrap">
+      收入 <span className="font-mono text-green-600">{format(totals.income)}</span>
+      {' · '}支出 <span className="font-mono text-gray-700">{format(totals.expense)}</span>
+      {' · '}结余 <span className={`font-mono ${totals.net < 0 ? 'text-red-600' : 'text-gray-700'}`}>{format(totals.net)}</span>
+    </span>
+  );
+};
+
 const formatMonthLabel = (ym: string) => {
   try {
     return new Date(ym + '-01T00:00:00').toLocaleDateString('zh-CN', { year: 'numeric', month: 'long' });
@@ -65,27 +126,32 @@ const formatMonthLabel = (ym: string) => {
   }
 };
 
-export const TransactionList: React.FC<TransactionListProps> = ({ resetToken, transactions, onRecordClick, onAddClick, onEditClick, onDeleteClick, onBulkChangeCategory, onBulkDelete, onSelectModeChange }) => {
+export const TransactionList: React.FC<TransactionListProps> = ({ resetToken, transactions, onRecordClick, onTransferClick, onAddClick, onEditClick, onDeleteClick, onBulkChangeCategory, onBulkDelete, onSelectModeChange, anomalies }) => {
   const [query, setQuery] = useState('');
   const [sortByAddedTime, setSortByAddedTime] = useState(false);
+  const registry = useCategories();
+  const accounts = useAccounts();
+  const currency = useCurrency();
   const q = query.trim().toLowerCase();
   const filtered = useMemo(() => {
     if (!q) return transactions;
     return transactions.filter(t => {
       const name = (t.name || '').toLowerCase();
       const loc = (t.location || '').toLowerCase();
-      const cat = String(t.category || '').toLowerCase();
+      const cat = registry.label(t.category).toLowerCase();
+      const account = [t.accountId, t.toAccountId].filter(Boolean).map(id => accountName(accounts, id)).join(' ').toLowerCase();
       const date = (t.date || '').toLowerCase();
       const amount = String(t.amount || '');
       return (
         name.includes(q) ||
         loc.includes(q) ||
         cat.includes(q) ||
+        account.includes(q) ||
         date.includes(q) ||
         amount.includes(q)
       );
     });
-  }, [transactions, q]);
+  }, [transactions, q, registry, accounts]);
   const items = useMemo<FlatItem[]>(() => {
     // Build the flat list once; include month headers when not sorting by added time
     if (!sortByAddedTime) {
@@ -98,7 +164,7 @@ export const TransactionList: React.FC<TransactionListProps> = ({ resetToken, tr
       const sortedMonths = Array.from(groups.keys()).sort((a, b) => (a < b ? 1 : -1));
       const flat: FlatItem[] = [];
       for (const ym of sortedMonths) {
-        flat.push({ type: 'header', key: `h-${ym}`, month: ym });
+        flat.push({ type: 'header', key: `h-${ym}`, month: ym, totals: summarize(groups.get(ym)!, currency.toBase) });
         for (const t of groups.get(ym)!) {
           flat.push({ type: 'item', key: t.id, tx: t });
         }
@@ -114,11 +180,11 @@ export const TransactionList: React.FC<TransactionListProps> = ({ resetToken, tr
         return tb - ta;
       })
       .map(tx => ({ type: 'item', key: tx.id, tx }));
-  }, [filtered, sortByAddedTime]);
+  }, [filtered, sortByAddedTime, currency]);
 
   const getMobileItemSize = (index: number) => {
     const it = items[index];
-    if (it.type === 'header') return 36; // header row height
+    if (it.type === 'header') return 56; // header row height (label + totals line)
     // Card height tuned to avoid overlap in most cases
     return 100;
   };
@@ -170,6 +236,14 @@ export const TransactionList: React.FC<TransactionListProps> = ({ resetToken, tr
       return next;
     });
   };
+  // Transfers open their own detail view; everything else shows the history of that name
+  const openRecord = (t: Transaction) => {
+    if (t.direction === 'transfer' && onTransferClick) onTransferClick(t);
+    else openRecord(t);
+  };
+  const accountLabel = (t: Transaction) => t.direction === 'transfer'
+    ? `${accountName(accounts, t.accountId)} → ${accountName(accounts, t.toAccountId)}`
+    : t.accountId ? accountName(accounts, t.accountId) : '';
   const allVisibleIds = useMemo(() => filtered.map(t => t.id), [filtered]);
   const toggleAll = () => {
     setSelectedIds(prev => {
@@ -178,7 +252,7 @@ export const TransactionList: React.FC<TransactionListProps> = ({ resetToken, tr
     });
   };
   const exitSelectMode = () => { setSelectMode(false); setSelectedIds(new Set()); };
-  const confirmBulk = (cat: Category) => {
+  const confirmBulk = (cat: CategoryId) => {
     if (onBulkChangeCategory && selectedIds.size > 0) {
       onBulkChangeCategory(Array.from(selectedIds), cat);
     }
@@ -215,7 +289,10 @@ export const TransactionList: React.FC<TransactionListProps> = ({ resetToken, tr
     if (it.type === 'header') {
       return (
         <div style={style} className="px-0">
-          <div className="text-base font-semibold text-gray-700 px-1 py-2 text-center">{formatMonthLabel(it.month)}</div>
+          <div className="px-1 py-2 text-center">
+            <div className="text-base font-semibold text-gray-700">{formatMonthLabel(it.month)}</div>
+            <MonthTotals totals={it.totals} />
+          </div>
         </div>
       );
     }
@@ -224,7 +301,7 @@ export const TransactionList: React.FC<TransactionListProps> = ({ resetToken, tr
       if (selectMode) {
         toggleOne(t.id);
       } else {
-        onRecordClick(t.name);
+        openRecord(t);
       }
     };
     return (
@@ -245,6 +322,8 @@ export const TransactionList: React.FC<TransactionListProps> = ({ resetToken, tr
                 </div>
                 <div className="mt-1 text-xs text-gray-500 flex items-center gap-2">
                   <span>{t.date.replace('T', ' ')}</span>
+                  {anomalies?.get(t.id)?.map(a => <AnomalyBadge key={a.kind} anomaly={a} />)}
+                  {accountLabel(t) && <span className="truncate">{accountLabel(t)}</span>}
                 </div>
               </div>
               {t.location && (
@@ -255,7 +334,7 @@ export const TransactionList: React.FC<TransactionListProps> = ({ resetToken, tr
               )}
             </div>
             <div className="flex flex-col items-end gap-2">
-              <span className="font-mono font-semibold text-gray-900">¥{t.amount.toFixed(2)}</span>
+              <AmountText tx={t} className="font-semibold" />
               {!selectMode ? (
                 <button
                   onClick={(e) => { e.stopPropagation(); onEditClick(t); }}
@@ -295,8 +374,9 @@ export const TransactionList: React.FC<TransactionListProps> = ({ resetToken, tr
     if (it.type === 'header') {
       return (
         <div style={style} className="bg-gray-50">
-          <div className="px-6 py-3 text-sm md:text-base font-semibold text-gray-700 text-center">
-            {formatMonthLabel(it.month)}
+          <div className="px-6 py-3 flex items-baseline justify-between gap-4">
+            <span className="text-sm md:text-base font-semibold text-gray-700">{formatMonthLabel(it.month)}</span>
+            <MonthTotals totals={it.totals} />
           </div>
         </div>
       );
@@ -307,26 +387,31 @@ export const TransactionList: React.FC<TransactionListProps> = ({ resetToken, tr
         <div className="grid grid-cols-[45%_7rem_11rem_8rem_7rem] items-center">
           <div
             className="px-6 py-3 font-medium text-gray-900 cursor-pointer align-top min-w-0"
-            onClick={() => onRecordClick(t.name)}
+            onClick={() => openRecord(t)}
             title="点击查看此项目的所有记录"
           >
             <div className="flex items-start gap-3 min-w-0">
               <LeadingCat category={t.category} />
               <div className="min-w-0">
-                <div className="truncate" title={t.name}>{t.name}</div>
-                {t.location && <div className="text-xs text-gray-500 truncate" title={t.location}>{t.location}</div>}
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="truncate" title={t.name}>{t.name}</span>
+                  {anomalies?.get(t.id)?.map(a => <AnomalyBadge key={a.kind} anomaly={a} />)}
+                </div>
+                {(t.location || accountLabel(t)) && (
+                  <div className="text-xs text-gray-500 truncate">{[t.location, accountLabel(t)].filter(Boolean).join(' · ')}</div>
+                )}
                 {sortByAddedTime && t.addedAt && (
                   <div className="text-xs text-gray-400">添加于 {new Date(t.addedAt).toLocaleString()}</div>
                 )}
               </div>
             </div>
           </div>
-          <div className="px-6 py-3 cursor-pointer" onClick={() => onRecordClick(t.name)}>
+          <div className="px-6 py-3 cursor-pointer" onClick={() => openRecord(t)}>
             <LeadingCat category={t.category} />
           </div>
-          <div className="px-6 py-3 whitespace-nowrap cursor-pointer" onClick={() => onRecordClick(t.name)}>{t.date.replace('T', ' ')}</div>
-          <div className="px-6 py-3 text-right font-mono text-gray-900 cursor-pointer" onClick={() => onRecordClick(t.name)}>
-            ¥{t.amount.toFixed(2)}
+          <div className="px-6 py-3 whitespace-nowrap cursor-pointer" onClick={() => openRecord(t)}>{t.date.replace('T', ' ')}</div>
+          <div className="px-6 py-3 text-right cursor-pointer" onClick={() => openRecord(t)}>
+            <AmountText tx={t} />
           </div>
           <div className="px-6 py-3 text-center">
             {selectMode ? (
@@ -537,19 +622,7 @@ export const TransactionList: React.FC<TransactionListProps> = ({ resetToken, tr
               <p className="text-sm text-gray-500 mt-0.5">已选 {selectedIds.size} 项</p>
             </div>
             <div className="p-4">
-              <div className="flex flex-wrap gap-2">
-                {(Object.values(Category) as Category[]).map(cat => (
-                  <button
-                    key={cat}
-                    onClick={() => confirmBulk(cat)}
-                    className="rounded-full focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    title={`设为 ${cat}`}
-                    aria-label={`设为 ${cat}`}
-                  >
-                    <CategoryBadge category={cat} />
-                  </button>
-                ))}
-              </div>
+              <CategoryPickerGrid onPick={confirmBulk} />
             </div>
             <div className="px-4 py-3 border-t border-gray-200 flex justify-end">
               <button onClick={() => setShowBulkModal(false)} className="px-3 py-1.5 rounded-md border border-gray-300 text-sm">取消</button>
@@ -0,0 +1,110 @@
+import React from 'react';
+import { Account, Transaction } from '../types';
+import { ACCOUNT_TYPE_COLORS, ACCOUNT_TYPE_LABELS } from '../constants';
+import { XIcon, PencilIcon, TrashIcon } from './icons';
+import { useAccounts } from '../utils/accounts';
+import { formatMoney } from '../utils/currency';
+
+interface TransferDetailModalProps {
+  transaction: Transaction;
+  onClose: () => void;
+  onEdit: (transaction: Transaction) => void;
+  onDelete: (transactionId: string) => void;
+}
+
+// One side of the transfer: the account and how its balance changes
+const TransferSide: React.FC<{ label: string; account?: Account; delta: number; currency: string }> = ({ label, account, delta, currency }) => {
+  const color = account ? ACCOUNT_TYPE_COLORS[account.type] : '#9CA3AF';
+  return (
+    <div className="flex-1 min-w-0 rounded-lg border border-gray-200 p-3 text-center">
+      <p className="text-xs text-gray-500">{label}</p>
+      <span
+        className="mx-auto mt-2 inline-flex items-center justify-center w-10 h-10 rounded-full text-sm font-semibold"
+        style={{ color, backgroundColor: `${color}1A` }}
+      >
+        {(account?.name || '?').slice(0, 1)}
+      </span>
+      <p className="mt-1 font-medium text-gray-900 truncate" title={account?.name}>{account?.name || '未知账户'}</p>
+      {account && <p className="text-xs text-gray-400">{ACCOUNT_TYPE_LABELS[account.type]}</p>}
+      <p className={`mt-2 font-mono font-semibold ${delta < 0 ? 'text-gray-900' : 'text-green-600'}`}>
+        {formatMoney(delta, currency, true)}
+      </p>
+    </div>
+  );
+};
+
+export const TransferDetailModal: React.FC<TransferDetailModalProps> = ({ transaction, onClose, onEdit, onDelete }) => {
+  const accounts = useAccounts();
+  const from = accounts.find(a => a.id === transaction.accountId);
+  const to = accounts.find(a => a.id === transaction.toAccountId);
+
+  const handleDelete = () => {
+    if (confirm('删除这笔转账？两个账户的余额都会恢复。')) {
+      onDelete(transaction.id);
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+      style={{ animation: 'fadeIn 0.2s ease-out' }}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-md transform transition-all"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-gray-200 flex justify-between items-center">
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-gray-900">转账详情</h3>
+            <p className="text-sm text-gray-500 truncate" title={transaction.name}>{transaction.name}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 rounded-full p-1 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            aria-label="关闭"
+          >
+            <XIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="flex items-center gap-3">
+            <TransferSide label="转出" account={from} delta={-transaction.amount} currency={transaction.currency} />
+            <span className="text-2xl text-gray-300" aria-hidden="true">→</span>
+            <TransferSide label="转入" account={to} delta={transaction.amount} currency={transaction.currency} />
+          </div>
+          <dl className="text-sm divide-y divide-gray-100">
+            <div className="py-2 flex justify-between">
+              <dt className="text-gray-500">金额</dt>
+              <dd className="font-mono font-semibold text-blue-600">{formatMoney(transaction.amount, transaction.currency)}</dd>
+            </div>
+            <div className="py-2 flex justify-between">
+              <dt className="text-gray-500">时间</dt>
+              <dd className="text-gray-900">{transaction.date.replace('T', ' ')}</dd>
+            </div>
+            {transaction.location && (
+              <div className="py-2 flex justify-between">
+                <dt className="text-gray-500">地点</dt>
+                <dd className="text-gray-900 truncate">{transaction.location}</dd>
+              </div>
+            )}
+          </dl>
+          <p className="text-xs text-gray-400">转账只在账户之间移动资金，不计入收入或支出。</p>
+        </div>
+
+        <div className="p-4 bg-gray-50 rounded-b-xl flex justify-end gap-2">
+          <button onClick={handleDelete} className="inline-flex items-center gap-1 px-3 py-1.5 rounded-md border border-gray-300 text-sm text-red-600">
+            <TrashIcon className="w-4 h-4" />删除
+          </button>
+          <button onClick={() => onEdit(transaction)} className="inline-flex items-center gap-1 px-3 py-1.5 rounded-md bg-blue-600 text-white text-sm">
+            <PencilIcon className="w-4 h-4" />编辑
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
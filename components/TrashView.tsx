@@ -1,6 +1,6 @@
 import React from 'react';
 import { DeletedItem, Transaction } from '../types';
-import { CategoryBadge, LeadingCat } from './TransactionList';
+import { CategoryBadge, LeadingCat, AmountText } from './TransactionList';
 import { ChevronLeftIcon } from './icons';
 
 interface TrashViewProps {
@@ -40,7 +40,7 @@ export const TrashView: React.FC<TrashViewProps> = ({ items, onBack, onRestore }
                 </div>
               </div>
               <div className="shrink-0 text-right flex flex-col items-end gap-2">
-                <span className="font-mono font-semibold text-gray-900">¥{tx.amount.toFixed(2)}</span>
+                <AmountText tx={tx} className="font-semibold" />
                 <button
                   onClick={() => onRestore(tx)}
                   className="text-green-700 hover:text-green-800 p-1.5 rounded-md active:bg-green-50 border border-green-200"
@@ -0,0 +1,202 @@
+import React, { useMemo, useState } from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, Tooltip, Legend, CartesianGrid, ResponsiveContainer } from 'recharts';
+import { CategoryId, Transaction } from '../types';
+import { ChevronLeftIcon } from './icons';
+import { CATEGORY_PALETTE } from '../constants';
+import { addMonths } from '../utils/helpers';
+import { useCategories } from '../utils/categories';
+import { useCurrency } from '../utils/currency';
+import { TrendPreset, monthsBetween, relativeChange, spendingMatrix, spentIn } from '../utils/trends';
+
+interface TrendsViewProps {
+  transactions: Transaction[];
+  onBack: () => void;
+}
+
+type RangeChoice = TrendPreset | 'custom';
+
+const RANGE_LABELS: [RangeChoice, string][] = [[6, '近 6 个月'], [12, '近 12 个月'], [24, '近 24 个月'], ['custom', '自定义']];
+
+const TOTAL_KEY = '__total';
+
+const shortMonth = (ym: string) => `${ym.slice(2, 4)}/${ym.slice(5)}`;
+
+// Spending going up is shown in red, going down in green
+const Change: React.FC<{ value: number | null }> = ({ value }) => {
+  if (value === null) return <span className="text-gray-400">—</span>;
+  const pct = `${value > 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+  return <span className={value > 0 ? 'text-red-600' : value < 0 ? 'text-green-600' : 'text-gray-500'}>{pct}</span>;
+};
+
+export const TrendsView: React.FC<TrendsViewProps> = ({ transactions, onBack }) => {
+  const registry = useCategories();
+  const currency = useCurrency();
+  const thisMonth = new Date().toISOString().slice(0, 7);
+  const [range, setRange] = useState<RangeChoice>(6);
+  const [customFrom, setCustomFrom] = useState(addMonths(thisMonth, -11));
+  const [customTo, setCustomTo] = useState(thisMonth);
+  // Top-level category whose subcategories are shown; undefined for all categories
+  const [focus, setFocus] = useState<CategoryId | undefined>();
+
+  const months = useMemo(() => {
+    if (range !== 'custom') return monthsBetween(addMonths(thisMonth, 1 - range), thisMonth);
+    return customFrom <= customTo ? monthsBetween(customFrom, customTo) : monthsBetween(customTo, customFrom);
+  }, [range, customFrom, customTo, thisMonth]);
+  const lastMonth = months[months.length - 1];
+
+  // Built over all records so the first months of the range still have a previous month and year
+  const matrix = useMemo(() => spendingMatrix(transactions, registry, currency.toBase, focus), [transactions, registry, currency, focus]);
+
+  // Categories with spending in the range, largest first; subcategories get palette colors when they share one
+  const series = useMemo(() => {
+    const totals = new Map<CategoryId, number>();
+    months.forEach(m => matrix.get(m)?.forEach((_, id) => totals.set(id, (totals.get(id) || 0) + spentIn(matrix, m, id))));
+    const used = new Set<string>();
+    return Array.from(totals)
+      .filter(([, total]) => total > 0)
+      .sort((a, b) => b[1] - a[1])
+      .map(([id, total], i) => {
+        const def = registry.get(id);
+        const color = used.has(def.color) ? CATEGORY_PALETTE[i % CATEGORY_PALETTE.length] : def.color;
+        used.add(color);
+        const name = focus && id === focus ? `${def.name}（未细分）` : focus ? def.name : registry.label(id);
+        return { id, name, color, total };
+      });
+  }, [months, matrix, registry, focus]);
+
+  const data = useMemo(() => months.map(m => {
+    const row: Record<string, string | number> = { month: shortMonth(m), [TOTAL_KEY]: spentIn(matrix, m) };
+    series.forEach(s => { row[s.id] = spentIn(matrix, m, s.id); });
+    return row;
+  }), [months, matrix, series]);
+
+  const rangeTotal = series.reduce((sum, s) => sum + s.total, 0);
+  const lastTotal = spentIn(matrix, lastMonth);
+  const mom = relativeChange(lastTotal, spentIn(matrix, addMonths(lastMonth, -1)));
+  const yoy = relativeChange(lastTotal, spentIn(matrix, addMonths(lastMonth, -12)));
+  const monthLabel = (ym: string) => new Date(ym + '-01T00:00:00').toLocaleDateString('zh-CN', { month: 'long', year: 'numeric' });
+  const hasChildren = (id: CategoryId) => registry.children(id).length > 0;
+
+  const inputCls = 'block rounded-md border border-gray-300 px-2 py-1.5 text-sm bg-white';
+
+  return (
+    <div className="md:bg-white md:p-6 p-0 md:rounded-xl md:shadow-md">
+      <div className="flex items-center gap-2 mb-4">
+        <button onClick={focus ? () => setFocus(undefined) : onBack} className="p-2 rounded-md border border-gray-200 hover:bg-gray-50" title={focus ? '返回全部分类' : '返回'}>
+          <ChevronLeftIcon className="w-5 h-5" />
+        </button>
+        <h2 className="text-lg md:text-xl font-semibold text-gray-800 flex-1 truncate">
+          {focus ? `${registry.get(focus).name}支出趋势` : '支出趋势'}
+        </h2>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {RANGE_LABELS.map(([value, label]) => (
+          <button
+            key={value}
+            onClick={() => setRange(value)}
+            className={`px-3 py-1 rounded-full text-sm border ${range === value ? 'bg-blue-50 border-blue-300 text-blue-700' : 'border-gray-200 text-gray-600'}`}
+          >{label}</button>
+        ))}
+        {range === 'custom' && (
+          <div className="flex items-center gap-2">
+            <input type="month" value={customFrom} max={thisMonth} onChange={e => e.target.value && setCustomFrom(e.target.value)} className={inputCls} />
+            <span className="text-gray-400">至</span>
+            <input type="month" value={customTo} max={thisMonth} onChange={e => e.target.value && setCustomTo(e.target.value)} className={inputCls} />
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-4 text-center">
+        <div className="rounded-lg bg-gray-50 py-2">
+          <p className="text-xs text-gray-500">{monthLabel(lastMonth)}</p>
+          <p className="font-mono font-semibold text-gray-800">{currency.format(lastTotal)}</p>
+        </div>
+        <div className="rounded-lg bg-gray-50 py-2">
+          <p className="text-xs text-gray-500">环比</p>
+          <p className="font-semibold"><Change value={mom} /></p>
+        </div>
+        <div className="rounded-lg bg-gray-50 py-2">
+          <p className="text-xs text-gray-500">同比</p>
+          <p className="font-semibold"><Change value={yoy} /></p>
+        </div>
+      </div>
+
+      {series.length > 0 ? (
+        <div className="-mx-4 md:mx-0">
+          <ResponsiveContainer width="100%" height={320}>
+            <ComposedChart data={data} margin={{ top: 8, right: 16, bottom: 0, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#E5E7EB" />
+              <XAxis dataKey="month" tick={{ fontSize: 12 }} interval="preserveStartEnd" />
+              <YAxis tick={{ fontSize: 12 }} width={56} tickFormatter={(v: number) => (v >= 10000 ? `${(v / 10000).toFixed(1)}万` : String(Math.round(v)))} />
+              <Tooltip formatter={(value: number, name: string) => [currency.format(value), name]} />
+              <Legend wrapperStyle={{ fontSize: 12 }} />
+              {series.map(s => (
+                <Bar
+                  key={s.id}
+                  dataKey={s.id}
+                  name={s.name}
+                  stackId="spending"
+                  fill={s.color}
+                  onClick={() => !focus && hasChildren(s.id) && setFocus(s.id)}
+                  cursor={!focus && hasChildren(s.id) ? 'pointer' : undefined}
+                />
+              ))}
+              <Line type="monotone" dataKey={TOTAL_KEY} name="合计" stroke="#1F2937" strokeWidth={2} dot={{ r: 2 }} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <div className="h-[200px] flex items-center justify-center text-gray-500">
+          <p>所选区间没有支出</p>
+        </div>
+      )}
+
+      {series.length > 0 && (
+        <div className="mt-4 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 border-b border-gray-200">
+                <th className="py-1.5 text-left font-normal">分类</th>
+                <th className="py-1.5 text-right font-normal">{shortMonth(lastMonth)}</th>
+                <th className="py-1.5 text-right font-normal">环比</th>
+                <th className="py-1.5 text-right font-normal">同比</th>
+                <th className="py-1.5 text-right font-normal">月均</th>
+                <th className="py-1.5 text-right font-normal">占比</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {series.map(s => {
+                const current = spentIn(matrix, lastMonth, s.id);
+                const drillable = !focus && hasChildren(s.id);
+                return (
+                  <tr key={s.id}>
+                    <td className="py-1.5">
+                      <button
+                        onClick={() => drillable && setFocus(s.id)}
+                        disabled={!drillable}
+                        className="flex items-center gap-2 text-left disabled:cursor-default"
+                        title={drillable ? '查看子分类' : undefined}
+                      >
+                        <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: s.color }} />
+                        <span className={drillable ? 'text-blue-700' : 'text-gray-800'}>{s.name}</span>
+                      </button>
+                    </td>
+                    <td className="py-1.5 text-right font-mono">{currency.format(current)}</td>
+                    <td className="py-1.5 text-right"><Change value={relativeChange(current, spentIn(matrix, addMonths(lastMonth, -1), s.id))} /></td>
+                    <td className="py-1.5 text-right"><Change value={relativeChange(current, spentIn(matrix, addMonths(lastMonth, -12), s.id))} /></td>
+                    <td className="py-1.5 text-right font-mono text-gray-600">{currency.format(s.total / months.length)}</td>
+                    <td className="py-1.5 text-right text-gray-500">{rangeTotal > 0 ? `${((s.total / rangeTotal) * 100).toFixed(1)}%` : ''}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-gray-400">
+            环比对比上月，同比对比去年同月，均以区间最后一个月计算。{!focus && '点击蓝色分类查看子分类。'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
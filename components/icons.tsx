@@ -105,7 +105,6 @@ export const BarsArrowDownIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props
 );
 
 // Category icons
-import { Category } from '../types';
 export const FoodIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
   <svg fill="#000000" stroke="currentColor" strokeWidth="1.5" {...props} version="1.1" id="Capa_1" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 511 511" xml:space="preserve"><g id="SVGRepo_bgCarrier" stroke-width="0"></g><g id="SVGRepo_tracerCarrier" stroke-linecap="round" stroke-linejoin="round"></g><g id="SVGRepo_iconCarrier"> <g> <path d="M307.252,38.003C293.119,13.497,274.74,0,255.5,0C215.233,0,184,59.938,184,111.5c0,25.575,13.824,49.35,36.077,62.049 c10.32,5.889,16.646,18.063,16.118,31.013l-11.21,274.653c-0.342,8.387,2.671,16.34,8.484,22.395 c5.813,6.055,13.638,9.39,22.032,9.39c8.394,0,16.218-3.334,22.031-9.39s8.826-14.009,8.484-22.396l-11.21-274.653 c-0.528-12.95,5.798-25.124,16.118-31.013C313.176,160.85,327,137.075,327,111.5C327,86.921,319.618,59.446,307.252,38.003z M266.711,491.222c-2.958,3.082-6.94,4.778-11.211,4.778c-4.271,0-8.252-1.697-11.21-4.778s-4.491-7.128-4.317-11.396L247.843,287 h15.314l7.871,192.826C271.202,484.094,269.668,488.141,266.711,491.222z M283.488,160.521 c-15.367,8.77-24.438,25.879-23.671,44.653L262.545,272h-14.09l2.728-66.827c0.767-18.773-8.304-35.883-23.671-44.653 C209.925,150.485,199,131.702,199,111.5c0-22.064,6.633-46.739,17.742-66.003C227.919,26.116,242.046,15,255.5,15 s27.581,11.116,38.758,30.497C305.367,64.761,312,89.436,312,111.5C312,131.702,301.075,150.485,283.488,160.521z"></path> <path d="M267.553,48.663c-3.519,2.185-4.6,6.809-2.415,10.328C274.444,73.978,280,93.607,280,111.5 c0,8.739-4.74,16.873-12.372,21.228c-3.598,2.053-4.85,6.634-2.797,10.231c1.384,2.425,3.916,3.784,6.521,3.784 c1.26,0,2.538-0.318,3.71-0.987C287.36,138.738,295,125.612,295,111.5c0-29.652-11.972-52.133-17.119-60.422 C275.696,47.559,271.072,46.478,267.553,48.663z"></path> </g> </g></svg>
 );
@@ -166,17 +165,98 @@ export const OtherIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
   </svg>
 );
 
-export const CatIcon: React.FC<{ cat: Category; className?: string }> = ({ cat, className }) => {
-  const cls = className || 'w-6 h-6';
-  switch (cat) {
-    case Category.Food: return <FoodIcon className={cls} />;
-    case Category.Transport: return <TransportIcon className={cls} />;
-    case Category.Shopping: return <ShoppingIcon className={cls} />;
-    case Category.Entertainment: return <EntertainmentIcon className={cls} />;
-    case Category.Home: return <HomeIcon className={cls} />;
-    case Category.Medical: return <MedicalIcon className={cls} />;
-    case Category.Education: return <EducationIcon className={cls} />;
-    case Category.Transfer: return <TransferIcon className={cls} />;
-    default: return <OtherIcon className={cls} />;
-  }
+export const PetIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" {...props}>
+    <circle cx="6" cy="10" r="1.75" />
+    <circle cx="10" cy="6.5" r="1.75" />
+    <circle cx="14" cy="6.5" r="1.75" />
+    <circle cx="18" cy="10" r="1.75" />
+    <path strokeLinecap="round" strokeLinejoin="round" d="M12 12c-2.5 0-5 3-5 5.5 0 1.5 1.2 2.5 2.5 2.5.9 0 1.6-.5 2.5-.5s1.6.5 2.5.5c1.3 0 2.5-1 2.5-2.5 0-2.5-2.5-5.5-5-5.5Z" />
+  </svg>
+);
+
+export const SubscriptionIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" {...props}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M16.023 9.348h4.992V4.356M2.985 19.644v-4.992h4.992m-4.993 0 3.181 3.183a8.25 8.25 0 0 0 13.803-3.7M4.031 9.865a8.25 8.25 0 0 1 13.803-3.7l3.181 3.182" />
+  </svg>
+);
+
+export const KeyIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" {...props}>
+    <circle cx="8" cy="15" r="4" />
+    <path strokeLinecap="round" strokeLinejoin="round" d="m11 12 8-8m-3 3 2 2m-4 0 1.5 1.5" />
+  </svg>
+);
+
+export const BoltIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" {...props}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="m3.75 13.5 10.5-11.25L12 10.5h8.25L9.75 21.75 12 13.5H3.75Z" />
+  </svg>
+);
+
+export const PlaneIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" {...props}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M6 12 3.27 3.13A59.77 59.77 0 0 1 21.49 12 59.77 59.77 0 0 1 3.27 20.88L6 12Zm0 0h7.5" />
+  </svg>
+);
+
+export const PhoneIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" {...props}>
+    <rect x="7" y="2.5" width="10" height="19" rx="2" />
+    <path d="M11 18h2" />
+  </svg>
+);
+
+export const SalaryIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" {...props}>
+    <rect x="2.5" y="6" width="19" height="12" rx="1.5" />
+    <circle cx="12" cy="12" r="2.5" />
+    <path d="M5.5 9v.01M18.5 15v.01" />
+  </svg>
+);
+
+export const StarIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" {...props}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="m12 3 2.6 5.6 6.1.7-4.5 4.2 1.2 6L12 16.5 6.6 19.5l1.2-6L3.3 9.3l6.1-.7L12 3Z" />
+  </svg>
+);
+
+export const InvestmentIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" {...props}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M3 19.5h18M5 15l4.5-4.5 3.5 3.5L20 7m0 0h-4.5M20 7v4.5" />
+  </svg>
+);
+
+export const GiftIcon: React.FC<React.SVGProps<SVGSVGElement>> = (props) => (
+  <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" {...props}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M3.5 8.5h17v3.5h-17zM5 12v8.5h14V12M12 8.5v12M12 8.5C10.5 5 7 4.5 7 6.5s3 2 5 2Zm0 0c1.5-3.5 5-4 5-2s-3 2-5 2Z" />
+  </svg>
+);
+
+// Icons selectable for categories, keyed by the value stored in CategoryDef.icon
+export const CATEGORY_ICONS: Record<string, React.FC<React.SVGProps<SVGSVGElement>>> = {
+  food: FoodIcon,
+  transport: TransportIcon,
+  shopping: ShoppingIcon,
+  entertainment: EntertainmentIcon,
+  home: HomeIcon,
+  medical: MedicalIcon,
+  education: EducationIcon,
+  transfer: TransferIcon,
+  pet: PetIcon,
+  subscription: SubscriptionIcon,
+  rent: KeyIcon,
+  utilities: BoltIcon,
+  travel: PlaneIcon,
+  phone: PhoneIcon,
+  salary: SalaryIcon,
+  star: StarIcon,
+  investment: InvestmentIcon,
+  gift: GiftIcon,
+  other: OtherIcon,
+};
+
+export const CatIcon: React.FC<{ icon: string; className?: string }> = ({ icon, className }) => {
+  const Icon = CATEGORY_ICONS[icon] || OtherIcon;
+  return <Icon className={className || 'w-6 h-6'} />;
 };
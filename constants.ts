@@ -1,4 +1,4 @@
-import { Category } from './types';
+import { Account, AccountType, Category, CategoryDef, CategoryKind, CategoryMapping, CategoryRule, Direction, ExchangeRate, LedgerApp, Merchant } from './types';
 
 export const CATEGORIES: Category[] = [
   Category.Food,
@@ -12,6 +12,48 @@ export const CATEGORIES: Category[] = [
   Category.Other,
 ];
 
+export const INCOME_CATEGORIES: Category[] = [
+  Category.Salary,
+  Category.Bonus,
+  Category.Investment,
+  Category.Gift,
+  Category.OtherIncome,
+];
+
+export const DIRECTION_LABELS: { [key in Direction]: string } = {
+  expense: '支出',
+  income: '收入',
+  refund: '退款',
+  transfer: '转账',
+};
+
+export const ACCOUNT_TYPE_LABELS: { [key in AccountType]: string } = {
+  cash: '现金',
+  alipay: '支付宝',
+  wechat: '微信支付',
+  debit: '储蓄卡',
+  credit: '信用卡',
+  other: '其他',
+};
+
+export const ACCOUNT_TYPE_COLORS: { [key in AccountType]: string } = {
+  cash: '#F59E0B',   // Amber 500
+  alipay: '#1677FF', // Alipay blue
+  wechat: '#07C160', // WeChat green
+  debit: '#6366F1',  // Indigo 500
+  credit: '#EF4444', // Red 500
+  other: '#9CA3AF',  // Gray 400
+};
+
+// Seeded on first run; users can rename, archive or add their own
+export const DEFAULT_ACCOUNTS: Account[] = (['cash', 'alipay', 'wechat', 'debit', 'credit'] as AccountType[]).map((type, i) => ({
+  id: `acc-${type}`,
+  name: ACCOUNT_TYPE_LABELS[type],
+  type,
+  openingBalance: 0,
+  order: i,
+}));
+
 export const CATEGORY_COLORS: { [key in Category]: string } = {
   [Category.Food]: '#FB923C',      // Orange 400
   [Category.Transport]: '#60A5FA', // Blue 400
@@ -22,4 +64,244 @@ export const CATEGORY_COLORS: { [key in Category]: string } = {
   [Category.Education]: '#8B5CF6',  // Violet 500
   [Category.Transfer]: '#2DD4BF',  // Teal 400
   [Category.Other]: '#9CA3AF',     // Gray 400
-};
\ No newline at end of file
+  [Category.Salary]: '#22C55E',    // Green 500
+  [Category.Bonus]: '#84CC16',     // Lime 500
+  [Category.Investment]: '#0EA5E9', // Sky 500
+  [Category.Gift]: '#F43F5E',      // Rose 500
+  [Category.OtherIncome]: '#10B981', // Emerald 500
+};
+
+const BUILTIN_ICONS: { [key in Category]: string } = {
+  [Category.Food]: 'food',
+  [Category.Transport]: 'transport',
+  [Category.Shopping]: 'shopping',
+  [Category.Entertainment]: 'entertainment',
+  [Category.Home]: 'home',
+  [Category.Medical]: 'medical',
+  [Category.Education]: 'education',
+  [Category.Transfer]: 'transfer',
+  [Category.Other]: 'other',
+  [Category.Salary]: 'salary',
+  [Category.Bonus]: 'star',
+  [Category.Investment]: 'investment',
+  [Category.Gift]: 'gift',
+  [Category.OtherIncome]: 'other',
+};
+
+// Seed of the category registry; built-in IDs equal their original names
+export const DEFAULT_CATEGORIES: CategoryDef[] = [
+  ...CATEGORIES.map((id, i): CategoryDef => ({
+    id, name: id, kind: 'expense', color: CATEGORY_COLORS[id], icon: BUILTIN_ICONS[id], builtin: true, order: i,
+  })),
+  ...INCOME_CATEGORIES.map((id, i): CategoryDef => ({
+    id, name: id, kind: 'income', color: CATEGORY_COLORS[id], icon: BUILTIN_ICONS[id], builtin: true, order: 100 + i,
+  })),
+];
+
+// Fallbacks used when a recognizer or import cannot place a record; they cannot be archived
+export const FALLBACK_CATEGORIES: { [key in 'expense' | 'income']: Category } = {
+  expense: Category.Other,
+  income: Category.OtherIncome,
+};
+
+export const CATEGORY_PALETTE: string[] = [
+  '#FB923C', '#FBBF24', '#A3E635', '#34D399', '#2DD4BF', '#60A5FA',
+  '#818CF8', '#C084FC', '#F472B6', '#F43F5E', '#9CA3AF', '#78716C',
+];
+
+export const DEFAULT_CURRENCY = 'CNY';
+
+export const CURRENCY_NAMES: { [code: string]: string } = {
+  CNY: '人民币',
+  JPY: '日元',
+  USD: '美元',
+  EUR: '欧元',
+  HKD: '港币',
+  TWD: '新台币',
+  KRW: '韩元',
+  GBP: '英镑',
+};
+
+// Approximate starting values; users keep them up to date in settings
+export const DEFAULT_RATES: ExchangeRate[] = [
+  { currency: 'JPY', rate: 0.048, updatedAt: '2024-01-01' },
+  { currency: 'USD', rate: 7.1, updatedAt: '2024-01-01' },
+  { currency: 'EUR', rate: 7.8, updatedAt: '2024-01-01' },
+  { currency: 'HKD', rate: 0.91, updatedAt: '2024-01-01' },
+  { currency: 'TWD', rate: 0.23, updatedAt: '2024-01-01' },
+  { currency: 'KRW', rate: 0.0054, updatedAt: '2024-01-01' },
+  { currency: 'GBP', rate: 9.0, updatedAt: '2024-01-01' },
+];
+
+// The merchant heuristics recognition used to apply, as editable rules (first match wins)
+export const DEFAULT_RULES: CategoryRule[] = [
+  {
+    id: 'rule-pharmacy',
+    name: '药店',
+    category: Category.Medical,
+    pattern: [
+      String.raw`药店|藥店|药房|藥房|医药|醫藥|大药房|大藥房`,
+      String.raw`薬局|ドラッグストア|調剤|ドラッグ|ドラッグス`,
+      String.raw`マツモトキヨシ|松本清|matsumoto\s*kiyoshi`,
+      String.raw`ウエルシア|welcia|スギ薬局|sugi|ツルハドラッグ|tsuruha`,
+      String.raw`サンドラッグ|sun\s*drug|sundrug|ココカラファイン|cocokara`,
+      String.raw`クリエイトsd|create\s*sd|カワチ薬品|kawachi`,
+      String.raw`老百姓|同仁堂|一心堂|大参林|益丰|益豐|海王`,
+      String.raw`pharmacy|drug\s*store`,
+    ].join('|'),
+  },
+  {
+    id: 'rule-convenience',
+    name: '便利店',
+    category: Category.Food,
+    pattern: [
+      String.raw`便利店|便利商店|便利超市|便利門店|便利门店`,
+      String.raw`7\s*-?\s*11|seven\s*-?\s*eleven|7\s*eleven`,
+      String.raw`family\s*mart|全家|lawson|罗森|羅森|mini\s*stop|ミニストップ`,
+      String.raw`ok便利|c-?store|喜士多|美宜佳|天福便利|today便利|易捷|usmile`,
+      String.raw`コンビニ|セブン|セブン[-‐]イレブン|ファミマ|ファミリーマート|ローソン|デイリーヤマザキ|seicomart|セイコーマート|ポプラ|new\s*days`,
+    ].join('|'),
+  },
+  {
+    id: 'rule-supermarket',
+    name: '超市',
+    category: Category.Food,
+    pattern: [
+      String.raw`超市|生鲜|生鮮|食品館|食品馆|スーパー|業務スーパー|マート|マーケット|market`,
+      String.raw`家乐福|家樂福|carrefour|沃尔玛|沃爾瑪|walmart|大润发|大潤發|rt[-\s]?mart`,
+      String.raw`物美|永辉|永輝|华润万家|華潤萬家|vanguard|世纪联华|世紀聯華|联华|聯華|lianhua`,
+      String.raw`欧尚|歐尚|auchan|麦德龙|麥德龍|metro\s*(cash|)\b|山姆|sam'?s\s*club|sam\s*club`,
+      String.raw`盒马|盒馬|hema|freshippo|成城石井|ole'?\b`,
+      String.raw`永旺|aeon(\s*mall)?|イオン|イオンスタイル|イオンフード|イオンフードスタイル|イオンスーパー`,
+      String.raw`西友|seiyu|イトーヨーカドー|伊藤洋华堂|伊藤洋華堂|ito[-\s]?yokado`,
+      String.raw`ライフ|life\s*super|サミット|summit\s*store|マルエツ|maruetsu|コープ|生協|coop`,
+      String.raw`オーケー|ok\s*store|ＯＫ\s*ストア|ビッグエー|big\s*-?\s*a|まいばすけっと|mybasket`,
+    ].join('|'),
+  },
+  {
+    id: 'rule-department',
+    name: '百货店',
+    category: Category.Food,
+    pattern: [
+      String.raw`百货|百貨|百貨店|デパート|デパートメント`,
+      String.raw`髙?島屋|takashimaya|三越|mitsukoshi|伊勢丹|isetan|そごう|sogo|西武|seibu`,
+      String.raw`阪急|hankyu|阪神|hanshin|大丸|daimaru|松坂屋|matsuzakaya|0101|丸井|marui`,
+      String.raw`银泰|銀泰|intime|東急\s*(department|百貨)`,
+    ].join('|'),
+  },
+  {
+    id: 'rule-mall',
+    name: '商场',
+    category: Category.Shopping,
+    pattern: [
+      String.raw`购物中心|購物中心|商场|商場|广场|廣場|mall|plaza|アウトレット|ショッピング|ショッピングモール|ショッピングセンター|モール`,
+      String.raw`万达|wanda|万象城|the\s*mixc|mixc|大悦城|龙湖天街|天街|恒隆|hanglung`,
+      String.raw`太古|swire|taikoo|来福士|來福士|raffles|凯德|capita\s*mall|ifs|国金|國金`,
+      String.raw`吾悦|新城控股|宝龙|寶龍|powerlong|イオンモール|aeon\s*mall|parco|パルコ`,
+      String.raw`ヨドバシ|yodobashi|bic\s*camera|ビックカメラ|ドン[・･.]?キホーテ|don\s*quijote|donki|ちいかわ|chiikawa`,
+    ].join('|'),
+  },
+].map((r, order): CategoryRule => ({ ...r, field: 'name', mode: 'regex', enabled: true, order, builtin: true }));
+
+// Chains that commonly appear under several spellings on receipts
+export const DEFAULT_MERCHANTS: Merchant[] = [
+  { id: 'm-seven-eleven', name: '7-Eleven', aliases: ['7-11', '711', 'seven eleven', 'seven-eleven', 'セブン-イレブン', 'セブンイレブン', '7-11便利店'] },
+  { id: 'm-familymart', name: '全家', aliases: ['familymart', 'family mart', 'ファミリーマート', 'ファミマ', '全家便利店'] },
+  { id: 'm-lawson', name: '罗森', aliases: ['lawson', 'ローソン', '羅森', '罗森便利店'] },
+  { id: 'm-starbucks', name: '星巴克', aliases: ['starbucks', 'starbucks coffee', 'スターバックス', 'スターバックスコーヒー'] },
+  { id: 'm-mcdonalds', name: '麦当劳', aliases: ["mcdonald's", 'mcdonalds', 'マクドナルド', '麥當勞'] },
+];
+
+// Large (and a few medium) categories of other bookkeeping apps; edited in the import dialog.
+// Categories with the same name as one of ours need no mapping.
+const mapping = (app: LedgerApp, kind: CategoryKind, large: string, category: Category, medium = ''): CategoryMapping => ({
+  id: `${app}|${kind}|${large}|${medium}`, app, kind, large, medium, category,
+});
+
+// Seeded into existing databases by a migration of their own
+export const CHINESE_CATEGORY_MAPPINGS: CategoryMapping[] = [
+  mapping('suishouji', 'expense', '食品酒水', Category.Food),
+  mapping('suishouji', 'expense', '衣服饰品', Category.Shopping),
+  mapping('suishouji', 'expense', '居家物业', Category.Home),
+  mapping('suishouji', 'expense', '行车交通', Category.Transport),
+  mapping('suishouji', 'expense', '交流通讯', Category.Home),
+  mapping('suishouji', 'expense', '休闲娱乐', Category.Entertainment),
+  mapping('suishouji', 'expense', '学习进修', Category.Education),
+  mapping('suishouji', 'expense', '医疗保健', Category.Medical),
+  mapping('suishouji', 'expense', '人情往来', Category.Other),
+  mapping('suishouji', 'expense', '金融保险', Category.Other),
+  mapping('suishouji', 'expense', '其他杂项', Category.Other),
+  mapping('suishouji', 'income', '职业收入', Category.Salary),
+  mapping('suishouji', 'income', '职业收入', Category.Bonus, '奖金收入'),
+  mapping('suishouji', 'income', '职业收入', Category.Investment, '投资收入'),
+  mapping('suishouji', 'income', '职业收入', Category.Investment, '利息收入'),
+  mapping('suishouji', 'income', '其他收入', Category.Gift, '礼金收入'),
+  mapping('shayu', 'expense', '日用', Category.Shopping),
+  mapping('shayu', 'expense', '蔬菜', Category.Food),
+  mapping('shayu', 'expense', '水果', Category.Food),
+  mapping('shayu', 'expense', '零食', Category.Food),
+  mapping('shayu', 'expense', '烟酒', Category.Food),
+  mapping('shayu', 'expense', '服饰', Category.Shopping),
+  mapping('shayu', 'expense', '美容', Category.Shopping),
+  mapping('shayu', 'expense', '数码', Category.Shopping),
+  mapping('shayu', 'expense', '住房', Category.Home),
+  mapping('shayu', 'expense', '通讯', Category.Home),
+  mapping('shayu', 'expense', '汽车', Category.Transport),
+  mapping('shayu', 'expense', '旅行', Category.Entertainment),
+  mapping('shayu', 'expense', '运动', Category.Entertainment),
+  mapping('shayu', 'expense', '书籍', Category.Education),
+  mapping('shayu', 'expense', '学习', Category.Education),
+  mapping('qianji', 'expense', '日用', Category.Shopping),
+  mapping('qianji', 'expense', '零食', Category.Food),
+  mapping('qianji', 'expense', '水果', Category.Food),
+  mapping('qianji', 'expense', '服饰', Category.Shopping),
+  mapping('qianji', 'expense', '住房', Category.Home),
+  mapping('qianji', 'expense', '通讯', Category.Home),
+  mapping('qianji', 'expense', '旅行', Category.Entertainment),
+  mapping('qianji', 'income', '红包', Category.Gift),
+];
+
+export const DEFAULT_CATEGORY_MAPPINGS: CategoryMapping[] = [
+  mapping('zaim', 'expense', '食費', Category.Food),
+  mapping('zaim', 'expense', '日用雑貨', Category.Shopping),
+  mapping('zaim', 'expense', '交通', Category.Transport),
+  mapping('zaim', 'expense', 'クルマ', Category.Transport),
+  mapping('zaim', 'expense', '交際費', Category.Entertainment),
+  mapping('zaim', 'expense', 'エンタメ', Category.Entertainment),
+  mapping('zaim', 'expense', '教育・教養', Category.Education),
+  mapping('zaim', 'expense', '美容・衣服', Category.Shopping),
+  mapping('zaim', 'expense', '医療・保険', Category.Medical),
+  mapping('zaim', 'expense', '通信', Category.Home),
+  mapping('zaim', 'expense', '水道・光熱', Category.Home),
+  mapping('zaim', 'expense', '住まい', Category.Home),
+  mapping('zaim', 'expense', '税金', Category.Other),
+  mapping('zaim', 'expense', '大型出費', Category.Other),
+  mapping('zaim', 'expense', 'その他', Category.Other),
+  mapping('zaim', 'income', '給与所得', Category.Salary),
+  mapping('zaim', 'income', '賞与', Category.Bonus),
+  mapping('zaim', 'income', '臨時収入', Category.OtherIncome),
+  mapping('zaim', 'income', '事業所得', Category.OtherIncome),
+  mapping('zaim', 'income', '立替金返済', Category.OtherIncome),
+  mapping('zaim', 'income', 'その他', Category.OtherIncome),
+  mapping('moneyforward', 'expense', '食費', Category.Food),
+  mapping('moneyforward', 'expense', '日用品', Category.Shopping),
+  mapping('moneyforward', 'expense', '趣味・娯楽', Category.Entertainment),
+  mapping('moneyforward', 'expense', '交際費', Category.Entertainment),
+  mapping('moneyforward', 'expense', '交通費', Category.Transport),
+  mapping('moneyforward', 'expense', '自動車', Category.Transport),
+  mapping('moneyforward', 'expense', '衣服・美容', Category.Shopping),
+  mapping('moneyforward', 'expense', '健康・医療', Category.Medical),
+  mapping('moneyforward', 'expense', '保険', Category.Medical),
+  mapping('moneyforward', 'expense', '教養・教育', Category.Education),
+  mapping('moneyforward', 'expense', '水道・光熱費', Category.Home),
+  mapping('moneyforward', 'expense', '通信費', Category.Home),
+  mapping('moneyforward', 'expense', '住宅', Category.Home),
+  mapping('moneyforward', 'expense', '税・社会保障', Category.Other),
+  mapping('moneyforward', 'expense', '特別な支出', Category.Other),
+  mapping('moneyforward', 'expense', 'その他', Category.Other),
+  mapping('moneyforward', 'expense', '未分類', Category.Other),
+  mapping('moneyforward', 'income', '収入', Category.OtherIncome),
+  mapping('moneyforward', 'income', '収入', Category.Salary, '給与'),
+  mapping('moneyforward', 'income', '収入', Category.Bonus, '賞与'),
+  mapping('moneyforward', 'income', '収入', Category.Investment, '配当所得'),
+];
@@ -57,3 +57,103 @@ self.addEventListener('message', (event) => {
     self.skipWaiting();
   }
 });
+
+// Offline bill queue. Bills captured without a connection are stored by the app in the
+// IndexedDB "queue" store; when Background Sync fires we either hand the work to an open
+// window (which has the full recognition pipeline) or, with no window open, call the HTTP
+// recognizer ourselves and store its raw output for the user to review later.
+const DB_NAME = 'bill-recorder';
+const QUEUE_SYNC_TAG = 'bill-queue';
+
+const openAppDB = () =>
+  new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME);
+    // The app owns the schema: never create or upgrade the database from here
+    req.onupgradeneeded = () => req.transaction.abort();
+    req.onsuccess = () => {
+      const db = req.result;
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    req.onerror = () => reject(req.error);
+  });
+
+const request = (req) =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const blobToBase64 = async (blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Writes back only if the user has not discarded the bill in the meantime
+const updateQueued = (db, id, changes) =>
+  new Promise((resolve, reject) => {
+    const tx = db.transaction('queue', 'readwrite');
+    const store = tx.objectStore('queue');
+    const get = store.get(id);
+    get.onsuccess = () => { if (get.result) store.put({ ...get.result, ...changes }); };
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+
+const recognizeQueued = async (db, item, endpoint) => {
+  let res;
+  try {
+    res = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ base64Image: await blobToBase64(item.blob), mimeType: item.type }),
+    });
+  } catch (e) {
+    return false; // still offline
+  }
+  if (res.ok) {
+    const { data, currency } = await res.json();
+    await updateQueued(db, item.id, {
+      status: 'ready',
+      attempts: item.attempts + 1,
+      error: undefined,
+      result: { items: Array.isArray(data) ? data : [], currency },
+    });
+  } else {
+    const text = await res.text();
+    await updateQueued(db, item.id, { status: 'failed', attempts: item.attempts + 1, error: text || `HTTP ${res.status}` });
+  }
+  return true;
+};
+
+const processBillQueue = async () => {
+  const windows = await self.clients.matchAll({ type: 'window' });
+  if (windows.length) {
+    windows.forEach((c) => c.postMessage({ type: 'PROCESS_BILL_QUEUE' }));
+    return;
+  }
+  const db = await openAppDB();
+  try {
+    if (!db.objectStoreNames.contains('queue')) return;
+    const config = await request(db.transaction('meta').objectStore('meta').get('recognizer'));
+    // Other backends need the app's bundled code; the app picks them up on its next launch
+    if (config && config.kind !== 'http') return;
+    const endpoint = (config && config.endpoint) || 'https://bill-recorder-server.fly.dev/api/analyze';
+    const items = await request(db.transaction('queue').objectStore('queue').getAll());
+    for (const item of items) {
+      if (item.status !== 'pending') continue;
+      // Throwing makes the browser schedule another sync attempt later
+      if (!(await recognizeQueued(db, item, endpoint))) throw new Error('offline');
+    }
+  } finally {
+    db.close();
+  }
+};
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === QUEUE_SYNC_TAG) event.waitUntil(processBillQueue());
+});
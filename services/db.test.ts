@@ -0,0 +1,68 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const DB_NAME = 'bill-recorder';
+
+// Creates the database at an old version with a hand-made schema and records, then closes it
+const seedOldVersion = (version: number, setup: (db: IDBDatabase) => void): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, version);
+    req.onupgradeneeded = () => setup(req.result);
+    req.onsuccess = () => { req.result.close(); resolve(); };
+    req.onerror = () => reject(req.error);
+  });
+
+const deleteDB = (): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const req = indexedDB.deleteDatabase(DB_NAME);
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(req.error);
+  });
+
+// A record as the localStorage ledger stored it, before addedAt and direction existed
+const legacy = { id: '1', name: '午饭', amount: 30, date: '2024-01-02T12:00', category: '餐饮' };
+
+describe('migrations', () => {
+  // services/db keeps the open connection in module state
+  beforeEach(() => { vi.resetModules(); });
+  afterEach(async () => {
+    const { openDB } = await import('./db');
+    (await openDB()).close();
+    await deleteDB();
+  });
+
+  it('backfills every field when upgrading a version 1 database', async () => {
+    await seedOldVersion(1, db => {
+      db.createObjectStore('transactions', { keyPath: 'id' }).put(legacy);
+      db.createObjectStore('trash', { keyPath: 'tx.id' }).put({ tx: { ...legacy, id: '2' }, deletedAt: '2024-01-03T00:00:00.000Z' });
+      db.createObjectStore('meta');
+    });
+
+    const { getAll } = await import('./db');
+    const [tx] = await getAll<any>('transactions');
+    expect(tx).toMatchObject({ ...legacy, direction: 'expense', currency: 'CNY' });
+    expect(typeof tx.addedAt).toBe('string');
+
+    const [item] = await getAll<any>('trash');
+    expect(item.tx).toMatchObject({ ...legacy, id: '2', direction: 'expense', currency: 'CNY' });
+    expect(typeof item.tx.addedAt).toBe('string');
+  });
+
+  it('keeps earlier fields when adding currencies to a version 7 database', async () => {
+    const record = { ...legacy, addedAt: '2024-01-02T12:00:00.000Z', direction: 'income' };
+    const rule = { id: 'r1', template: { name: '工资', amount: 100, direction: 'income', category: '工资', time: '09:00' }, frequency: 'monthly', interval: 1, startDate: '2024-01-01', skipped: [] };
+    await seedOldVersion(7, db => {
+      db.createObjectStore('transactions', { keyPath: 'id' }).put(record);
+      db.createObjectStore('trash', { keyPath: 'tx.id' });
+      db.createObjectStore('meta');
+      db.createObjectStore('categories', { keyPath: 'id' });
+      db.createObjectStore('budgets', { keyPath: 'id' });
+      db.createObjectStore('recurring', { keyPath: 'id' }).put(rule);
+      db.createObjectStore('accounts', { keyPath: 'id' });
+    });
+
+    const { getAll } = await import('./db');
+    expect(await getAll('transactions')).toEqual([{ ...record, currency: 'CNY' }]);
+    expect(await getAll('recurring')).toEqual([{ ...rule, template: { ...rule.template, currency: 'CNY' } }]);
+  });
+});
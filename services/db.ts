@@ -0,0 +1,301 @@
+import { Transaction, DeletedItem, RecurringRule } from '../types';
+import { DEFAULT_ACCOUNTS, DEFAULT_CATEGORIES, DEFAULT_CURRENCY, DEFAULT_RATES, DEFAULT_RULES, DEFAULT_MERCHANTS, DEFAULT_CATEGORY_MAPPINGS, CHINESE_CATEGORY_MAPPINGS } from '../constants';
+
+const DB_NAME = 'bill-recorder';
+
+export type StoreName = 'transactions' | 'trash' | 'meta' | 'categories' | 'budgets' | 'recurring' | 'accounts' | 'rates' | 'queue' | 'rules' | 'preferences' | 'merchants' | 'importPresets' | 'categoryMappings';
+
+// Per-record rewrites of existing data; each returns the new value, or null to keep the record as is
+interface Backfills {
+  transactions?: (t: Transaction) => Transaction | null;
+  trash?: (it: DeletedItem) => DeletedItem | null;
+  recurring?: (r: RecurringRule) => RecurringRule | null;
+}
+
+interface Migration {
+  version: number;
+  description: string;
+  // Runs inside the versionchange transaction; must only use `tx` (no awaits).
+  upgrade?: (db: IDBDatabase, tx: IDBTransaction) => void;
+  // Called once per upgrade, after every pending step's `upgrade`. The rewrites of all pending
+  // steps are chained into a single cursor pass per store: two cursors over the same store would
+  // both read the original record, and the later update would drop the earlier one's fields.
+  backfill?: () => Backfills;
+}
+
+// localStorage keys used before the IndexedDB store existed
+const LEGACY_KEYS = ['transactions', 'trash', 'addedAtMigrated'];
+let importedLegacy = false;
+
+const readLegacy = <T>(key: string): T[] => {
+  try {
+    const raw = localStorage.getItem(key);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error(`Could not parse legacy "${key}" from localStorage`, error);
+    return [];
+  }
+};
+
+// Rewrites every record of a store for which `fn` returns a new value (null = keep as is)
+const updateEach = <T>(store: IDBObjectStore, fn: (value: T) => T | null) => {
+  const req = store.openCursor();
+  req.onsuccess = () => {
+    const cursor = req.result;
+    if (!cursor) return;
+    const next = fn(cursor.value as T);
+    if (next) cursor.update(next);
+    cursor.continue();
+  };
+};
+
+// Ordered schema steps. Never edit a shipped step; append a new one whenever the
+// stored shape changes. Steps run in order from the stored version up to DB_VERSION,
+// so records imported by an early step are upgraded by all later ones.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create stores and import the localStorage ledger',
+    upgrade: (db, tx) => {
+      db.createObjectStore('transactions', { keyPath: 'id' }).createIndex('date', 'date');
+      db.createObjectStore('trash', { keyPath: 'tx.id' });
+      db.createObjectStore('meta');
+
+      const txStore = tx.objectStore('transactions');
+      const trashStore = tx.objectStore('trash');
+      const legacyTxs = readLegacy<Transaction>('transactions').filter(t => t && t.id);
+      const legacyTrash = readLegacy<DeletedItem>('trash').filter(it => it && it.tx && it.tx.id);
+      legacyTxs.forEach(t => txStore.put(t));
+      legacyTrash.forEach(it => trashStore.put(it));
+      importedLegacy = legacyTxs.length > 0 || legacyTrash.length > 0;
+    },
+  },
+  {
+    version: 2,
+    description: 'Backfill addedAt on records created before it existed',
+    backfill: () => {
+      const nowISO = new Date().toISOString();
+      return {
+        transactions: t => (t.addedAt ? null : { ...t, addedAt: nowISO }),
+        trash: it => (it.tx.addedAt ? null : { ...it, tx: { ...it.tx, addedAt: nowISO } }),
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'Mark existing records as expenses',
+    backfill: () => ({
+      transactions: t => (t.direction ? null : { ...t, direction: 'expense' }),
+      trash: it => (it.tx.direction ? null : { ...it, tx: { ...it.tx, direction: 'expense' } }),
+    }),
+  },
+  {
+    version: 4,
+    description: 'Category registry seeded with the built-in categories',
+    upgrade: (db) => {
+      const store = db.createObjectStore('categories', { keyPath: 'id' });
+      DEFAULT_CATEGORIES.forEach(c => store.put(c));
+    },
+  },
+  {
+    version: 5,
+    description: 'Monthly budgets',
+    upgrade: (db) => {
+      db.createObjectStore('budgets', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 6,
+    description: 'Recurring transaction rules',
+    upgrade: (db) => {
+      db.createObjectStore('recurring', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 7,
+    description: 'Accounts seeded with common payment methods',
+    upgrade: (db) => {
+      const store = db.createObjectStore('accounts', { keyPath: 'id' });
+      DEFAULT_ACCOUNTS.forEach(a => store.put(a));
+    },
+  },
+  {
+    version: 8,
+    description: 'Currencies: existing records are CNY; seed the exchange-rate table',
+    upgrade: (db) => {
+      const store = db.createObjectStore('rates', { keyPath: 'currency' });
+      DEFAULT_RATES.forEach(r => store.put(r));
+    },
+    backfill: () => ({
+      transactions: t => (t.currency ? null : { ...t, currency: DEFAULT_CURRENCY }),
+      trash: it => (it.tx.currency ? null : { ...it, tx: { ...it.tx, currency: DEFAULT_CURRENCY } }),
+      recurring: r => (r.template.currency ? null : { ...r, template: { ...r.template, currency: DEFAULT_CURRENCY } }),
+    }),
+  },
+  {
+    version: 9,
+    description: 'Queue for bills captured offline (also read by the service worker)',
+    upgrade: (db) => {
+      db.createObjectStore('queue', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 10,
+    description: 'Category rules seeded with the built-in merchant heuristics',
+    upgrade: (db) => {
+      const store = db.createObjectStore('rules', { keyPath: 'id' });
+      DEFAULT_RULES.forEach(r => store.put(r));
+    },
+  },
+  {
+    version: 11,
+    description: 'Per-merchant category preferences learned from corrections',
+    upgrade: (db) => {
+      db.createObjectStore('preferences', { keyPath: 'key' });
+    },
+  },
+  {
+    version: 12,
+    description: 'Merchants with aliases, seeded with common chains',
+    upgrade: (db) => {
+      const store = db.createObjectStore('merchants', { keyPath: 'id' });
+      DEFAULT_MERCHANTS.forEach(m => store.put(m));
+    },
+  },
+  {
+    version: 13,
+    description: 'Saved column mappings for spreadsheet imports',
+    upgrade: (db) => {
+      db.createObjectStore('importPresets', { keyPath: 'id' });
+    },
+  },
+  {
+    version: 14,
+    description: 'Category mappings for household-account app imports',
+    upgrade: (db) => {
+      const store = db.createObjectStore('categoryMappings', { keyPath: 'id' });
+      DEFAULT_CATEGORY_MAPPINGS.forEach(m => store.put(m));
+    },
+  },
+  {
+    version: 15,
+    description: 'Category mappings for Chinese bookkeeping apps',
+    upgrade: (_db, tx) => {
+      const store = tx.objectStore('categoryMappings');
+      CHINESE_CATEGORY_MAPPINGS.forEach(m => store.put(m));
+    },
+  },
+];
+
+export const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Applies the steps' rewrites to each record in order, so later steps see the earlier steps' fields
+const chain = <T>(fns: ((value: T) => T | null)[]) => (value: T): T | null => {
+  let current = value;
+  let changed = false;
+  for (const fn of fns) {
+    const next = fn(current);
+    if (next) { current = next; changed = true; }
+  }
+  return changed ? current : null;
+};
+
+const runBackfills = (tx: IDBTransaction, backfills: Backfills[]) => {
+  const run = <T>(store: StoreName, fns: (((value: T) => T | null) | undefined)[]) => {
+    const steps = fns.filter((fn): fn is (value: T) => T | null => !!fn);
+    if (steps.length) updateEach(tx.objectStore(store), chain(steps));
+  };
+  run('transactions', backfills.map(b => b.transactions));
+  run('trash', backfills.map(b => b.trash));
+  run('recurring', backfills.map(b => b.recurring));
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (e) => {
+      const db = req.result;
+      const tx = req.transaction!;
+      const pending = MIGRATIONS.filter(m => m.version > e.oldVersion && m.version <= DB_VERSION);
+      pending.forEach(m => m.upgrade?.(db, tx));
+      runBackfills(tx, pending.map(m => m.backfill?.()).filter((b): b is Backfills => !!b));
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      // Another tab upgraded the schema: let it proceed and reopen lazily
+      db.onversionchange = () => { db.close(); dbPromise = null; };
+      // Legacy data is committed only once the upgrade transaction has finished
+      if (importedLegacy) {
+        try { LEGACY_KEYS.forEach(k => localStorage.removeItem(k)); } catch {}
+        importedLegacy = false;
+      }
+      resolve(db);
+    };
+    req.onerror = () => { dbPromise = null; reject(req.error); };
+    req.onblocked = () => console.warn('IndexedDB upgrade blocked by another open tab');
+  });
+  return dbPromise;
+};
+
+const done = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const getAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDB();
+  return new Promise<T[]>((resolve, reject) => {
+    const req = db.transaction(store, 'readonly').objectStore(store).getAll();
+    req.onsuccess = () => resolve(req.result as T[]);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+export const getMeta = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDB();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const req = db.transaction('meta', 'readonly').objectStore('meta').get(key);
+    req.onsuccess = () => resolve(req.result as T | undefined);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+export const setMeta = async (key: string, value: unknown): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction('meta', 'readwrite');
+  tx.objectStore('meta').put(value, key);
+  return done(tx);
+};
+
+// Writes only what changed between two snapshots of a list held in React state:
+// records whose reference changed are put, records that disappeared are deleted.
+export const syncStore = async <T>(
+  store: StoreName,
+  prev: T[],
+  next: T[],
+  keyOf: (item: T) => IDBValidKey,
+): Promise<void> => {
+  const prevByKey = new Map<IDBValidKey, T>(prev.map(it => [keyOf(it), it]));
+  const nextKeys = new Set<IDBValidKey>();
+  const puts: T[] = [];
+  for (const it of next) {
+    const k = keyOf(it);
+    nextKeys.add(k);
+    if (prevByKey.get(k) !== it) puts.push(it);
+  }
+  const deletes = Array.from(prevByKey.keys()).filter(k => !nextKeys.has(k));
+  if (puts.length === 0 && deletes.length === 0) return;
+
+  const db = await openDB();
+  const tx = db.transaction(store, 'readwrite');
+  const os = tx.objectStore(store);
+  puts.forEach(it => os.put(it));
+  deletes.forEach(k => os.delete(k));
+  return done(tx);
+};
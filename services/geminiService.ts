@@ -1,172 +1,79 @@
-import { NewTransaction, Category } from '../types';
-import { CATEGORIES } from '../constants';
+import { NewTransaction, CategoryId, CategoryRule } from '../types';
+import { DEFAULT_CURRENCY, DEFAULT_MERCHANTS, DEFAULT_RULES, FALLBACK_CATEGORIES } from '../constants';
+import { CategoryRegistry, DEFAULT_REGISTRY, kindFor } from '../utils/categories';
+import { normalizeDirection } from '../utils/helpers';
+import { normalizeCurrency, roundAmount } from '../utils/currency';
+import { normalizeDateTime } from '../utils/review';
+import { MerchantPreferences, suggestCategory } from '../utils/preferences';
+import { MerchantIndex, buildMerchantIndex, normalizeMerchant } from '../utils/merchants';
+import { RawRecognition, Recognizer, createRecognizer, loadRecognizerConfig } from './recognizers';
 
-// Heuristics: Map convenience stores to Food (餐饮)
-const isConvenienceStore = (nameRaw: unknown): boolean => {
-  const name = String(nameRaw || '').toLowerCase();
-  if (!name) return false;
-  const patterns: RegExp[] = [
-    /便利店|便利商店|便利超市|便利門店|便利门店/,
-    /7\s*-?\s*11|seven\s*-?\s*eleven|7\s*eleven/i,
-    /family\s*mart|全家/i,
-    /lawson|罗森|羅森/i,
-    /mini\s*stop|ミニストップ/i,
-    /ok便利|c-?store|喜士多/i,
-    /美宜佳|天福便利|today便利|易捷|usmile/i,
-  /コンビニ|セブン|セブン[-‐]イレブン|ファミマ|ファミリーマート|ローソン|デイリーヤマザキ|seicomart|セイコーマート|ポプラ|new\s*days/i,
-  ];
-  return patterns.some((re) => re.test(name));
-};
+// Runs one image through the selected backend and returns its raw output
+export async function recognizeBill(
+  base64Image: string,
+  mimeType: string,
+  registry: CategoryRegistry = DEFAULT_REGISTRY,
+  recognizer: Recognizer = createRecognizer(loadRecognizerConfig()),
+): Promise<RawRecognition> {
+  const categories = [...registry.active('expense'), ...registry.active('income')].map(c => c.name);
+  return recognizer.recognize(base64Image, mimeType, { categories });
+}
 
-// Heuristics: Supermarkets / grocery → Food (餐饮)
-const isSupermarket = (nameRaw: unknown): boolean => {
-  const name = String(nameRaw || '').toLowerCase();
-  if (!name) return false;
-  const patterns: RegExp[] = [
-  /超市|生鲜|生鮮|食品館|食品馆|スーパー|業務スーパー|マート|マーケット|market/i,
-    /家乐福|家樂福|carrefour/i,
-    /沃尔玛|沃爾瑪|walmart/i,
-    /大润发|大潤發|rt[-\s]?mart/i,
-    /物美|永辉|永輝/i,
-    /华润万家|華潤萬家|vanguard/i,
-    /世纪联华|世紀聯華|联华|聯華|lianhua/i,
-    /欧尚|歐尚|auchan/i,
-    /麦德龙|麥德龍|metro\s*(cash|)\b/i,
-    /山姆|sam'?s\s*club|sam\s*club/i,
-    /盒马|盒馬|hema|freshippo/i,
-  /成城石井/i,
-    /ole'?\b/,
-  /永旺|aeon(\s*mall)?|イオン|イオンスタイル|イオンフード|イオンフードスタイル|イオンスーパー/i,
-  /西友|seiyu/i,
-  /イトーヨーカドー|伊藤洋华堂|伊藤洋華堂|ito[-\s]?yokado/i,
-  /ライフ|life\s*super/i,
-  /サミット|summit\s*store/i,
-  /マルエツ|maruetsu/i,
-  /コープ|生協|coop/i,
-  /オーケー|ok\s*store|ＯＫ\s*ストア/i,
-  /ビッグエー|big\s*-?\s*a/i,
-  /まいばすけっと|mybasket/i,
-  ];
-  return patterns.some((re) => re.test(name));
-};
+// Everything recognized items are normalized against: the user's categories, rules, learned
+// preferences and merchants, and the currency to assume when the bill does not say
+export interface RecognitionContext {
+  registry: CategoryRegistry;
+  defaultCurrency: string;
+  rules: CategoryRule[];
+  prefs: MerchantPreferences;
+  merchants: MerchantIndex;
+}
 
-// Heuristics: Shopping centers / malls → Shopping (购物)
-const isShoppingCenter = (nameRaw: unknown): boolean => {
-  const name = String(nameRaw || '').toLowerCase();
-  if (!name) return false;
-  const patterns: RegExp[] = [
-    // Generic malls and shopping centers (keep these as Shopping)
-    /购物中心|購物中心|商场|商場|广场|廣場|mall|plaza|アウトレット|ショッピング|ショッピングモール|ショッピングセンター|モール/i,
-    /万达|wanda/i,
-    /万象城|the\s*mixc|mixc/i,
-    /大悦城/i,
-    /龙湖天街|天街/i,
-    /恒隆|hanglung/i,
-    /太古|swire|taikoo/i,
-    /来福士|來福士|raffles/i,
-    /凯德|capita\s*mall/i,
-    /ifs|国金|國金/i,
-    /吾悦|新城控股/i,
-    /宝龙|寶龍|powerlong/i,
-  /イオンモール|aeon\s*mall/i,
-  /parco|パルコ/i,
-  /ヨドバシ|yodobashi|bic\s*camera|ビックカメラ/i,
-  /ドン[・･.]?キホーテ|don\s*quijote|donki/i,
-  /ちいかわ|chiikawa/i
-  ];
-  return patterns.some((re) => re.test(name));
+export const DEFAULT_RECOGNITION_CONTEXT: RecognitionContext = {
+  registry: DEFAULT_REGISTRY,
+  defaultCurrency: DEFAULT_CURRENCY,
+  rules: DEFAULT_RULES,
+  prefs: new Map(),
+  merchants: buildMerchantIndex(DEFAULT_MERCHANTS),
 };
 
-// Heuristics: Department stores (百货/百貨/デパート) → Food (餐饮)
-const isDepartmentStore = (nameRaw: unknown): boolean => {
-  const name = String(nameRaw || '').toLowerCase();
-  if (!name) return false;
-  const patterns: RegExp[] = [
-    /百货|百貨|百貨店|デパート|デパートメント/i,
-    /髙?島屋|takashimaya/i,
-    /三越|mitsukoshi/i,
-    /伊勢丹|isetan/i,
-    /そごう|sogo|西武|seibu/i,
-    /阪急|hankyu/i,
-    /阪神|hanshin/i,
-    /大丸|daimaru/i,
-    /松坂屋|matsuzakaya/i,
-    /0101|丸井|marui/i,
-    /银泰|銀泰|intime/i,
-    /東急\s*(department|百貨)/i,
-  ];
-  return patterns.some((re) => re.test(name));
-};
+// Every backend's output goes through the same normalization and category rules, whether it
+// is reviewed right away or later from the offline queue
+export const normalizeRecognition = (raw: RawRecognition, ctx: RecognitionContext = DEFAULT_RECOGNITION_CONTEXT): NewTransaction[] =>
+  parseRecognizedItems(raw.items, { ...ctx, defaultCurrency: normalizeCurrency(raw.currency, ctx.defaultCurrency) });
 
-// Heuristics: Pharmacies / Drugstores → Medical (医疗)
-const isPharmacy = (nameRaw: unknown): boolean => {
-  const name = String(nameRaw || '').toLowerCase();
-  if (!name) return false;
-  const patterns: RegExp[] = [
-    /药店|藥店|药房|藥房|医药|醫藥|大药房|大藥房/,
-    /薬局|ドラッグストア|調剤|ドラッグ|ドラッグス/i,
-    /マツモトキヨシ|松本清|matsumoto\s*kiyoshi/i,
-    /ウエルシア|welcia/i,
-    /スギ薬局|sugi/i,
-    /ツルハドラッグ|tsuruha/i,
-    /サンドラッグ|sun\s*drug|sundrug/i,
-    /ココカラファイン|cocokara/i,
-    /クリエイトsd|create\s*sd/i,
-    /カワチ薬品|kawachi/i,
-    /老百姓|同仁堂|一心堂|大参林|益丰|益豐|海王/i,
-    /pharmacy|drug\s*store/i,
-  ];
-  return patterns.some((re) => re.test(name));
-};
+export async function analyzeBill(
+  base64Image: string,
+  mimeType: string,
+  ctx: RecognitionContext = DEFAULT_RECOGNITION_CONTEXT,
+  recognizer?: Recognizer,
+): Promise<NewTransaction[]> {
+  const raw = await recognizeBill(base64Image, mimeType, ctx.registry, recognizer);
+  return normalizeRecognition(raw, ctx);
+}
 
-export async function analyzeBill(base64Image, mimeType) {
-  const res = await fetch('https://bill-recorder-server.fly.dev/api/analyze', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ base64Image, mimeType }),
+// Turns raw recognizer items into ledger-shaped drafts. Nothing is dropped here: items that
+// could not be read completely keep empty fields and are flagged by validateTransaction in
+// the review step, where the user can fix or discard them.
+export const parseRecognizedItems = (data: any[], ctx: RecognitionContext = DEFAULT_RECOGNITION_CONTEXT): NewTransaction[] =>
+  data.map((item) => {
+    const rawAmount = Number(item?.amount);
+    // Receipts say nothing about accounts, so anything labelled a transfer is kept as an expense
+    const parsed = normalizeDirection(item?.direction, rawAmount);
+    const direction = parsed === 'transfer' ? 'expense' : parsed;
+    const kind = kindFor(direction);
+    const currency = normalizeCurrency(item?.currency, ctx.defaultCurrency);
+    // Names are stored under the canonical merchant, so categorization sees the same name too
+    const draft = normalizeMerchant(ctx.merchants, {
+      name: String(item?.name ?? '').trim(),
+      date: normalizeDateTime(item?.date),
+      amount: isFinite(rawAmount) ? roundAmount(Math.abs(rawAmount), currency) : 0,
+      currency,
+      direction,
+      location: item?.location ? String(item.location) : undefined,
+    });
+    // Learned preferences, then rules, take priority over the category the recognizer guessed
+    let category: CategoryId | undefined = suggestCategory(draft, ctx.prefs, ctx.rules, ctx.registry)?.category || ctx.registry.resolve(item?.category, kind);
+    if (!category && direction === 'income') category = FALLBACK_CATEGORIES.income;
+    return { ...draft, category: category || '' };
   });
-
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(text || `HTTP ${res.status}`);
-  }
-  const { data } = await res.json(); // data: NewTransaction[]
-  const validTransactions: NewTransaction[] = [];
-    for (const item of data) {
-      // Apply overrides before validation (priority: pharmacy > conv./supermarket/department → Food; malls and other retail → Shopping)
-      let category: Category | undefined = item.category as Category | undefined;
-      if (isPharmacy(item.name)) {
-        category = Category.Medical;
-      } else if (
-        isConvenienceStore(item.name) ||
-        isSupermarket(item.name) ||
-        isDepartmentStore(item.name)
-      ) {
-        category = Category.Food;
-      } else if (isShoppingCenter(item.name)) {
-        category = Category.Shopping;
-      }
-      if (
-        item.name &&
-        item.date &&
-        typeof item.amount === 'number' &&
-        category && CATEGORIES.includes(category)
-      ) {
-        validTransactions.push({
-          name: item.name,
-          date: item.date,
-      amount: Math.abs(Number(item.amount)),
-          location: item.location,
-          category,
-        } as NewTransaction);
-      } else {
-        console.warn('Skipping invalid item from AI:', item);
-      }
-    }
-
-    if (validTransactions.length === 0 && data.length > 0) {
-        throw new Error('AI 返回的数据中没有有效的交易条目。');
-    }
-    
-    return validTransactions;
-}
\ No newline at end of file
@@ -0,0 +1,182 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { localDateStr } from '../utils/helpers';
+import { setMeta } from './db';
+
+// What a backend hands back before normalization: loosely shaped items plus the bill's
+// currency when it could tell. Everything after this goes through parseRecognizedItems.
+export interface RawRecognition {
+  items: any[];
+  currency?: string;
+}
+
+export interface RecognizeHints {
+  categories: string[]; // active category names, so a model can pick from them
+}
+
+export interface Recognizer {
+  recognize: (base64Image: string, mimeType: string, hints: RecognizeHints) => Promise<RawRecognition>;
+}
+
+export type RecognizerKind = 'http' | 'gemini' | 'mock';
+
+export interface RecognizerConfig {
+  kind: RecognizerKind;
+  endpoint: string;
+  apiKey: string;
+  model: string;
+}
+
+export const RECOGNIZER_LABELS: Record<RecognizerKind, string> = {
+  http: '识别服务器',
+  gemini: 'Gemini（自带 API Key）',
+  mock: '本地示例数据（开发用）',
+};
+
+export const DEFAULT_RECOGNIZER_CONFIG: RecognizerConfig = {
+  kind: 'http',
+  endpoint: 'https://bill-recorder-server.fly.dev/api/analyze',
+  apiKey: '',
+  model: 'gemini-2.5-flash',
+};
+
+const STORAGE_KEY = 'recognizer';
+
+export const loadRecognizerConfig = (): RecognizerConfig => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!saved || typeof saved !== 'object') return DEFAULT_RECOGNIZER_CONFIG;
+    const kind = saved.kind in RECOGNIZER_LABELS ? saved.kind : DEFAULT_RECOGNIZER_CONFIG.kind;
+    return {
+      kind,
+      endpoint: String(saved.endpoint || DEFAULT_RECOGNIZER_CONFIG.endpoint),
+      apiKey: String(saved.apiKey || ''),
+      model: String(saved.model || DEFAULT_RECOGNIZER_CONFIG.model),
+    };
+  } catch {
+    return DEFAULT_RECOGNIZER_CONFIG;
+  }
+};
+
+// Also mirrored into IndexedDB, where the service worker can read it during Background Sync
+export const saveRecognizerConfig = (config: RecognizerConfig) => {
+  try { localStorage.setItem(STORAGE_KEY, JSON.stringify(config)); } catch {}
+  setMeta(STORAGE_KEY, config).catch(error => console.error('Could not save recognizer config to IndexedDB', error));
+};
+
+// The request never reached the server, so the bill can be queued and tried again later
+export class NetworkError extends Error {
+  constructor(cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause), { cause });
+    this.name = 'NetworkError';
+  }
+}
+
+// Only the request itself is classified: fetch rejects with a TypeError when there is no
+// connection, while server errors resolve normally. A TypeError from handling the response is
+// a bug and must surface as a failure, not be retried forever.
+const sendRequest = async <T>(request: () => Promise<T>): Promise<T> => {
+  try {
+    return await request();
+  } catch (e) {
+    throw e instanceof TypeError ? new NetworkError(e) : e;
+  }
+};
+
+export const isNetworkError = (e: unknown): boolean => !navigator.onLine || e instanceof NetworkError;
+
+// The bill-recorder server: POST { base64Image, mimeType } → { data: item[], currency? }
+export const httpRecognizer = (endpoint: string): Recognizer => ({
+  async recognize(base64Image, mimeType) {
+    const res = await sendRequest(() => fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ base64Image, mimeType }),
+    }));
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(text || `HTTP ${res.status}`);
+    }
+    const { data, currency } = await res.json();
+    return { items: Array.isArray(data) ? data : [], currency };
+  },
+});
+
+const GEMINI_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    currency: { type: Type.STRING, description: 'ISO 4217 code of the bill, e.g. CNY, JPY' },
+    items: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          date: { type: Type.STRING, description: 'YYYY-MM-DDTHH:mm' },
+          amount: { type: Type.NUMBER },
+          direction: { type: Type.STRING, enum: ['expense', 'income', 'refund'] },
+          category: { type: Type.STRING },
+          location: { type: Type.STRING },
+        },
+        required: ['name', 'amount'],
+      },
+    },
+  },
+  required: ['items'],
+};
+
+const geminiPrompt = (hints: RecognizeHints) => [
+  '识别这张账单或收据中的每一笔交易，按 JSON 返回。',
+  '金额一律为正数；退款记为 refund，收入记为 income，其余为 expense。',
+  `分类请从以下名称中选择：${hints.categories.join('、')}。`,
+  `没有日期时使用今天（${localDateStr(new Date())}），没有时间时使用 00:00。`,
+].join('\n');
+
+// Calls Gemini straight from the browser with the user's own key
+export const geminiRecognizer = (apiKey: string, model: string): Recognizer => ({
+  async recognize(base64Image, mimeType, hints) {
+    if (!apiKey) throw new Error('未设置 Gemini API Key');
+    const ai = new GoogleGenAI({ apiKey });
+    // The SDK passes fetch's rejection through and throws its own errors for API failures
+    const response = await sendRequest(() => ai.models.generateContent({
+      model,
+      contents: [{
+        role: 'user',
+        parts: [{ inlineData: { data: base64Image, mimeType } }, { text: geminiPrompt(hints) }],
+      }],
+      config: { responseMimeType: 'application/json', responseSchema: GEMINI_SCHEMA },
+    }));
+    const parsed = JSON.parse(response.text || '{}');
+    return { items: Array.isArray(parsed?.items) ? parsed.items : [], currency: parsed?.currency };
+  },
+});
+
+// Fixed sample output for working on the UI without a network or key. It includes an
+// incomplete item and a foreign-currency one so the review step has something to flag.
+export const mockRecognizer = (): Recognizer => ({
+  async recognize() {
+    await new Promise(resolve => setTimeout(resolve, 300));
+    const today = localDateStr(new Date());
+    return {
+      currency: 'CNY',
+      items: [
+        { name: '全家便利店', date: `${today}T08:15`, amount: 18.5, direction: 'expense', category: '餐饮' },
+        { name: '地铁', date: `${today}T08:40`, amount: 4, direction: 'expense', category: '交通' },
+        { name: 'マツモトキヨシ', date: `${today}T19:02`, amount: 1280, currency: 'JPY', direction: 'expense' },
+        { name: '退货退款', date: `${today}T20:30`, amount: -59, direction: 'refund', category: '购物' },
+        { name: '', date: '', amount: null },
+      ],
+    };
+  },
+});
+
+export const createRecognizer = (config: RecognizerConfig): Recognizer => {
+  switch (config.kind) {
+    case 'gemini':
+      return geminiRecognizer(config.apiKey.trim(), config.model.trim() || DEFAULT_RECOGNIZER_CONFIG.model);
+    case 'mock':
+      return mockRecognizer();
+    case 'http':
+    default:
+      return httpRecognizer(config.endpoint.trim() || DEFAULT_RECOGNIZER_CONFIG.endpoint);
+  }
+};
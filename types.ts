@@ -1,3 +1,5 @@
+// IDs of the built-in categories. The values double as the stable IDs stored on
+// transactions, so they must never change even if a category is renamed.
 export enum Category {
   Food = '餐饮',
   Transport = '交通',
@@ -8,17 +10,61 @@ export enum Category {
   Education = '教育',
   Transfer = '转账',
   Other = '其他',
+  // Income categories
+  Salary = '工资',
+  Bonus = '奖金',
+  Investment = '理财',
+  Gift = '礼金',
+  OtherIncome = '其他收入',
+}
+
+// Built-in IDs or generated ones for user-defined categories
+export type CategoryId = Category | string;
+
+export type CategoryKind = 'expense' | 'income';
+
+export interface CategoryDef {
+  id: CategoryId;
+  name: string;
+  kind: CategoryKind;
+  color: string; // hex, e.g. #FB923C
+  icon: string; // key into CATEGORY_ICONS
+  parentId?: CategoryId; // one level of nesting
+  archived?: boolean; // hidden from pickers; existing records keep it
+  builtin?: boolean;
+  order: number;
+}
+
+// expense: money out; income: money in; refund: money back for an earlier expense;
+// transfer: money moved between two of the user's own accounts (neither income nor spending)
+export type Direction = 'expense' | 'income' | 'refund' | 'transfer';
+
+export type AccountType = 'cash' | 'alipay' | 'wechat' | 'debit' | 'credit' | 'other';
+
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  openingBalance: number; // negative for money owed, e.g. an unpaid credit card
+  archived?: boolean;
+  order: number;
 }
 
 export interface Transaction {
   id: string;
   name: string;
-  category: Category;
-  amount: number;
+  category: CategoryId;
+  amount: number; // always positive; the sign comes from `direction`
+  currency: string; // ISO 4217 code, e.g. CNY, JPY
+  direction: Direction;
   date: string; // YYYY-MM-DDTHH:mm
   location?: string;
+  note?: string; // e.g. the goods description from an imported statement
+  accountId?: string; // paying/receiving account; for transfers the source account
+  toAccountId?: string; // transfers only: the destination account
   // When this entry was added into the app (ISO string)
   addedAt: string;
+  recurringRuleId?: string; // set when generated by a recurring rule
 }
 
 // New transactions come without id and addedAt; those will be filled at creation time
@@ -27,4 +73,125 @@ export type NewTransaction = Omit<Transaction, 'id' | 'addedAt'>;
 export interface DeletedItem {
   tx: Transaction;
   deletedAt: string; // ISO timestamp
-}
\ No newline at end of file
+}
+
+export interface Budget {
+  id: string;
+  categoryId?: CategoryId; // undefined = overall monthly budget
+  amount: number; // planned spending per month
+  rollover: boolean; // carry unspent amounts into the following months
+  startMonth: string; // YYYY-MM, first month the budget applies to
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurringRule {
+  id: string;
+  template: Omit<NewTransaction, 'date' | 'recurringRuleId'> & { time: string }; // time: HH:mm
+  frequency: RecurrenceFrequency;
+  interval: number; // every N days/weeks/months/years
+  weekday?: number; // weekly: 0 (Sunday) – 6
+  dayOfMonth?: number; // monthly: 1 – 31, clamped to the last day of short months
+  startDate: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD, inclusive
+  count?: number; // total number of occurrences, skipped ones included
+  skipped: string[]; // YYYY-MM-DD occurrences that must not be created
+  paused?: boolean;
+  generatedThrough?: string; // YYYY-MM-DD; occurrences up to this day have been created
+}
+
+// User-maintained rate: how many CNY one unit of `currency` is worth.
+// Rates are pivoted on CNY so the report currency can change without editing the table.
+export interface ExchangeRate {
+  currency: string;
+  rate: number;
+  updatedAt: string; // YYYY-MM-DD
+}
+
+// pending: waiting for a connection; ready: recognized, waiting for the user's review
+export type QueuedBillStatus = 'pending' | 'processing' | 'ready' | 'failed';
+
+// A bill captured while offline. The file itself is kept so it can be recognized later.
+export interface QueuedBill {
+  id: string;
+  name: string;
+  type: string; // MIME type of the file
+  blob: Blob;
+  addedAt: string; // ISO timestamp
+  status: QueuedBillStatus;
+  attempts: number;
+  error?: string;
+  result?: { items: any[]; currency?: string }; // raw recognizer output, normalized at review time
+}
+
+export type RuleField = 'name' | 'location';
+// keyword: contains any of the comma-separated keywords; exact: equals (case-insensitive); regex: JS pattern, case-insensitive
+export type RuleMatchMode = 'keyword' | 'exact' | 'regex';
+
+// Assigns a category to records that match. Rules are tried in `order`; the first enabled match wins.
+export interface CategoryRule {
+  id: string;
+  name: string;
+  field: RuleField;
+  mode: RuleMatchMode;
+  pattern: string; // empty: match on the amount range alone
+  minAmount?: number;
+  maxAmount?: number;
+  category: CategoryId;
+  enabled: boolean;
+  order: number;
+  builtin?: boolean; // shipped defaults can be disabled and edited but not deleted
+}
+
+// What the user has taught the app about one merchant, built from their category corrections
+export interface MerchantPreference {
+  key: string; // normalized merchant name, see merchantKey
+  name: string; // as last written by the user
+  weights: Record<CategoryId, number>; // the newest correction counts most, older ones fade
+  corrections: number;
+  updatedAt: string; // ISO timestamp
+}
+
+// One shop or brand under a canonical name. Recognized and imported records are stored under it;
+// aliases decide which merchant any other name belongs to for grouping.
+export interface Merchant {
+  id: string;
+  name: string;
+  // Plain aliases match the whole name, or its start followed by a branch ("セブン-イレブン 新宿店");
+  // /slashes/ mark a case-insensitive regular expression
+  aliases: string[];
+}
+
+// Columns of a spreadsheet import that map onto transaction fields
+export type ImportField = 'name' | 'amount' | 'date' | 'category' | 'location';
+
+// Which records a negative amount stands for: bank exports list money out as negative,
+// credit card statements list charges as positive
+export type AmountSign = 'negative-expense' | 'positive-expense';
+
+// A saved column mapping, typically one per bank or export format
+export interface ImportPreset {
+  id: string;
+  name: string;
+  header: string[]; // header cells it was saved for, to pick it again for the same export
+  headerRow: number; // 0-based; data starts on the next row
+  columns: Partial<Record<ImportField, number>>;
+  dateFormat: string; // e.g. "DD/MM/YYYY HH:mm"; empty to detect ISO-like dates
+  decimal: '.' | ',';
+  sign: AmountSign;
+  currency: string;
+}
+
+// Household-account apps whose exports can be imported
+export type LedgerApp = 'zaim' | 'moneyforward' | 'suishouji' | 'shayu' | 'qianji';
+
+// Maps an app's own category onto one of ours. An empty medium category covers every medium
+// category of the large one that has no mapping of its own.
+export interface CategoryMapping {
+  id: string; // app|kind|large|medium
+  app: LedgerApp;
+  kind: CategoryKind;
+  large: string;
+  medium: string;
+  category: CategoryId; // '' leaves the records to rules
+}
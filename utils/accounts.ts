@@ -0,0 +1,71 @@
+import { createContext, useContext } from 'react';
+import { Account, Transaction } from '../types';
+import { DEFAULT_ACCOUNTS } from '../constants';
+import { signedAmount } from './helpers';
+
+export const newAccountId = () => 'acc-' + Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+
+type AmountOf = (t: Transaction) => number;
+
+const plainAmount: AmountOf = t => t.amount;
+
+// How a transaction changes one account's balance (0 when it does not touch the account).
+// `amountOf` converts mixed-currency records, e.g. CurrencyConverter.toBase.
+export const accountDelta = (t: Transaction, accountId: string, amountOf: AmountOf = plainAmount): number => {
+  const amount = amountOf(t);
+  if (t.direction === 'transfer') {
+    if (t.accountId === accountId && t.toAccountId === accountId) return 0;
+    if (t.accountId === accountId) return -amount;
+    if (t.toAccountId === accountId) return amount;
+    return 0;
+  }
+  return t.accountId === accountId ? signedAmount({ ...t, amount }) : 0;
+};
+
+export const touchesAccount = (t: Transaction, accountId: string) =>
+  t.accountId === accountId || (t.direction === 'transfer' && t.toAccountId === accountId);
+
+// Current balance of every account: opening balance plus all of its transactions
+export const accountBalances = (accounts: Account[], transactions: Transaction[], amountOf: AmountOf = plainAmount): Map<string, number> => {
+  const balances = new Map<string, number>(accounts.map(a => [a.id, a.openingBalance] as [string, number]));
+  const add = (id: string | undefined, delta: number) => {
+    if (id && balances.has(id)) balances.set(id, balances.get(id)! + delta);
+  };
+  for (const t of transactions) {
+    const amount = amountOf(t);
+    if (t.direction === 'transfer') {
+      add(t.accountId, -amount);
+      add(t.toAccountId, amount);
+    } else {
+      add(t.accountId, signedAmount({ ...t, amount }));
+    }
+  }
+  return balances;
+};
+
+export interface LedgerEntry {
+  tx: Transaction;
+  delta: number;
+  balance: number; // balance right after this transaction
+}
+
+// The account's transactions newest first, each with the running balance after it
+export const accountLedger = (account: Account, transactions: Transaction[], amountOf: AmountOf = plainAmount): LedgerEntry[] => {
+  const chronological = transactions
+    .filter(t => touchesAccount(t, account.id))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.addedAt.localeCompare(b.addedAt));
+  let balance = account.openingBalance;
+  const entries = chronological.map(tx => {
+    const delta = accountDelta(tx, account.id, amountOf);
+    balance += delta;
+    return { tx, delta, balance };
+  });
+  return entries.reverse();
+};
+
+export const AccountContext = createContext<Account[]>(DEFAULT_ACCOUNTS);
+
+export const useAccounts = () => useContext(AccountContext);
+
+export const accountName = (accounts: Account[], id: string | undefined) =>
+  (id && accounts.find(a => a.id === id)?.name) || '未指定账户';
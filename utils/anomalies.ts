@@ -0,0 +1,150 @@
+import { Transaction } from '../types';
+import { CategoryRegistry } from './categories';
+import { MerchantIndex } from './merchants';
+
+// Local checks for records worth a second look: amounts far outside what the merchant (or, with
+// too little merchant history, the category) usually costs, and likely duplicates that the exact
+// name|date|amount key does not catch.
+export type Anomaly =
+  | {
+      kind: 'outlier';
+      scope: 'merchant' | 'category';
+      median: number; // typical amount in the report currency
+      ratio: number; // this amount / median
+      decimalSlip: boolean; // a hundredth of the amount would be typical: probably a lost decimal point
+    }
+  | { kind: 'duplicate'; otherId: string };
+
+export const ANOMALY_LABELS: Record<Anomaly['kind'], string> = {
+  outlier: '金额异常',
+  duplicate: '疑似重复',
+};
+
+// Enough history for the spread to mean something
+const MIN_MERCHANT_SAMPLES = 5;
+const MIN_CATEGORY_SAMPLES = 10;
+// On a log scale, so the test reads as "this many typical spreads above the median"
+const OUTLIER_Z = 3.5;
+// Even with a tight spread, small differences are not worth flagging
+const MIN_RATIO = 3;
+
+const median = (sorted: number[]) => {
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+interface Spread {
+  median: number; // of the amounts
+  logMedian: number;
+  logMad: number; // median absolute deviation of log10(amount), scaled to a standard deviation
+}
+
+const spreadOf = (amounts: number[]): Spread => {
+  const logs = amounts.map(Math.log10).sort((a, b) => a - b);
+  const logMedian = median(logs);
+  const deviations = logs.map(l => Math.abs(l - logMedian)).sort((a, b) => a - b);
+  return { median: median(amounts.slice().sort((a, b) => a - b)), logMedian, logMad: median(deviations) * 1.4826 };
+};
+
+const outlierIn = (amount: number, spread: Spread, scope: 'merchant' | 'category'): Anomaly | null => {
+  if (spread.median <= 0) return null;
+  const ratio = amount / spread.median;
+  // A floor on the spread keeps merchants that always charge the same price from flagging small changes
+  const z = (Math.log10(amount) - spread.logMedian) / Math.max(spread.logMad, 0.15);
+  if (ratio < MIN_RATIO || z < OUTLIER_Z) return null;
+  const slipped = amount / 100;
+  return { kind: 'outlier', scope, median: spread.median, ratio, decimalSlip: slipped >= spread.median / 2 && slipped <= spread.median * 2 };
+};
+
+const loosely = (name: string) => name.toLowerCase().replace(/[\s\p{P}\p{S}]/gu, '');
+
+// Flags per transaction ID. `amountOf` converts to the report currency; records it cannot
+// convert (it returns 0) are left out.
+export const detectAnomalies = (
+  transactions: Transaction[],
+  registry: CategoryRegistry,
+  merchants: MerchantIndex,
+  amountOf: (t: Transaction) => number,
+): Map<string, Anomaly[]> => {
+  const out = new Map<string, Anomaly[]>();
+  const flag = (id: string, anomaly: Anomaly) => {
+    const list = out.get(id);
+    if (list) list.push(anomaly);
+    else out.set(id, [anomaly]);
+  };
+
+  const expenses = transactions
+    .filter(t => t.direction === 'expense')
+    .map(t => ({ t, amount: amountOf(t), merchant: merchants.groupKey(t.name) }))
+    .filter(e => e.amount > 0);
+
+  const group = <K,>(keyOf: (e: typeof expenses[number]) => K) => {
+    const map = new Map<K, number[]>();
+    expenses.forEach(e => {
+      const key = keyOf(e);
+      const amounts = map.get(key);
+      if (amounts) amounts.push(e.amount);
+      else map.set(key, [e.amount]);
+    });
+    const spreads = new Map<K, { spread: Spread; count: number }>();
+    map.forEach((amounts, key) => spreads.set(key, { spread: spreadOf(amounts), count: amounts.length }));
+    return spreads;
+  };
+  const byMerchant = group(e => e.merchant);
+  const byCategory = group(e => registry.rootOf(e.t.category));
+
+  for (const e of expenses) {
+    const m = byMerchant.get(e.merchant)!;
+    const c = byCategory.get(registry.rootOf(e.t.category))!;
+    const anomaly = m.count >= MIN_MERCHANT_SAMPLES
+      ? outlierIn(e.amount, m.spread, 'merchant')
+      : c.count >= MIN_CATEGORY_SAMPLES ? outlierIn(e.amount, c.spread, 'category') : null;
+    if (anomaly) flag(e.t.id, anomaly);
+  }
+
+  // Same day, direction, currency and amount, and the same merchant or one name containing the
+  // other, e.g. a receipt recognized twice at different times or under a longer name
+  const byDay = new Map<string, Transaction[]>();
+  transactions.forEach(t => {
+    if (t.direction === 'transfer') return;
+    const key = `${t.date.slice(0, 10)}|${t.direction}|${t.currency}|${t.amount}`;
+    const list = byDay.get(key);
+    if (list) list.push(t);
+    else byDay.set(key, [t]);
+  });
+  byDay.forEach(list => {
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length; j++) {
+        const [a, b] = [list[i], list[j]];
+        // Generated by the same recurring rule on purpose
+        if (a.recurringRuleId && a.recurringRuleId === b.recurringRuleId) continue;
+        const [na, nb] = [loosely(a.name), loosely(b.name)];
+        const similar = merchants.groupKey(a.name) === merchants.groupKey(b.name) || (na && nb && (na.includes(nb) || nb.includes(na)));
+        if (!similar) continue;
+        flag(a.id, { kind: 'duplicate', otherId: b.id });
+        flag(b.id, { kind: 'duplicate', otherId: a.id });
+      }
+    }
+  });
+
+  return out;
+};
+
+// Dismissed flags are remembered per transaction and kind, so a later edit that makes a record
+// look odd in a different way still shows up
+export const anomalyKey = (transactionId: string, anomaly: Anomaly) => `${transactionId}|${anomaly.kind}`;
+
+const DISMISSED_KEY = 'dismissedAnomalies';
+
+export const loadDismissedAnomalies = (): Set<string> => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(DISMISSED_KEY) || '[]');
+    return new Set(Array.isArray(raw) ? raw.map(String) : []);
+  } catch {
+    return new Set();
+  }
+};
+
+export const saveDismissedAnomalies = (dismissed: Set<string>) => {
+  try { localStorage.setItem(DISMISSED_KEY, JSON.stringify(Array.from(dismissed))); } catch {}
+};
@@ -0,0 +1,94 @@
+import { Account, AccountType, Budget, CategoryDef, Transaction } from '../types';
+import { ACCOUNT_TYPE_LABELS } from '../constants';
+
+// Version 1 was a bare JSON array of transactions; version 3 added accounts, version 4 categories.
+// Recurring rules, exchange rates, category rules, merchants and category mappings are not backed up.
+export const BACKUP_VERSION = 4;
+
+export interface BackupData {
+  transactions: any[];
+  budgets: Budget[];
+  accounts: Account[];
+  categories: CategoryDef[];
+}
+
+export const buildBackup = (data: { transactions: Transaction[]; budgets: Budget[]; accounts: Account[]; categories: CategoryDef[] }) => ({
+  app: 'bill-recorder',
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  ...data,
+});
+
+const isMonth = (v: unknown) => typeof v === 'string' && /^\d{4}-\d{2}$/.test(v);
+
+const sanitizeBudgets = (list: unknown): Budget[] => {
+  if (!Array.isArray(list)) return [];
+  return list
+    .filter((b: any) => b && typeof b.id === 'string' && isFinite(Number(b.amount)) && Number(b.amount) > 0 && isMonth(b.startMonth))
+    .map((b: any) => ({
+      id: b.id,
+      categoryId: b.categoryId ? String(b.categoryId) : undefined,
+      amount: Number(b.amount),
+      rollover: !!b.rollover,
+      startMonth: b.startMonth,
+    }));
+};
+
+const sanitizeAccounts = (list: unknown): Account[] => {
+  if (!Array.isArray(list)) return [];
+  return list
+    .filter((a: any) => a && typeof a.id === 'string' && typeof a.name === 'string' && a.name.trim())
+    .map((a: any, i: number) => ({
+      id: a.id,
+      name: a.name.trim(),
+      type: a.type in ACCOUNT_TYPE_LABELS ? (a.type as AccountType) : 'other',
+      openingBalance: isFinite(Number(a.openingBalance)) ? Number(a.openingBalance) : 0,
+      archived: a.archived ? true : undefined,
+      order: isFinite(Number(a.order)) ? Number(a.order) : i,
+    }));
+};
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+// A subcategory whose parent is not in the file keeps its parent only if the ledger has it;
+// that is checked when the categories are merged
+const sanitizeCategories = (list: unknown): CategoryDef[] => {
+  if (!Array.isArray(list)) return [];
+  return list
+    .filter((c: any) => c && typeof c.id === 'string' && c.id && typeof c.name === 'string' && c.name.trim() && (c.kind === 'expense' || c.kind === 'income'))
+    .map((c: any, i: number) => ({
+      id: c.id,
+      name: c.name.trim(),
+      kind: c.kind,
+      color: HEX_COLOR.test(c.color) ? c.color : '#9CA3AF',
+      icon: typeof c.icon === 'string' && c.icon ? c.icon : 'other',
+      parentId: typeof c.parentId === 'string' && c.parentId && c.parentId !== c.id ? c.parentId : undefined,
+      archived: c.archived ? true : undefined,
+      builtin: c.builtin ? true : undefined,
+      order: isFinite(Number(c.order)) ? Number(c.order) : i,
+    }));
+};
+
+// Accepts the current backup object as well as the original bare array of transactions
+export const parseBackup = (json: unknown): BackupData => {
+  if (Array.isArray(json)) return { transactions: json, budgets: [], accounts: [], categories: [] };
+  if (json && typeof json === 'object' && Array.isArray((json as any).transactions)) {
+    const obj = json as any;
+    return {
+      transactions: obj.transactions,
+      budgets: sanitizeBudgets(obj.budgets),
+      accounts: sanitizeAccounts(obj.accounts),
+      categories: sanitizeCategories(obj.categories),
+    };
+  }
+  throw new Error('JSON 须为交易数组或备份文件');
+};
+
+// Categories from the file that the ledger does not have yet, restored before the transactions
+// that use them; a parent that exists in neither place is dropped so the category stays pickable
+export const categoriesToAdd = (incoming: CategoryDef[], existing: CategoryDef[]): CategoryDef[] => {
+  const known = new Set(existing.map(c => c.id));
+  const added = incoming.filter(c => !known.has(c.id));
+  const parents = new Set([...known, ...added.map(c => c.id)]);
+  return added.map(c => (c.parentId && !parents.has(c.parentId) ? { ...c, parentId: undefined } : c));
+};
@@ -0,0 +1,90 @@
+import { Budget, CategoryId, Transaction } from '../types';
+import { CategoryRegistry } from './categories';
+import { addMonths } from './helpers';
+
+export interface MonthSpending {
+  total: number;
+  byCategory: Map<CategoryId, number>;
+}
+
+export interface BudgetStatus {
+  budget: Budget;
+  carried: number; // unspent amount rolled over from earlier months
+  available: number;
+  spent: number;
+  remaining: number;
+  ratio: number; // spent / available
+  over: boolean;
+}
+
+// Net spending (expenses minus refunds) per YYYY-MM. Category totals are recorded for the
+// transaction's own category and, for subcategories, for the top-level parent as well.
+// `amountOf` converts mixed-currency records into the budget currency.
+export const spendingByMonth = (
+  transactions: Transaction[],
+  registry: CategoryRegistry,
+  amountOf: (t: Transaction) => number = t => t.amount,
+): Map<string, MonthSpending> => {
+  const out = new Map<string, MonthSpending>();
+  for (const t of transactions) {
+    if (t.direction === 'income' || t.direction === 'transfer') continue;
+    const amount = amountOf(t);
+    const delta = t.direction === 'refund' ? -amount : amount;
+    const ym = t.date.slice(0, 7);
+    let m = out.get(ym);
+    if (!m) { m = { total: 0, byCategory: new Map() }; out.set(ym, m); }
+    m.total += delta;
+    const root = registry.rootOf(t.category);
+    m.byCategory.set(t.category, (m.byCategory.get(t.category) || 0) + delta);
+    if (root !== t.category) m.byCategory.set(root, (m.byCategory.get(root) || 0) + delta);
+  }
+  return out;
+};
+
+// Net spending per top-level category, largest first. Refunds are netted against the category
+// they came back to; categories with nothing left are dropped.
+export const spendingByRoot = (
+  transactions: Transaction[],
+  registry: CategoryRegistry,
+  amountOf: (t: Transaction) => number = t => t.amount,
+): { id: CategoryId; value: number }[] => {
+  const byRoot = new Map<CategoryId, number>();
+  for (const t of transactions) {
+    if (t.direction === 'income' || t.direction === 'transfer') continue;
+    const amount = amountOf(t);
+    const root = registry.rootOf(t.category);
+    byRoot.set(root, (byRoot.get(root) || 0) + (t.direction === 'refund' ? -amount : amount));
+  }
+  return Array.from(byRoot, ([id, value]) => ({ id, value }))
+    .filter(r => r.value > 0)
+    .sort((a, b) => b.value - a.value);
+};
+
+export const budgetStatus = (budget: Budget, month: string, spending: Map<string, MonthSpending>): BudgetStatus | null => {
+  if (month < budget.startMonth) return null;
+  const spentIn = (ym: string) => {
+    const s = spending.get(ym);
+    if (!s) return 0;
+    return budget.categoryId ? s.byCategory.get(budget.categoryId) || 0 : s.total;
+  };
+  let carried = 0;
+  if (budget.rollover) {
+    // Only unspent money rolls over; an overspent month resets the carry to zero
+    for (let ym = budget.startMonth; ym < month; ym = addMonths(ym, 1)) {
+      carried = Math.max(0, carried + budget.amount - spentIn(ym));
+    }
+  }
+  const available = budget.amount + carried;
+  const spent = spentIn(month);
+  return {
+    budget,
+    carried,
+    available,
+    spent,
+    remaining: available - spent,
+    ratio: available > 0 ? spent / available : spent > 0 ? Infinity : 0,
+    over: spent > available,
+  };
+};
+
+export const newBudgetId = () => 'bud-' + Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
@@ -0,0 +1,53 @@
+import { Transaction } from '../types';
+import { localDateStr } from './helpers';
+import { addDays } from './periods';
+
+// Net spending per YYYY-MM-DD (expenses minus refunds); `amountOf` converts to the report currency
+export const spendingByDay = (transactions: Transaction[], amountOf: (t: Transaction) => number): Map<string, number> => {
+  const out = new Map<string, number>();
+  for (const t of transactions) {
+    if (t.direction === 'income' || t.direction === 'transfer') continue;
+    const day = t.date.slice(0, 10);
+    const amount = amountOf(t);
+    out.set(day, (out.get(day) || 0) + (t.direction === 'refund' ? -amount : amount));
+  }
+  return out;
+};
+
+export const HEAT_LEVELS = 5;
+
+// Shade 0 means no spending; days with spending split into quartiles, so one large purchase
+// does not wash out the rest of the view
+export const heatScale = (values: number[]): ((value: number) => number) => {
+  const sorted = values.filter(v => v > 0).sort((a, b) => a - b);
+  const cut = (q: number) => sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * q))];
+  const bounds = sorted.length ? [cut(0.25), cut(0.5), cut(0.75)] : [];
+  return value => {
+    if (value <= 0 || !bounds.length) return 0;
+    return 1 + bounds.filter(b => value > b).length;
+  };
+};
+
+// Weeks of the month as rows of 7 days starting on `weekStart` (0 = Sunday); days outside the month are null
+export const monthGrid = (month: string, weekStart: number): (string | null)[][] => {
+  const [y, m] = month.split('-').map(Number);
+  const first = new Date(y, m - 1, 1);
+  const days = new Date(y, m, 0).getDate();
+  const cells: (string | null)[] = Array((first.getDay() - weekStart + 7) % 7).fill(null);
+  for (let d = 1; d <= days; d++) cells.push(`${month}-${String(d).padStart(2, '0')}`);
+  while (cells.length % 7) cells.push(null);
+  return Array.from({ length: cells.length / 7 }, (_, i) => cells.slice(i * 7, i * 7 + 7));
+};
+
+// The year as columns of weeks, each 7 days from `weekStart`; days in the neighbouring years are null
+export const yearWeeks = (year: number, weekStart: number): (string | null)[][] => {
+  const first = localDateStr(new Date(year, 0, 1));
+  let day = addDays(first, -((new Date(year, 0, 1).getDay() - weekStart + 7) % 7));
+  const weeks: (string | null)[][] = [];
+  while (day <= `${year}-12-31`) {
+    const week: (string | null)[] = [];
+    for (let i = 0; i < 7; i++, day = addDays(day, 1)) week.push(day.startsWith(`${year}-`) ? day : null);
+    weeks.push(week);
+  }
+  return weeks;
+};
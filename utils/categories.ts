@@ -0,0 +1,67 @@
+import { createContext, useContext } from 'react';
+import { CategoryDef, CategoryId, CategoryKind, Direction } from '../types';
+import { DEFAULT_CATEGORIES } from '../constants';
+
+export interface CategoryRegistry {
+  all: CategoryDef[];
+  has: (id: CategoryId) => boolean;
+  // Always returns a definition; unknown IDs (e.g. from old imports) render as a gray placeholder
+  get: (id: CategoryId) => CategoryDef;
+  // Non-archived categories of a kind, each parent followed by its children
+  active: (kind: CategoryKind) => CategoryDef[];
+  children: (id: CategoryId) => CategoryDef[];
+  // Top-level ancestor, used to roll subcategories up in analytics
+  rootOf: (id: CategoryId) => CategoryId;
+  // "居家 / 房租" for subcategories, the plain name otherwise
+  label: (id: CategoryId) => string;
+  // Matches an active category of the kind by ID or (case-insensitive) name
+  resolve: (idOrName: unknown, kind: CategoryKind) => CategoryId | undefined;
+}
+
+export const kindFor = (direction: Direction): CategoryKind => (direction === 'income' ? 'income' : 'expense');
+
+export const newCategoryId = () => 'cat-' + Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+
+const byOrder = (a: CategoryDef, b: CategoryDef) => a.order - b.order;
+
+export const buildRegistry = (defs: CategoryDef[]): CategoryRegistry => {
+  const all = defs.slice().sort(byOrder);
+  const byId = new Map<CategoryId, CategoryDef>(all.map(c => [c.id, c]));
+
+  const get = (id: CategoryId): CategoryDef =>
+    byId.get(id) || { id, name: String(id || '未分类'), kind: 'expense', color: '#9CA3AF', icon: 'other', order: Number.MAX_SAFE_INTEGER };
+
+  const children = (id: CategoryId) => all.filter(c => c.parentId === id);
+
+  const active = (kind: CategoryKind) => {
+    const roots = all.filter(c => c.kind === kind && !c.archived && !c.parentId);
+    return roots.flatMap(r => [r, ...children(r.id).filter(c => !c.archived)]);
+  };
+
+  const rootOf = (id: CategoryId) => {
+    const c = byId.get(id);
+    return c && c.parentId && byId.has(c.parentId) ? c.parentId : id;
+  };
+
+  const label = (id: CategoryId) => {
+    const c = get(id);
+    return c.parentId && byId.has(c.parentId) ? `${get(c.parentId).name} / ${c.name}` : c.name;
+  };
+
+  const resolve = (idOrName: unknown, kind: CategoryKind) => {
+    if (idOrName == null || idOrName === '') return undefined;
+    const key = String(idOrName).trim();
+    const candidates = active(kind);
+    const hit = candidates.find(c => c.id === key)
+      || candidates.find(c => c.name.toLowerCase() === key.toLowerCase());
+    return hit?.id;
+  };
+
+  return { all, has: (id) => byId.has(id), get, active, children, rootOf, label, resolve };
+};
+
+export const DEFAULT_REGISTRY = buildRegistry(DEFAULT_CATEGORIES);
+
+export const CategoryContext = createContext<CategoryRegistry>(DEFAULT_REGISTRY);
+
+export const useCategories = () => useContext(CategoryContext);
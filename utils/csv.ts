@@ -0,0 +1,59 @@
+// Statement exports are GBK when they come from Chinese banks and payment apps, Shift_JIS from
+// Japanese ones, UTF-8 (often with a BOM) otherwise. Valid UTF-8 is taken as such; anything
+// else is read with the fallback, by default GB18030, which is a superset of GBK.
+export const decodeText = (buffer: ArrayBuffer, fallback = 'gb18030'): string => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return new TextDecoder('utf-8').decode(bytes.subarray(3));
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder(fallback).decode(bytes);
+  }
+};
+
+// RFC 4180 CSV: quoted fields may contain commas, doubled quotes and line breaks
+export const parseCsv = (text: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') { field += '"'; i++; } else quoted = false;
+      } else field += ch;
+    } else if (ch === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else field += ch;
+  }
+  if (field !== '' || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Exports with decimal commas usually separate fields with semicolons; some use tabs
+export const detectDelimiter = (text: string): string => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim()).slice(0, 20);
+  let best = ',';
+  let bestScore = 0;
+  for (const d of [',', ';', '\t']) {
+    const counts = lines.map(l => l.split(d).length - 1);
+    // Lines with the delimiter, weighted by how often it appears on them
+    const score = counts.filter(c => c > 0).length * Math.min(...counts.filter(c => c > 0), Infinity);
+    if (counts.some(c => c > 0) && score > bestScore) { best = d; bestScore = score; }
+  }
+  return best;
+};
@@ -0,0 +1,87 @@
+import { createContext, useContext } from 'react';
+import { ExchangeRate, Transaction } from '../types';
+import { CURRENCY_NAMES, DEFAULT_CURRENCY, DEFAULT_RATES } from '../constants';
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const formatterFor = (currency: string): Intl.NumberFormat => {
+  let f = formatters.get(currency);
+  if (!f) {
+    try {
+      f = new Intl.NumberFormat('zh-CN', { style: 'currency', currency });
+    } catch {
+      // Unknown code: plain number with the code in front
+      f = new Intl.NumberFormat('zh-CN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    }
+    formatters.set(currency, f);
+  }
+  return f;
+};
+
+// Minor units of a currency, e.g. 2 for CNY, 0 for JPY/KRW
+export const currencyDecimals = (currency: string): number =>
+  formatterFor(currency).resolvedOptions().maximumFractionDigits ?? 2;
+
+export const roundAmount = (amount: number, currency: string): number => {
+  const f = Math.pow(10, currencyDecimals(currency));
+  return Math.round(amount * f) / f;
+};
+
+// "¥1,234.50", "JP¥1,200", "US$3.99"; `signed` prefixes "+" for positive values
+export const formatMoney = (amount: number, currency: string, signed = false): string => {
+  const f = formatterFor(currency);
+  const text = f.resolvedOptions().style === 'currency' ? f.format(Math.abs(amount)) : `${currency} ${f.format(Math.abs(amount))}`;
+  if (amount < 0) return `-${text}`;
+  return signed && amount > 0 ? `+${text}` : text;
+};
+
+export const currencyLabel = (code: string) => (CURRENCY_NAMES[code] ? `${CURRENCY_NAMES[code]} ${code}` : code);
+
+// Three-letter codes only; anything else falls back to the caller's default
+export const normalizeCurrency = (raw: unknown, fallback: string = DEFAULT_CURRENCY): string => {
+  const code = typeof raw === 'string' ? raw.trim().toUpperCase() : '';
+  if (code === 'RMB') return 'CNY';
+  return /^[A-Z]{3}$/.test(code) ? code : fallback;
+};
+
+export interface CurrencyConverter {
+  base: string;
+  // CNY per unit for every currency with a rate (CNY itself is always 1)
+  rates: Map<string, number>;
+  // undefined when a rate is missing
+  convert: (amount: number, from: string, to?: string) => number | undefined;
+  // Amount in the base currency for totals; records without a rate count as 0
+  toBase: (t: Pick<Transaction, 'amount' | 'currency'>) => number;
+  // Currencies in the list that cannot be converted to the base currency
+  missingRates: (list: Pick<Transaction, 'currency'>[]) => string[];
+  format: (amount: number, signed?: boolean) => string;
+}
+
+export const buildConverter = (base: string, table: ExchangeRate[]): CurrencyConverter => {
+  const rates = new Map<string, number>(table.filter(r => r.rate > 0).map(r => [r.currency, r.rate] as [string, number]));
+  rates.set(DEFAULT_CURRENCY, 1);
+
+  const convert = (amount: number, from: string, to: string = base) => {
+    if (from === to) return amount;
+    const a = rates.get(from || DEFAULT_CURRENCY);
+    const b = rates.get(to);
+    return a && b ? (amount * a) / b : undefined;
+  };
+
+  const toBase = (t: Pick<Transaction, 'amount' | 'currency'>) => convert(t.amount, t.currency || DEFAULT_CURRENCY) ?? 0;
+
+  const missingRates = (list: Pick<Transaction, 'currency'>[]) => {
+    const missing = new Set<string>();
+    for (const t of list) {
+      const c = t.currency || DEFAULT_CURRENCY;
+      if (c !== base && (!rates.has(c) || !rates.has(base))) missing.add(c);
+    }
+    return [...missing];
+  };
+
+  return { base, rates, convert, toBase, missingRates, format: (amount, signed) => formatMoney(amount, base, signed) };
+};
+
+export const CurrencyContext = createContext<CurrencyConverter>(buildConverter(DEFAULT_CURRENCY, DEFAULT_RATES));
+
+export const useCurrency = () => useContext(CurrencyContext);
@@ -0,0 +1,27 @@
+import { CategoryId, Transaction } from '../types';
+import { CategoryRegistry } from './categories';
+
+// Which records an export includes; shared by the journal and spreadsheet exports
+export interface ExportFilter {
+  from: string; // YYYY-MM-DD, empty for no limit
+  to: string;
+  // Top-level categories left out; subcategories follow their parent
+  excluded: CategoryId[];
+  includeTransfers: boolean;
+}
+
+export const DEFAULT_EXPORT_FILTER: ExportFilter = { from: '', to: '', excluded: [], includeTransfers: true };
+
+// Oldest first, the order both journals and spreadsheets are read in
+export const filterForExport = (transactions: Transaction[], filter: ExportFilter, registry: CategoryRegistry): Transaction[] => {
+  const excluded = new Set(filter.excluded);
+  return transactions
+    .filter(t => {
+      const day = t.date.slice(0, 10);
+      if (filter.from && day < filter.from) return false;
+      if (filter.to && day > filter.to) return false;
+      if (t.direction === 'transfer') return filter.includeTransfers;
+      return !excluded.has(registry.rootOf(t.category));
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
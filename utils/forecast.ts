@@ -0,0 +1,178 @@
+import { CategoryId, Transaction } from '../types';
+import { CategoryRegistry } from './categories';
+import { MerchantIndex } from './merchants';
+import { Period, PeriodSettings, daysBetween, inPeriod, periodAt, shiftPeriod } from './periods';
+
+// How many earlier periods the daily spending curve is learned from
+const HISTORY_PERIODS = 6;
+// A charge repeats when it was seen once in each of the last few periods at a similar amount
+const REPEAT_PERIODS = 3;
+const REPEAT_TOLERANCE = 0.25;
+
+export interface RepeatingCharge {
+  name: string;
+  category: CategoryId; // root
+  amount: number; // expected, in the report currency
+  day: number; // day of the period it usually lands on, 0-based
+}
+
+export interface CategoryForecast {
+  id: CategoryId; // root
+  spent: number;
+  projected: number;
+}
+
+export interface Forecast {
+  elapsed: number; // days of the period up to and including today
+  days: number;
+  spent: number;
+  projected: number;
+  byCategory: CategoryForecast[]; // largest projection first
+  pending: RepeatingCharge[]; // repeating charges not seen yet this period
+  // Running total for each day of the period: actual up to today, projected after
+  curve: number[];
+}
+
+const netSpend = (t: Transaction, amountOf: (t: Transaction) => number) =>
+  t.direction === 'expense' ? amountOf(t) : t.direction === 'refund' ? -amountOf(t) : 0;
+
+const periodDays = (period: Period) => daysBetween(period.start, period.end) + 1;
+
+// Day of the period, 0-based; a longer month's extra days land on the last day of a shorter one
+const dayOf = (t: Transaction, period: Period, days: number) => Math.min(days - 1, daysBetween(period.start, t.date.slice(0, 10)));
+
+// Net spending running total for each day of the period, in the report currency
+export const cumulativeSpending = (transactions: Transaction[], period: Period, amountOf: (t: Transaction) => number): number[] => {
+  const days = periodDays(period);
+  const daily: number[] = Array(days).fill(0);
+  for (const t of transactions) {
+    if (inPeriod(t, period)) daily[dayOf(t, period, days)] += netSpend(t, amountOf);
+  }
+  let sum = 0;
+  return daily.map(v => (sum += v));
+};
+
+// The same period a year earlier; month starts are at most the 28th, so the day always exists
+export const yearEarlier = (period: Period, settings: PeriodSettings): Period =>
+  periodAt(`${Number(period.start.slice(0, 4)) - 1}${period.start.slice(4)}`, settings);
+
+// Projects where the period containing `today` will end up: what is spent so far, plus repeating
+// charges that have not come in yet, plus what earlier periods spent on the remaining days. Without
+// earlier periods to learn from, the pace so far is extended to the end.
+export const forecastPeriod = (
+  transactions: Transaction[],
+  period: Period,
+  settings: PeriodSettings,
+  today: string,
+  registry: CategoryRegistry,
+  merchants: MerchantIndex,
+  amountOf: (t: Transaction) => number,
+): Forecast | null => {
+  if (today < period.start || today > period.end) return null;
+  const days = periodDays(period);
+  const elapsed = daysBetween(period.start, today) + 1;
+  const keyOf = (t: Transaction) => (t.recurringRuleId ? `rule:${t.recurringRuleId}` : merchants.groupKey(t.name));
+
+  // Earlier periods, newest first, stopping at the first one before any records
+  const earliest = transactions.reduce((min, t) => (t.date < min ? t.date : min), today).slice(0, 10);
+  const history: { period: Period; days: number; items: Transaction[] }[] = [];
+  for (let p = shiftPeriod(period, -1, settings); history.length < HISTORY_PERIODS && p.end >= earliest; p = shiftPeriod(p, -1, settings)) {
+    history.push({ period: p, days: periodDays(p), items: [] });
+  }
+  for (const t of transactions) {
+    if (t.direction !== 'expense' && t.direction !== 'refund') continue;
+    const h = history.find(h => inPeriod(t, h.period));
+    if (h) h.items.push(t);
+  }
+
+  // Repeating charges: one expense per period under the same rule or merchant, at a steady amount
+  const recent = history.slice(0, REPEAT_PERIODS);
+  const repeating = new Map<string, RepeatingCharge>();
+  if (recent.length >= 2) {
+    const perPeriod = recent.map(h => {
+      const seen = new Map<string, Transaction[]>();
+      h.items.forEach(t => {
+        if (t.direction !== 'expense') return;
+        const list = seen.get(keyOf(t));
+        if (list) list.push(t);
+        else seen.set(keyOf(t), [t]);
+      });
+      return seen;
+    });
+    perPeriod[0].forEach((latest, key) => {
+      const hits = perPeriod.map(seen => seen.get(key));
+      if (hits.some(list => !list || list.length !== 1)) return;
+      const charges = hits.map(list => list![0]);
+      const amounts = charges.map(amountOf).sort((a, b) => a - b);
+      const typical = amounts[amounts.length >> 1];
+      if (typical <= 0 || amounts.some(a => Math.abs(a - typical) > typical * REPEAT_TOLERANCE)) return;
+      repeating.set(key, {
+        name: merchants.canonical(latest[0].name),
+        category: registry.rootOf(latest[0].category),
+        amount: typical,
+        day: dayOf(latest[0], recent[0].period, recent[0].days),
+      });
+    });
+  }
+
+  const current = transactions.filter(t => inPeriod(t, period) && t.date.slice(0, 10) <= today);
+  const spentBy = new Map<CategoryId, number>();
+  current.forEach(t => {
+    const amount = netSpend(t, amountOf);
+    if (!amount) return;
+    const root = registry.rootOf(t.category);
+    spentBy.set(root, (spentBy.get(root) || 0) + amount);
+  });
+  const seenNow = new Set(current.map(keyOf));
+  const pending = Array.from(repeating, ([key, charge]) => ({ key, charge }))
+    .filter(({ key }) => !seenNow.has(key))
+    .map(({ charge }) => charge)
+    .sort((a, b) => a.day - b.day);
+
+  // What earlier periods spent on the days still ahead, averaged, leaving out repeating charges
+  // since those are counted above
+  const restBy = new Map<CategoryId, number>();
+  const restDaily: number[] = Array(days).fill(0);
+  history.forEach(h => {
+    h.items.forEach(t => {
+      if (repeating.has(keyOf(t))) return;
+      const day = dayOf(t, h.period, h.days);
+      if (day < elapsed || day >= days) return;
+      const amount = netSpend(t, amountOf) / history.length;
+      const root = registry.rootOf(t.category);
+      restBy.set(root, (restBy.get(root) || 0) + amount);
+      restDaily[day] += amount;
+    });
+  });
+  if (!history.length) {
+    spentBy.forEach((spent, id) => restBy.set(id, Math.max(0, spent) * (days - elapsed) / elapsed));
+  }
+  pending.forEach(c => restBy.set(c.category, (restBy.get(c.category) || 0) + c.amount));
+
+  const ids = new Set([...spentBy.keys(), ...restBy.keys()]);
+  const byCategory = Array.from(ids, id => {
+    const spent = spentBy.get(id) || 0;
+    return { id, spent, projected: Math.max(0, spent + Math.max(0, restBy.get(id) || 0)) };
+  })
+    .filter(c => c.projected > 0 || c.spent > 0)
+    .sort((a, b) => b.projected - a.projected);
+  const spent = Array.from(spentBy.values()).reduce((sum, v) => sum + v, 0);
+  const projected = byCategory.reduce((sum, c) => sum + c.projected, 0);
+
+  // The days ahead follow the shape of earlier periods (evenly without them), scaled to the
+  // projection, with each pending charge on the day it usually lands
+  const actual = cumulativeSpending(current, period, amountOf);
+  const pendingTotal = pending.reduce((sum, c) => sum + c.amount, 0);
+  const spread = Math.max(0, projected - Math.max(0, spent) - pendingTotal);
+  const shape = restDaily.map(v => Math.max(0, v));
+  const shapeTotal = shape.reduce((sum, v) => sum + v, 0);
+  const curve = actual.slice(0, elapsed);
+  let running = curve[elapsed - 1];
+  for (let day = elapsed; day < days; day++) {
+    running += shapeTotal > 0 ? (spread * shape[day]) / shapeTotal : spread / (days - elapsed);
+    pending.forEach(c => { if (Math.min(Math.max(c.day, elapsed), days - 1) === day) running += c.amount; });
+    curve.push(running);
+  }
+
+  return { elapsed, days, spent, projected, byCategory, pending, curve };
+};
@@ -1,4 +1,6 @@
-export const fileToBase64 = (file: File): Promise<string> => {
+import { Transaction, Direction } from '../types';
+
+export const fileToBase64 = (file: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
@@ -10,3 +12,65 @@ export const fileToBase64 = (file: File): Promise<string> => {
     reader.onerror = (error) => reject(error);
   });
 };
+
+// Duplicate-detection key shared by uploads, imports and recurring rules. Direction and currency
+// are part of it, so an instant refund of a purchase is not mistaken for the purchase itself.
+export const txKey = (t: Pick<Transaction, 'name' | 'date' | 'amount' | 'direction' | 'currency'>): string =>
+  `${t.name}|${t.date}|${t.amount}|${t.direction}|${t.currency}`;
+
+// YYYY-MM-DD in local time
+export const localDateStr = (d: Date): string =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+// Money in is positive, money out is negative; transfers leave the overall total unchanged
+export const signedAmount = (t: Pick<Transaction, 'amount' | 'direction'>): number =>
+  t.direction === 'transfer' ? 0 : t.direction === 'expense' ? -t.amount : t.amount;
+
+export interface Totals {
+  income: number;
+  expense: number; // spending net of refunds
+  net: number;
+}
+
+// `amountOf` converts mixed-currency lists, e.g. CurrencyConverter.toBase
+export const summarize = <T extends Pick<Transaction, 'amount' | 'direction'>>(
+  list: T[],
+  amountOf: (t: T) => number = t => t.amount,
+): Totals => {
+  let income = 0;
+  let expense = 0;
+  for (const t of list) {
+    if (t.direction === 'transfer') continue;
+    const amount = amountOf(t);
+    if (t.direction === 'income') income += amount;
+    else if (t.direction === 'refund') expense -= amount;
+    else expense += amount;
+  }
+  return { income, expense, net: income - expense };
+};
+
+// Negative amounts from recognizers or imports are refunds unless a direction is given
+export const normalizeDirection = (raw: unknown, amount: number): Direction => {
+  if (raw === 'expense' || raw === 'income' || raw === 'refund' || raw === 'transfer') return raw;
+  return amount < 0 ? 'refund' : 'expense';
+};
+
+// Shifts a YYYY-MM month string by `delta` months
+export const addMonths = (ym: string, delta: number): string => {
+  const [y, m] = ym.split('-').map(Number);
+  const d = new Date(y, m - 1 + delta, 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// Saves a generated file through a temporary link
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Timestamp for export file names, e.g. 2024-05-01T12-30-00-000Z
+export const fileTimestamp = () => new Date().toISOString().replace(/[:.]/g, '-');
@@ -0,0 +1,132 @@
+import { Category, NewTransaction, Transaction } from '../types';
+import { FALLBACK_CATEGORIES } from '../constants';
+import { CategoryRegistry, kindFor } from './categories';
+import { normalizeCurrency } from './currency';
+import { normalizeDirection, txKey } from './helpers';
+import { MerchantIndex, normalizeMerchant } from './merchants';
+
+// How an incoming record relates to the ledger: exact duplicates share name, time and amount;
+// probable duplicates are the same merchant, day, direction and amount under a different name or time
+export type ImportStatus = 'new' | 'duplicate' | 'probable' | 'invalid';
+
+export type MergeStrategy = 'skip' | 'overwrite' | 'keepBoth';
+
+export const IMPORT_STATUS_LABELS: Record<ImportStatus, string> = {
+  new: '新记录',
+  duplicate: '完全重复',
+  probable: '疑似重复',
+  invalid: '无效',
+};
+
+export const MERGE_STRATEGY_LABELS: Record<MergeStrategy, string> = {
+  skip: '跳过',
+  overwrite: '覆盖已有记录',
+  keepBoth: '两条都保留',
+};
+
+export interface ImportCandidate {
+  status: ImportStatus;
+  tx?: NewTransaction; // absent when invalid
+  match?: Transaction; // the existing record it duplicates; absent for repeats within the file
+  reason?: string; // why it is invalid, or what was changed on the way in
+  raw: unknown;
+}
+
+interface ImportContext {
+  registry: CategoryRegistry;
+  merchants: MerchantIndex;
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/;
+
+// Unknown categories are matched by name, then fall back to 其他 so the record is not lost
+const importCategory = (raw: unknown, tx: Pick<NewTransaction, 'direction'>, registry: CategoryRegistry): { category: string; changed: boolean } => {
+  if (tx.direction === 'transfer') return { category: Category.Transfer, changed: false };
+  const kind = kindFor(tx.direction);
+  if (typeof raw === 'string' && registry.has(raw) && registry.get(raw).kind === kind) return { category: raw, changed: false };
+  const resolved = registry.resolve(raw, kind);
+  return resolved ? { category: resolved, changed: false } : { category: FALLBACK_CATEGORIES[kind], changed: raw != null && raw !== '' };
+};
+
+// One record from a backup or import, or the reason it cannot be imported
+export const normalizeImportItem = (it: any, ctx: ImportContext): { tx: NewTransaction; reason?: string } | { reason: string } => {
+  if (!it || typeof it !== 'object') return { reason: '不是有效的记录' };
+  const name = String(it.name || '').trim();
+  if (!name) return { reason: '缺少名称' };
+  const date = String(it.date || '').slice(0, 16); // YYYY-MM-DDTHH:mm
+  if (!DATE_RE.test(date) || isNaN(new Date(date).getTime())) return { reason: '日期无效' };
+  const rawAmount = Number(it.amount);
+  const amount = Math.abs(rawAmount);
+  if (!isFinite(amount) || amount <= 0) return { reason: '金额无效' };
+  const direction = normalizeDirection(it.direction, rawAmount);
+  const { category, changed } = importCategory(it.category, { direction }, ctx.registry);
+  const tx: NewTransaction = normalizeMerchant(ctx.merchants, {
+    name,
+    amount,
+    // Backups from before multi-currency support are all CNY
+    currency: normalizeCurrency(it.currency),
+    direction,
+    date,
+    category,
+    location: it.location ? String(it.location) : undefined,
+    note: it.note ? String(it.note) : undefined,
+    accountId: it.accountId ? String(it.accountId) : undefined,
+    toAccountId: direction === 'transfer' && it.toAccountId ? String(it.toAccountId) : undefined,
+  });
+  return changed ? { tx, reason: `分类“${it.category}”不存在，已归入${ctx.registry.get(category).name}` } : { tx };
+};
+
+const looseKey = (t: Pick<Transaction, 'date' | 'amount' | 'direction' | 'currency'>) => `${t.date.slice(0, 10)}|${t.amount}|${t.direction}|${t.currency}`;
+
+export const classifyImport = (items: unknown[], existing: Transaction[], ctx: ImportContext): ImportCandidate[] => {
+  const byKey = new Map(existing.map(t => [txKey(t), t]));
+  const byDay = new Map<string, Transaction[]>();
+  existing.forEach(t => byDay.set(looseKey(t), [...(byDay.get(looseKey(t)) || []), t]));
+  const seen = new Set<string>();
+
+  return items.map(raw => {
+    const result = normalizeImportItem(raw, ctx);
+    if (!('tx' in result)) return { status: 'invalid', reason: result.reason, raw };
+    const { tx } = result;
+    const key = txKey(tx);
+    const exact = byKey.get(key);
+    if (exact) return { status: 'duplicate', tx, match: exact, reason: result.reason, raw };
+    if (seen.has(key)) return { status: 'duplicate', tx, reason: '与文件中前面的记录重复', raw };
+    seen.add(key);
+    const group = ctx.merchants.groupKey(tx.name);
+    const probable = byDay.get(looseKey(tx))?.find(t => ctx.merchants.groupKey(t.name) === group);
+    if (probable) return { status: 'probable', tx, match: probable, reason: result.reason, raw };
+    return { status: 'new', tx, reason: result.reason, raw };
+  });
+};
+
+export interface ImportPlan {
+  added: NewTransaction[];
+  // Existing records replaced in place; they keep their ID and when they were added
+  overwrites: { id: string; tx: NewTransaction }[];
+  keptBoth: number; // included in `added`
+  skipped: number;
+  invalid: number;
+}
+
+// Duplicates within the file have nothing to overwrite and are skipped unless both are kept.
+// An existing record is overwritten at most once; later matches for it are skipped.
+export const planImport = (candidates: ImportCandidate[], strategies: Record<'duplicate' | 'probable', MergeStrategy>): ImportPlan => {
+  const plan: ImportPlan = { added: [], overwrites: [], keptBoth: 0, skipped: 0, invalid: 0 };
+  const overwritten = new Set<string>();
+  for (const c of candidates) {
+    if (c.status === 'invalid' || !c.tx) { plan.invalid += 1; continue; }
+    if (c.status === 'new') { plan.added.push(c.tx); continue; }
+    const strategy = strategies[c.status];
+    if (strategy === 'keepBoth') {
+      plan.added.push(c.tx);
+      plan.keptBoth += 1;
+    } else if (strategy === 'overwrite' && c.match && !overwritten.has(c.match.id)) {
+      overwritten.add(c.match.id);
+      plan.overwrites.push({ id: c.match.id, tx: c.tx });
+    } else {
+      plan.skipped += 1;
+    }
+  }
+  return plan;
+};
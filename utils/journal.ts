@@ -0,0 +1,175 @@
+import { Account, AccountType, Category, CategoryDef, CategoryId, Transaction } from '../types';
+import { CategoryRegistry } from './categories';
+import { currencyDecimals } from './currency';
+
+// Plain-text accounting journals for Beancount and ledger-cli. Every record becomes a balanced
+// two-posting transaction between a category account and a payment account.
+export type JournalFormat = 'beancount' | 'ledger';
+
+export const JOURNAL_LABELS: Record<JournalFormat, string> = {
+  beancount: 'Beancount',
+  ledger: 'Ledger (ledger-cli)',
+};
+
+export const JOURNAL_EXTENSIONS: Record<JournalFormat, string> = {
+  beancount: 'beancount',
+  ledger: 'ledger',
+};
+
+export interface JournalConfig {
+  format: JournalFormat;
+  // Account names set by the user; anything missing uses the default name
+  categoryAccounts: Record<string, string>;
+  paymentAccounts: Record<string, string>;
+  // For records without an account
+  defaultPayment: string;
+}
+
+export const DEFAULT_JOURNAL_CONFIG: JournalConfig = {
+  format: 'beancount',
+  categoryAccounts: {},
+  paymentAccounts: {},
+  defaultPayment: 'Assets:Unassigned',
+};
+
+const STORAGE_KEY = 'journalExport';
+
+const stringMap = (raw: unknown): Record<string, string> =>
+  raw && typeof raw === 'object' ? Object.fromEntries(Object.entries(raw).filter(([, v]) => typeof v === 'string' && v.trim())) : {};
+
+export const loadJournalConfig = (): JournalConfig => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!saved || typeof saved !== 'object') return DEFAULT_JOURNAL_CONFIG;
+    return {
+      format: saved.format in JOURNAL_LABELS ? saved.format : DEFAULT_JOURNAL_CONFIG.format,
+      categoryAccounts: stringMap(saved.categoryAccounts),
+      paymentAccounts: stringMap(saved.paymentAccounts),
+      defaultPayment: String(saved.defaultPayment || DEFAULT_JOURNAL_CONFIG.defaultPayment),
+    };
+  } catch {
+    return DEFAULT_JOURNAL_CONFIG;
+  }
+};
+
+export const saveJournalConfig = (config: JournalConfig) => {
+  try { localStorage.setItem(STORAGE_KEY, JSON.stringify(config)); } catch {}
+};
+
+// Beancount's rule, which ledger-cli also accepts: a root type, then components that start with
+// an uppercase letter, a digit or a non-ASCII letter and contain no spaces or punctuation
+const COMPONENT = String.raw`(?:[A-Z0-9]|[^\x00-\x7F])(?:[A-Za-z0-9-]|[^\x00-\x7F])*`;
+const ACCOUNT_RE = new RegExp(`^(?:Assets|Liabilities|Equity|Income|Expenses)(?::${COMPONENT})+$`);
+
+export const isValidAccountName = (name: string) => ACCOUNT_RE.test(name) && !/[^\p{L}\p{N}\p{M}\x00-\x7F]/u.test(name);
+
+// A category or account name as one account component: "信用卡 (招行)" → "信用卡-招行"
+const component = (name: string, fallback: string) => {
+  const cleaned = name.replace(/[^A-Za-z0-9\p{L}\p{N}\p{M}]+/gu, '-').replace(/^-+|-+$/g, '');
+  return cleaned ? cleaned[0].toUpperCase() + cleaned.slice(1) : fallback;
+};
+
+// Built-in categories get English names so the journal reads the same as most shared configs
+const BUILTIN_ACCOUNTS: Partial<Record<Category, string>> = {
+  [Category.Food]: 'Food',
+  [Category.Transport]: 'Transport',
+  [Category.Shopping]: 'Shopping',
+  [Category.Entertainment]: 'Entertainment',
+  [Category.Home]: 'Home',
+  [Category.Medical]: 'Medical',
+  [Category.Education]: 'Education',
+  [Category.Transfer]: 'Transfer',
+  [Category.Other]: 'Other',
+  [Category.Salary]: 'Salary',
+  [Category.Bonus]: 'Bonus',
+  [Category.Investment]: 'Investment',
+  [Category.Gift]: 'Gift',
+  [Category.OtherIncome]: 'Other',
+};
+
+const PAYMENT_ROOTS: Record<AccountType, string> = {
+  cash: 'Assets:Cash',
+  alipay: 'Assets:Alipay',
+  wechat: 'Assets:WeChat',
+  debit: 'Assets:Bank',
+  credit: 'Liabilities:CreditCard',
+  other: 'Assets:Other',
+};
+
+// Subcategories sit under their parent: Expenses:Home:房租
+export const defaultCategoryAccount = (def: CategoryDef, registry: CategoryRegistry): string => {
+  const own = BUILTIN_ACCOUNTS[def.id as Category] || component(def.name, 'Other');
+  const parent = def.parentId ? registry.get(def.parentId) : undefined;
+  const root = def.kind === 'income' ? 'Income' : 'Expenses';
+  return parent ? `${defaultCategoryAccount(parent, registry)}:${own}` : `${root}:${own}`;
+};
+
+export const defaultPaymentAccount = (account: Account): string => `${PAYMENT_ROOTS[account.type]}:${component(account.name, 'Account')}`;
+
+export interface JournalAccounts {
+  category: (id: CategoryId) => string;
+  payment: (accountId: string | undefined) => string;
+}
+
+export const journalAccounts = (config: JournalConfig, registry: CategoryRegistry, accounts: Account[]): JournalAccounts => ({
+  category: id => config.categoryAccounts[id]?.trim() || defaultCategoryAccount(registry.get(id), registry),
+  payment: accountId => {
+    const account = accountId ? accounts.find(a => a.id === accountId) : undefined;
+    if (!account) return config.defaultPayment.trim() || DEFAULT_JOURNAL_CONFIG.defaultPayment;
+    return config.paymentAccounts[account.id]?.trim() || defaultPaymentAccount(account);
+  },
+});
+
+// Two postings per record: [account, signed amount], debit first
+const postingsOf = (t: Transaction, names: JournalAccounts): [string, number][] => {
+  const payment = names.payment(t.accountId);
+  switch (t.direction) {
+    case 'income':
+    case 'refund':
+      return [[payment, t.amount], [names.category(t.category), -t.amount]];
+    case 'transfer':
+      return [[names.payment(t.toAccountId), t.amount], [payment, -t.amount]];
+    default:
+      return [[names.category(t.category), t.amount], [payment, -t.amount]];
+  }
+};
+
+const oneLine = (s: string | undefined) => (s || '').replace(/\s+/g, ' ').trim();
+
+const quote = (s: string | undefined) => `"${oneLine(s).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+const formatAmount = (amount: number, currency: string) => `${amount.toFixed(currencyDecimals(currency))} ${currency}`;
+
+// Accounts are opened on the first day of the journal, as Beancount requires
+const beancount = (transactions: Transaction[], names: JournalAccounts, baseCurrency: string): string => {
+  const lines = [`option "operating_currency" "${baseCurrency}"`, ''];
+  const entries = transactions.map(t => postingsOf(t, names));
+  const used = Array.from(new Set(entries.flatMap(ps => ps.map(([account]) => account)))).sort();
+  const opened = transactions[0]?.date.slice(0, 10);
+  used.forEach(account => lines.push(`${opened} open ${account}`));
+  transactions.forEach((t, i) => {
+    lines.push('', `${t.date.slice(0, 10)} * ${quote(t.name)} ${quote(t.note)}`);
+    const time = t.date.slice(11, 16);
+    if (time && time !== '00:00') lines.push(`  time: ${quote(time)}`);
+    if (t.location) lines.push(`  location: ${quote(t.location)}`);
+    entries[i].forEach(([account, amount]) => lines.push(`  ${account}  ${formatAmount(amount, t.currency)}`));
+  });
+  return lines.join('\n') + '\n';
+};
+
+// ledger-cli reads metadata from comments; two spaces separate an account from its amount
+const ledger = (transactions: Transaction[], names: JournalAccounts): string => {
+  const blocks = transactions.map(t => {
+    const lines = [`${t.date.slice(0, 10)} * ${oneLine(t.name)}`];
+    if (t.note) lines.push(`    ; ${oneLine(t.note)}`);
+    const time = t.date.slice(11, 16);
+    if (time && time !== '00:00') lines.push(`    ; Time: ${time}`);
+    if (t.location) lines.push(`    ; Location: ${oneLine(t.location)}`);
+    postingsOf(t, names).forEach(([account, amount]) => lines.push(`    ${account}  ${formatAmount(amount, t.currency)}`));
+    return lines.join('\n');
+  });
+  return blocks.join('\n\n') + '\n';
+};
+
+export const buildJournal = (transactions: Transaction[], format: JournalFormat, names: JournalAccounts, baseCurrency: string): string =>
+  format === 'beancount' ? beancount(transactions, names, baseCurrency) : ledger(transactions, names);
@@ -0,0 +1,340 @@
+import { Account, AccountType, CategoryId, CategoryKind, CategoryMapping, LedgerApp, NewTransaction } from '../types';
+import { FALLBACK_CATEGORIES } from '../constants';
+import { RecognitionContext, parseRecognizedItems } from '../services/geminiService';
+import { CategoryRegistry, kindFor } from './categories';
+import { decodeText, parseCsv } from './csv';
+import { normalizeDateTime } from './review';
+import { parseAmount } from './tableImport';
+import { newAccountId } from './accounts';
+import { readXlsx } from './xlsx';
+
+// CSV exports of other household-account apps. Their categories are mapped onto ours through
+// an editable table; everything else goes through the same normalization as recognized bills.
+export const LEDGER_APP_LABELS: Record<LedgerApp, string> = {
+  zaim: 'Zaim',
+  moneyforward: 'マネーフォワード ME',
+  suishouji: '随手记',
+  shayu: '鲨鱼记账',
+  qianji: '钱迹',
+};
+
+export const mappingId = (app: LedgerApp, kind: CategoryKind, large: string, medium: string) => `${app}|${kind}|${large}|${medium}`;
+
+export interface LedgerRow {
+  date: string;
+  name: string;
+  amount: number;
+  currency: string;
+  direction: 'expense' | 'income' | 'refund';
+  large: string;
+  medium: string;
+  note?: string;
+  account?: string; // the app's own account name
+}
+
+export interface LedgerImport {
+  app: LedgerApp;
+  rows: LedgerRow[];
+  skipped: Record<string, number>; // rows left out, by reason
+}
+
+interface LedgerParser {
+  app: LedgerApp;
+  encoding: string; // used when the file is not valid UTF-8
+  isHeader: (cells: string[]) => boolean;
+  parse: (r: Record<string, string>) => LedgerRow | { skip: string };
+}
+
+const amountOf = (raw: string | undefined) => parseAmount(raw ?? '', '.') || 0;
+
+const joinNote = (...parts: (string | undefined)[]) => parts.map(p => p?.trim()).filter(Boolean).join(' / ') || undefined;
+
+const zaim: LedgerParser = {
+  app: 'zaim',
+  encoding: 'shift_jis',
+  isHeader: cells => cells.includes('方法') && cells.includes('カテゴリの内訳'),
+  parse: r => {
+    // Zaim writes "-" into fields that do not apply
+    const v = (key: string) => (r[key] === '-' ? '' : r[key] || '');
+    const method = v('方法');
+    if (method === 'transfer' || method === '振替') return { skip: '转账' };
+    if (method === 'balance' || method === '残高調整') return { skip: '余额调整' };
+    if (v('集計の設定').includes('含めない')) return { skip: '不计入统计' };
+    const income = method === 'income' || method === '収入';
+    const amount = Math.abs(amountOf(v(income ? '収入' : '支出')));
+    if (!amount) return { skip: '金额为零' };
+    const name = v('お店') || v('品目') || v('カテゴリの内訳') || v('カテゴリ');
+    return {
+      date: normalizeDateTime(v('日付')),
+      name,
+      amount,
+      currency: v('通貨') || 'JPY',
+      direction: income ? 'income' : 'expense',
+      large: v('カテゴリ'),
+      medium: v('カテゴリの内訳'),
+      note: joinNote(v('品目') !== name ? v('品目') : undefined, v('メモ')),
+      account: v(income ? '入金先' : '支払元') || undefined,
+    };
+  },
+};
+
+// Expenses are negative; a positive amount outside the income category is a refund
+const moneyforward: LedgerParser = {
+  app: 'moneyforward',
+  encoding: 'shift_jis',
+  isHeader: cells => cells.includes('計算対象') && cells.includes('大項目'),
+  parse: r => {
+    if (r['計算対象'] === '0') return { skip: '不计入统计' };
+    if (r['振替'] === '1') return { skip: '转账' };
+    const amount = amountOf(r['金額（円）'] ?? r['金額(円)']);
+    if (!amount) return { skip: '金额为零' };
+    const large = r['大項目'] || '';
+    return {
+      date: normalizeDateTime(r['日付']),
+      name: r['内容'] || r['中項目'] || large,
+      amount: Math.abs(amount),
+      currency: 'JPY',
+      direction: amount < 0 ? 'expense' : large === '収入' ? 'income' : 'refund',
+      large,
+      medium: r['中項目'] || '',
+      note: joinNote(r['メモ']),
+      account: r['保有金融機関'] || undefined,
+    };
+  },
+};
+
+// Chinese apps write dates as "2024年5月1日" and currencies by name
+const chineseDate = (raw: string) => normalizeDateTime(raw.replace(/(\d{4})年(\d{1,2})月(\d{1,2})日?/, '$1-$2-$3'));
+const chineseCurrency = (raw: string) => (!raw || /人民币|rmb/i.test(raw) ? 'CNY' : raw);
+
+// Movements between accounts and loans have no counterpart among income and expense categories
+const CHINESE_TYPES: Record<string, LedgerRow['direction'] | string> = {
+  支出: 'expense',
+  收入: 'income',
+  退款: 'refund',
+  转账: '转账',
+  还款: '转账',
+  信用卡还款: '转账',
+  余额变更: '余额调整',
+  余额调整: '余额调整',
+  负债变更: '借贷',
+  债权变更: '借贷',
+  借入: '借贷',
+  借出: '借贷',
+  收债: '借贷',
+  还债: '借贷',
+};
+
+const chineseDirection = (type: string): LedgerRow['direction'] | { skip: string } => {
+  const d = CHINESE_TYPES[type.trim()];
+  if (d === 'expense' || d === 'income' || d === 'refund') return d;
+  return { skip: d || '不支持的类型' };
+};
+
+const suishouji: LedgerParser = {
+  app: 'suishouji',
+  encoding: 'gb18030',
+  isHeader: cells => cells.includes('交易类型') && (cells.includes('子分类') || cells.includes('子类别')),
+  parse: r => {
+    const direction = chineseDirection(r['交易类型'] || '');
+    if (typeof direction !== 'string') return direction;
+    const amount = Math.abs(amountOf(r['金额']));
+    if (!amount) return { skip: '金额为零' };
+    const large = r['分类'] || r['类别'] || '';
+    const medium = r['子分类'] || r['子类别'] || '';
+    const name = r['商家'] || r['备注'] || medium || large;
+    return {
+      date: chineseDate(r['日期'] || ''),
+      name,
+      amount,
+      currency: chineseCurrency(r['账户币种'] || r['币种'] || ''),
+      direction,
+      large,
+      medium,
+      note: joinNote(r['备注'] !== name ? r['备注'] : undefined),
+      account: r['账户1'] || r['账户'] || undefined,
+    };
+  },
+};
+
+const shayu: LedgerParser = {
+  app: 'shayu',
+  encoding: 'gb18030',
+  isHeader: cells => cells.includes('收支类型') && cells.includes('类别'),
+  parse: r => {
+    const direction = chineseDirection(r['收支类型'] || '');
+    if (typeof direction !== 'string') return direction;
+    const amount = Math.abs(amountOf(r['金额']));
+    if (!amount) return { skip: '金额为零' };
+    const large = r['类别'] || '';
+    return {
+      date: chineseDate(r['日期'] || ''),
+      name: r['备注'] || large,
+      amount,
+      currency: 'CNY',
+      direction,
+      large,
+      medium: '',
+    };
+  },
+};
+
+const qianji: LedgerParser = {
+  app: 'qianji',
+  encoding: 'gb18030',
+  isHeader: cells => cells.includes('二级分类') && cells.includes('账户1'),
+  parse: r => {
+    const direction = chineseDirection(r['类型'] || '');
+    if (typeof direction !== 'string') return direction;
+    if ((r['账单标记'] || '').includes('不计入')) return { skip: '不计入统计' };
+    const amount = Math.abs(amountOf(r['金额']));
+    if (!amount) return { skip: '金额为零' };
+    const large = r['分类'] || '';
+    const medium = r['二级分类'] || '';
+    const name = r['备注'] || medium || large;
+    return {
+      date: chineseDate(r['时间'] || ''),
+      name,
+      amount,
+      currency: chineseCurrency(r['币种'] || ''),
+      direction,
+      large,
+      medium,
+      note: joinNote(r['备注'] !== name ? r['备注'] : undefined, r['标签']),
+      account: r['账户1'] || undefined,
+    };
+  },
+};
+
+const PARSERS = [zaim, moneyforward, suishouji, shayu, qianji];
+
+// The encoding is not known up front: each app's usual one is tried until a header matches
+export const readLedgerExport = async (file: File): Promise<LedgerImport> => {
+  if (/\.xls$/i.test(file.name)) throw new Error('不支持旧版 Excel（.xls）文件，请另存为 CSV 或 XLSX 后再导入');
+  const buffer = await file.arrayBuffer();
+  const sheet = /\.xlsx$/i.test(file.name) ? await readXlsx(buffer) : null;
+  for (const parser of PARSERS) {
+    const rows = (sheet || parseCsv(decodeText(buffer, parser.encoding))).map(cells => cells.map(c => String(c ?? '').trim()));
+    const headerIndex = rows.slice(0, 10).findIndex(parser.isHeader);
+    if (headerIndex < 0) continue;
+    const header = rows[headerIndex];
+    const skipped: Record<string, number> = {};
+    const kept: LedgerRow[] = [];
+    for (const cells of rows.slice(headerIndex + 1)) {
+      if (!cells.some(Boolean)) continue;
+      const result = parser.parse(Object.fromEntries(header.map((h, i) => [h, cells[i] ?? ''])));
+      if ('skip' in result) skipped[result.skip] = (skipped[result.skip] || 0) + 1;
+      else kept.push(result);
+    }
+    return { app: parser.app, rows: kept, skipped };
+  }
+  throw new Error(`无法识别文件格式，目前支持 ${Object.values(LEDGER_APP_LABELS).join('、')} 导出的文件`);
+};
+
+// The mapping for the exact medium category, else the one for the whole large category, else
+// one of our categories with the same name. A mapping with no category leaves the records to
+// rules and learned preferences.
+export const resolveMapping = (
+  mappings: CategoryMapping[],
+  app: LedgerApp,
+  kind: CategoryKind,
+  large: string,
+  medium: string,
+  registry: CategoryRegistry,
+): CategoryId | undefined => {
+  for (const m of medium ? [medium, ''] : ['']) {
+    const hit = mappings.find(x => x.id === mappingId(app, kind, large, m));
+    if (hit) return hit.category ? registry.resolve(hit.category, kind) : undefined;
+  }
+  return registry.resolve(medium, kind) || registry.resolve(large, kind);
+};
+
+export interface CategoryGroup {
+  id: string; // mapping id of the exact category
+  kind: CategoryKind;
+  large: string;
+  medium: string;
+  count: number;
+}
+
+// The app categories that occur in an export, for the mapping table
+export const categoryGroups = (result: LedgerImport): CategoryGroup[] => {
+  const groups = new Map<string, CategoryGroup>();
+  for (const r of result.rows) {
+    const kind = kindFor(r.direction);
+    const id = mappingId(result.app, kind, r.large, r.medium);
+    const g = groups.get(id) || { id, kind, large: r.large, medium: r.medium, count: 0 };
+    g.count++;
+    groups.set(id, g);
+  }
+  return Array.from(groups.values()).sort((a, b) =>
+    a.kind.localeCompare(b.kind) || a.large.localeCompare(b.large, 'ja') || a.medium.localeCompare(b.medium, 'ja'));
+};
+
+export const sourceLabel = (large: string, medium: string) => (medium ? `${large} › ${medium}` : large || '（无分类）');
+
+// How an imported record got its category, for the summary
+export type CategorySource = 'mapped' | 'rules' | 'fallback';
+
+export interface LedgerEntry {
+  tx: NewTransaction;
+  source: CategorySource;
+}
+
+// A mapped category wins; unmapped ones are left to rules and learned preferences, then fall
+// back to "other". accountIds maps the app's account names onto ours.
+export const toEntries = (result: LedgerImport, mappings: CategoryMapping[], ctx: RecognitionContext, accountIds: Map<string, string>): LedgerEntry[] =>
+  parseRecognizedItems(result.rows.map(r => ({ name: r.name, date: r.date, amount: r.amount, currency: r.currency, direction: r.direction })), ctx)
+    .map((tx, i) => {
+      const r = result.rows[i];
+      const kind = kindFor(tx.direction);
+      const mapped = resolveMapping(mappings, result.app, kind, r.large, r.medium, ctx.registry);
+      const category = mapped || tx.category || FALLBACK_CATEGORIES[kind];
+      return {
+        tx: { ...tx, category, note: r.note, accountId: r.account ? accountIds.get(r.account) : undefined },
+        source: mapped ? 'mapped' : category === FALLBACK_CATEGORIES[kind] ? 'fallback' : 'rules',
+      };
+    });
+
+export interface SummaryLine {
+  source: string; // the app's category
+  category: CategoryId;
+  count: number;
+}
+
+// Per app category: where its records went, split by how the category was decided
+export const summarizeEntries = (result: LedgerImport, entries: LedgerEntry[]): Record<CategorySource, SummaryLine[]> => {
+  const lines = new Map<string, SummaryLine & { via: CategorySource }>();
+  entries.forEach((e, i) => {
+    const source = sourceLabel(result.rows[i].large, result.rows[i].medium);
+    const key = `${e.source}|${source}|${e.tx.category}`;
+    const line = lines.get(key) || { via: e.source, source, category: e.tx.category, count: 0 };
+    line.count++;
+    lines.set(key, line);
+  });
+  const out: Record<CategorySource, SummaryLine[]> = { mapped: [], rules: [], fallback: [] };
+  for (const { via, ...line } of lines.values()) out[via].push(line);
+  Object.values(out).forEach(list => list.sort((a, b) => b.count - a.count));
+  return out;
+};
+
+// The app's accounts with how many records use each
+export const accountNames = (result: LedgerImport): [string, number][] => {
+  const counts = new Map<string, number>();
+  result.rows.forEach(r => { if (r.account) counts.set(r.account, (counts.get(r.account) || 0) + 1); });
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+};
+
+export const guessAccountType = (name: string): AccountType =>
+  /支付宝|余额宝|alipay/i.test(name) ? 'alipay'
+  : /微信|零钱|wechat/i.test(name) ? 'wechat'
+  : /现金|現金|財布|cash/i.test(name) ? 'cash'
+  : /信用卡|花呗|白条|クレジット|カード|credit/i.test(name) ? 'credit'
+  : /银行|储蓄|借记|銀行|bank/i.test(name) ? 'debit'
+  : 'other';
+
+// Accounts created for names that match none of ours
+export const newAccountsFor = (names: string[], existing: Account[]): Account[] => {
+  const order = Math.max(-1, ...existing.map(a => a.order));
+  return names.map((name, i) => ({ id: newAccountId(), name, type: guessAccountType(name), openingBalance: 0, order: order + 1 + i }));
+};
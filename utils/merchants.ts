@@ -0,0 +1,190 @@
+import { createContext, useContext } from 'react';
+import { Merchant, Transaction } from '../types';
+import { DEFAULT_MERCHANTS } from '../constants';
+
+export const newMerchantId = () => 'm-' + Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+
+// Same merchant regardless of case, width, spacing or a bracketed branch name, e.g. "全家（南京西路店）"
+export const merchantKey = (name: string): string =>
+  name
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[(\[【].*?[)\]】]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const tidy = (s: string) => s.normalize('NFKC').replace(/\s+/g, ' ').trim();
+
+// What may follow an alias at the start of a name: a separator, or a branch such as "新宿店"
+const SEPARATOR = /^[\s\-‐—–·・/|]+/;
+const BRANCH_SUFFIX = /(店|分店|店舗|支店|門店|门店|营业部|營業部|branch|store)$/i;
+
+const regexCache = new Map<string, RegExp | null>();
+const aliasRegex = (alias: string): RegExp | null => {
+  if (!regexCache.has(alias)) {
+    try { regexCache.set(alias, new RegExp(alias.slice(1, -1), 'i')); } catch { regexCache.set(alias, null); }
+  }
+  return regexCache.get(alias)!;
+};
+
+export const isRegexAlias = (alias: string) => alias.length > 2 && alias.startsWith('/') && alias.endsWith('/');
+
+interface AliasHit {
+  exact: boolean;
+  length: number; // longer aliases are more specific
+  remainder: string; // what is left of the name, usually the branch
+}
+
+const matchAlias = (alias: string, name: string): AliasHit | null => {
+  const norm = tidy(name);
+  if (isRegexAlias(alias)) {
+    const m = aliasRegex(alias)?.exec(norm);
+    if (!m) return null;
+    const remainder = (norm.slice(0, m.index) + norm.slice(m.index + m[0].length)).replace(SEPARATOR, '').trim();
+    return { exact: !remainder, length: m[0].length, remainder };
+  }
+  const a = tidy(alias).toLowerCase();
+  if (!a) return null;
+  if (norm.toLowerCase() === a) return { exact: true, length: a.length, remainder: '' };
+  if (merchantKey(name) === merchantKey(alias)) {
+    // The bracketed part merchantKey ignored is the branch
+    const branch = /[(\[【](.*?)[)\]】]/.exec(norm)?.[1]?.trim() || '';
+    return { exact: true, length: a.length, remainder: branch };
+  }
+  if (!norm.toLowerCase().startsWith(a)) return null;
+  const rest = norm.slice(a.length);
+  if (!SEPARATOR.test(rest) && !BRANCH_SUFFIX.test(rest)) return null;
+  return { exact: false, length: a.length, remainder: rest.replace(SEPARATOR, '').trim() };
+};
+
+export interface MerchantMatch {
+  merchant: Merchant;
+  remainder: string;
+}
+
+export interface MerchantIndex {
+  merchants: Merchant[];
+  match: (name: string) => MerchantMatch | undefined;
+  // The merchant's canonical name, or the name itself (trimmed) when no merchant claims it
+  canonical: (name: string) => string;
+  // Records with the same key belong to the same merchant
+  groupKey: (name: string) => string;
+}
+
+export const buildMerchantIndex = (merchants: Merchant[]): MerchantIndex => {
+  // Grouping evaluates every record, so results are cached per distinct name
+  const cache = new Map<string, MerchantMatch | undefined>();
+
+  const match = (name: string) => {
+    if (cache.has(name)) return cache.get(name);
+    let best: { hit: AliasHit; merchant: Merchant } | undefined;
+    for (const merchant of merchants) {
+      for (const alias of [merchant.name, ...merchant.aliases]) {
+        const hit = matchAlias(alias, name);
+        if (!hit) continue;
+        const better = !best
+          || (hit.exact && !best.hit.exact)
+          || (hit.exact === best.hit.exact && hit.length > best.hit.length);
+        if (better) best = { hit, merchant };
+      }
+    }
+    const result = best && { merchant: best.merchant, remainder: best.hit.remainder };
+    cache.set(name, result);
+    return result;
+  };
+
+  const canonical = (name: string) => match(name)?.merchant.name ?? name.trim();
+  const groupKey = (name: string) => {
+    const m = match(name);
+    return m ? `m:${m.merchant.id}` : `n:${merchantKey(name)}`;
+  };
+
+  return { merchants, match, canonical, groupKey };
+};
+
+// Recognized and imported names are stored under the canonical merchant name; a branch that
+// was part of the name moves to the location when there is none.
+export const normalizeMerchant = <T extends { name: string; location?: string }>(index: MerchantIndex, tx: T): T => {
+  const m = index.match(tx.name);
+  if (!m) return tx;
+  return { ...tx, name: m.merchant.name, location: tx.location || m.remainder || undefined };
+};
+
+export interface MergeSuggestion {
+  id: string; // stable across sessions, for dismissing
+  names: { name: string; count: number }[];
+  merchant?: Merchant; // when the names look like an existing merchant, they become its aliases
+}
+
+// Loose form for spotting near-duplicates: no branch, spacing or punctuation
+const looseKey = (name: string) =>
+  merchantKey(name)
+    .replace(/[\s\-‐—–·・]+\S*(店|分店|店舗|支店|branch|store)$/i, '')
+    .replace(/[\s\p{P}\p{S}]/gu, '');
+
+const editDistance = (a: string, b: string): number => {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+};
+
+const similar = (a: string, b: string): boolean => {
+  if (!a || !b) return false;
+  if (a === b) return true;
+  const short = Math.min(a.length, b.length);
+  if (short >= 3 && (a.startsWith(b) || b.startsWith(a))) return true;
+  return short >= 5 && Math.abs(a.length - b.length) <= 1 && editDistance(a, b) <= 1;
+};
+
+// Only the most frequent names are compared, to keep the pairwise check cheap
+const SUGGESTION_NAME_LIMIT = 400;
+
+// Groups of distinct names that probably mean the same merchant but are not yet aliased
+export const suggestMerges = (index: MerchantIndex, transactions: Transaction[], dismissed: Set<string>): MergeSuggestion[] => {
+  const counts = new Map<string, number>();
+  for (const t of transactions) {
+    const name = t.name.trim();
+    if (!name || t.direction === 'transfer' || index.match(name)) continue;
+    counts.set(name, (counts.get(name) || 0) + 1);
+  }
+  const names = Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)!).slice(0, SUGGESTION_NAME_LIMIT);
+
+  // Nodes are the unclaimed names followed by the merchants; union-find joins similar ones
+  const keys: string[][] = [
+    ...names.map(n => [looseKey(n)]),
+    ...index.merchants.map(m => [m.name, ...m.aliases.filter(a => !isRegexAlias(a))].map(looseKey)),
+  ];
+  const parent = keys.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (let i = 0; i < keys.length; i++) {
+    for (let j = i + 1; j < keys.length; j++) {
+      if (i >= names.length && j >= names.length) continue; // two merchants are never merged here
+      if (keys[i].some(a => keys[j].some(b => similar(a, b)))) parent[find(j)] = find(i);
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  keys.forEach((_, i) => groups.set(find(i), [...(groups.get(find(i)) || []), i]));
+  const suggestions: MergeSuggestion[] = [];
+  for (const members of groups.values()) {
+    const nameIdx = members.filter(i => i < names.length);
+    const merchantIdx = members.filter(i => i >= names.length);
+    // A merchant with one close name is still worth suggesting; a lone name is not
+    if (nameIdx.length + merchantIdx.length < 2 || nameIdx.length === 0 || merchantIdx.length > 1) continue;
+    const group = nameIdx.map(i => ({ name: names[i], count: counts.get(names[i])! }));
+    const id = group.map(g => g.name).sort().join('|');
+    if (dismissed.has(id)) continue;
+    suggestions.push({ id, names: group, merchant: merchantIdx.length ? index.merchants[merchantIdx[0] - names.length] : undefined });
+  }
+  return suggestions.sort((a, b) => b.names.reduce((s, n) => s + n.count, 0) - a.names.reduce((s, n) => s + n.count, 0));
+};
+
+export const MerchantContext = createContext<MerchantIndex>(buildMerchantIndex(DEFAULT_MERCHANTS));
+
+export const useMerchants = () => useContext(MerchantContext);
@@ -0,0 +1,144 @@
+import { Transaction } from '../types';
+import { localDateStr } from './helpers';
+
+// Reporting periods for the chart screen. Weeks and months can start on any day, to follow
+// payday or a credit card's billing cycle; quarters and years are calendar ones.
+export type PeriodKind = 'week' | 'month' | 'quarter' | 'year' | 'range';
+
+export const PERIOD_LABELS: Record<PeriodKind, string> = {
+  week: '周',
+  month: '月',
+  quarter: '季度',
+  year: '年',
+  range: '自定义',
+};
+
+export const WEEKDAY_LABELS = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+
+export interface PeriodSettings {
+  kind: PeriodKind;
+  weekStart: number; // 0 = Sunday
+  monthStartDay: number; // 1–28, so every month has the day
+  // The dates of the 'range' period, YYYY-MM-DD
+  from: string;
+  to: string;
+}
+
+// Both ends inclusive, YYYY-MM-DD
+export interface Period {
+  start: string;
+  end: string;
+}
+
+const today = () => localDateStr(new Date());
+
+export const DEFAULT_PERIOD_SETTINGS: PeriodSettings = {
+  kind: 'month',
+  weekStart: 1,
+  monthStartDay: 1,
+  from: today().slice(0, 8) + '01',
+  to: today(),
+};
+
+const STORAGE_KEY = 'reportPeriod';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+const clampInt = (v: unknown, min: number, max: number, fallback: number) => {
+  const n = Number(v);
+  return Number.isInteger(n) && n >= min && n <= max ? n : fallback;
+};
+
+export const loadPeriodSettings = (): PeriodSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!saved || typeof saved !== 'object') return DEFAULT_PERIOD_SETTINGS;
+    return {
+      kind: saved.kind in PERIOD_LABELS ? saved.kind : DEFAULT_PERIOD_SETTINGS.kind,
+      weekStart: clampInt(saved.weekStart, 0, 6, DEFAULT_PERIOD_SETTINGS.weekStart),
+      monthStartDay: clampInt(saved.monthStartDay, 1, 28, DEFAULT_PERIOD_SETTINGS.monthStartDay),
+      from: DATE_RE.test(saved.from) ? saved.from : DEFAULT_PERIOD_SETTINGS.from,
+      to: DATE_RE.test(saved.to) ? saved.to : DEFAULT_PERIOD_SETTINGS.to,
+    };
+  } catch {
+    return DEFAULT_PERIOD_SETTINGS;
+  }
+};
+
+export const savePeriodSettings = (settings: PeriodSettings) => {
+  try { localStorage.setItem(STORAGE_KEY, JSON.stringify(settings)); } catch {}
+};
+
+const parseDay = (day: string) => {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const addDays = (day: string, delta: number): string => {
+  const d = parseDay(day);
+  d.setDate(d.getDate() + delta);
+  return localDateStr(d);
+};
+
+export const daysBetween = (from: string, to: string) => Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / 86400000);
+
+// The period of the chosen kind that contains `day`
+export const periodAt = (day: string, settings: PeriodSettings): Period => {
+  const d = parseDay(day);
+  const y = d.getFullYear();
+  switch (settings.kind) {
+    case 'week': {
+      const start = addDays(day, -((d.getDay() - settings.weekStart + 7) % 7));
+      return { start, end: addDays(start, 6) };
+    }
+    case 'month': {
+      // A month that starts on day N runs to day N-1 of the following month
+      const m = d.getMonth() - (d.getDate() < settings.monthStartDay ? 1 : 0);
+      return {
+        start: localDateStr(new Date(y, m, settings.monthStartDay)),
+        end: addDays(localDateStr(new Date(y, m + 1, settings.monthStartDay)), -1),
+      };
+    }
+    case 'quarter': {
+      const q = d.getMonth() - (d.getMonth() % 3);
+      return { start: localDateStr(new Date(y, q, 1)), end: localDateStr(new Date(y, q + 3, 0)) };
+    }
+    case 'year':
+      return { start: `${y}-01-01`, end: `${y}-12-31` };
+    case 'range':
+      return settings.from <= settings.to ? { start: settings.from, end: settings.to } : { start: settings.to, end: settings.from };
+  }
+};
+
+// The period before (-1) or after (1); a custom range moves by its own length
+export const shiftPeriod = (period: Period, delta: 1 | -1, settings: PeriodSettings): Period => {
+  if (settings.kind === 'range') {
+    const days = (daysBetween(period.start, period.end) + 1) * delta;
+    return { start: addDays(period.start, days), end: addDays(period.end, days) };
+  }
+  return periodAt(delta < 0 ? addDays(period.start, -1) : addDays(period.end, 1), settings);
+};
+
+export const inPeriod = (t: Pick<Transaction, 'date'>, period: Period): boolean => {
+  const day = t.date.slice(0, 10);
+  return day >= period.start && day <= period.end;
+};
+
+// Whether the period is exactly one calendar month, which is what budgets are set for
+export const isCalendarMonth = (period: Period): boolean =>
+  period.start.endsWith('-01') && period.end === localDateStr(new Date(Number(period.start.slice(0, 4)), Number(period.start.slice(5, 7)), 0));
+
+const shortDay = (day: string, withYear: boolean) => {
+  const [y, m, d] = day.split('-').map(Number);
+  return withYear ? `${y}年${m}月${d}日` : `${m}月${d}日`;
+};
+
+// "2024年5月", "2024年第2季度", or the first and last day for anything else
+export const periodLabel = (period: Period, settings: PeriodSettings): string => {
+  const [y, m] = period.start.split('-').map(Number);
+  if (settings.kind === 'year') return `${y}年`;
+  if (settings.kind === 'quarter') return `${y}年第${Math.floor((m - 1) / 3) + 1}季度`;
+  if (settings.kind === 'month' && isCalendarMonth(period)) return `${y}年${m}月`;
+  const sameYear = period.start.slice(0, 4) === period.end.slice(0, 4);
+  return `${shortDay(period.start, true)} – ${shortDay(period.end, !sameYear)}`;
+};
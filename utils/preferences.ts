@@ -0,0 +1,79 @@
+import { createContext, useContext } from 'react';
+import { CategoryId, CategoryRule, Direction, MerchantPreference } from '../types';
+import { CategoryRegistry, kindFor } from './categories';
+import { RuleSubject, findRule } from './rules';
+import { merchantKey } from './merchants';
+
+export type MerchantPreferences = Map<string, MerchantPreference>;
+
+export interface CategoryCorrection {
+  name: string;
+  category: CategoryId;
+}
+
+// Learned preferences below this confidence are not applied automatically
+export const MIN_CONFIDENCE = 0.5;
+
+// Older corrections count half as much each time the merchant is corrected again
+const DECAY = 0.5;
+
+export const recordCorrections = (prefs: MerchantPreference[], corrections: CategoryCorrection[]): MerchantPreference[] => {
+  const byKey = new Map<string, MerchantPreference>(prefs.map(p => [p.key, p]));
+  const now = new Date().toISOString();
+  for (const c of corrections) {
+    const key = merchantKey(c.name);
+    if (!key || !c.category) continue;
+    const prev = byKey.get(key);
+    const weights: Record<CategoryId, number> = {};
+    for (const [cat, w] of Object.entries(prev?.weights || {})) weights[cat] = w * DECAY;
+    weights[c.category] = (weights[c.category] || 0) + 1;
+    byKey.set(key, { key, name: c.name.trim(), weights, corrections: (prev?.corrections || 0) + 1, updatedAt: now });
+  }
+  return Array.from(byKey.values());
+};
+
+export interface CategorySuggestion {
+  category: CategoryId;
+  source: 'learned' | 'rule';
+  confidence: number; // 0–1; rules are explicit, so always 1
+  corrections?: number; // learned: how many corrections the preference is built on
+  rule?: CategoryRule;
+}
+
+// The learned category for a merchant among the categories that fit the record's direction.
+// Confidence is the preferred category's share of the weight, discounted while there is
+// little evidence: one correction gives 50%, two 67%, three 75%.
+export const predictCategory = (prefs: MerchantPreferences, tx: RuleSubject, registry: CategoryRegistry): CategorySuggestion | undefined => {
+  if (tx.direction === 'transfer') return undefined;
+  const pref = prefs.get(merchantKey(tx.name || ''));
+  if (!pref) return undefined;
+  const kind = kindFor(tx.direction as Direction);
+  const usable = Object.entries(pref.weights).filter(([cat]) => registry.resolve(cat, kind) === cat);
+  if (usable.length === 0) return undefined;
+  const total = usable.reduce((sum, [, w]) => sum + w, 0);
+  const [category, weight] = usable.reduce((best, cur) => (cur[1] > best[1] ? cur : best));
+  const confidence = (weight / total) * (pref.corrections / (pref.corrections + 1));
+  return { category, source: 'learned', confidence, corrections: pref.corrections };
+};
+
+// What the user taught the app wins over generic rules, as long as it is confident enough
+export const suggestCategory = (
+  tx: RuleSubject,
+  prefs: MerchantPreferences,
+  rules: CategoryRule[],
+  registry: CategoryRegistry,
+): CategorySuggestion | undefined => {
+  const learned = predictCategory(prefs, tx, registry);
+  if (learned && learned.confidence >= MIN_CONFIDENCE) return learned;
+  const rule = findRule(rules, tx, registry);
+  return rule ? { category: rule.category, source: 'rule', confidence: 1, rule } : undefined;
+};
+
+export const describeSuggestion = (s: CategorySuggestion): string =>
+  s.source === 'rule'
+    ? `规则「${s.rule?.name}」`
+    : `根据 ${s.corrections} 次修改 · 置信度 ${Math.round(s.confidence * 100)}%`;
+
+export const PreferencesContext = createContext<MerchantPreferences>(new Map());
+
+export const usePreferences = () => useContext(PreferencesContext);
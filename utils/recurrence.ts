@@ -0,0 +1,90 @@
+import { NewTransaction, RecurringRule } from '../types';
+import { localDateStr } from './helpers';
+
+// Dates are handled as local calendar days (YYYY-MM-DD strings compare chronologically)
+const parseDay = (s: string) => {
+  const [y, m, d] = s.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+const daysInMonth = (y: number, m: number) => new Date(y, m + 1, 0).getDate();
+
+// Safety cap so a daily rule started decades ago cannot freeze the app
+const MAX_ITERATIONS = 20000;
+
+// The n-th candidate date of a rule (n = 0, 1, …). Monthly/yearly candidates may fall
+// before startDate in the first period; those are filtered by the caller.
+const candidate = (rule: RecurringRule, start: Date, n: number): Date => {
+  const step = Math.max(1, rule.interval || 1);
+  switch (rule.frequency) {
+    case 'daily':
+      return new Date(start.getFullYear(), start.getMonth(), start.getDate() + n * step);
+    case 'weekly': {
+      const weekday = rule.weekday ?? start.getDay();
+      const offset = (weekday - start.getDay() + 7) % 7;
+      return new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset + n * 7 * step);
+    }
+    case 'monthly': {
+      const first = new Date(start.getFullYear(), start.getMonth() + n * step, 1);
+      const day = Math.min(rule.dayOfMonth || start.getDate(), daysInMonth(first.getFullYear(), first.getMonth()));
+      return new Date(first.getFullYear(), first.getMonth(), day);
+    }
+    case 'yearly': {
+      const y = start.getFullYear() + n * step;
+      return new Date(y, start.getMonth(), Math.min(start.getDate(), daysInMonth(y, start.getMonth())));
+    }
+  }
+};
+
+// All occurrence dates of a rule up to and including `until`, honoring endDate and count.
+// Skipped dates are included here (they still consume the count).
+export const occurrences = (rule: RecurringRule, until: string): string[] => {
+  const out: string[] = [];
+  const start = parseDay(rule.startDate);
+  const last = rule.endDate && rule.endDate < until ? rule.endDate : until;
+  for (let n = 0; n < MAX_ITERATIONS; n++) {
+    const day = localDateStr(candidate(rule, start, n));
+    if (day > last) break;
+    if (day < rule.startDate) continue;
+    out.push(day);
+    if (rule.count && out.length >= rule.count) break;
+  }
+  return out;
+};
+
+// Occurrences that should exist by `today` but have not been created yet
+export const dueOccurrences = (rule: RecurringRule, today: string): string[] => {
+  if (rule.paused) return [];
+  const skipped = new Set(rule.skipped);
+  return occurrences(rule, today).filter(d => !skipped.has(d) && (!rule.generatedThrough || d > rule.generatedThrough));
+};
+
+// The next `limit` occurrences after `today`, skipped ones included so they can be un-skipped
+export const upcomingOccurrences = (rule: RecurringRule, today: string, limit: number): string[] => {
+  const horizon = parseDay(today);
+  // Far enough ahead for `limit` yearly occurrences at the given interval
+  horizon.setFullYear(horizon.getFullYear() + limit * Math.max(1, rule.interval || 1) + 1);
+  return occurrences(rule, localDateStr(horizon)).filter(d => d > today).slice(0, limit);
+};
+
+export const materialize = (rule: RecurringRule, day: string): NewTransaction => {
+  const { time, ...rest } = rule.template;
+  return { ...rest, date: `${day}T${time || '00:00'}`, recurringRuleId: rule.id };
+};
+
+export const describeRule = (rule: RecurringRule): string => {
+  const every = rule.interval > 1 ? `每${rule.interval}` : '每';
+  const weekdays = ['日', '一', '二', '三', '四', '五', '六'];
+  let base: string;
+  switch (rule.frequency) {
+    case 'daily': base = `${every}天`; break;
+    case 'weekly': base = `${every}周${rule.weekday != null ? ` 周${weekdays[rule.weekday]}` : ''}`; break;
+    case 'monthly': base = `${every}个月${rule.dayOfMonth ? ` ${rule.dayOfMonth}日` : ''}`; break;
+    case 'yearly': base = `${every}年 ${rule.startDate.slice(5).replace('-', '月')}日`; break;
+  }
+  if (rule.endDate) base += ` · 至 ${rule.endDate}`;
+  if (rule.count) base += ` · 共 ${rule.count} 次`;
+  return base;
+};
+
+export const newRuleId = () => 'rec-' + Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
@@ -41,3 +41,20 @@ export function registerSW() {
     }
   });
 }
+
+export const QUEUE_SYNC_TAG = 'bill-queue';
+
+// Asks the service worker to process the offline bill queue once a connection is available.
+// Resolves false where Background Sync is unsupported; the app then retries on focus/reconnect.
+export async function requestQueueSync(): Promise<boolean> {
+  try {
+    if (!('serviceWorker' in navigator)) return false;
+    const reg = await navigator.serviceWorker.ready;
+    const sync = (reg as any).sync;
+    if (!sync) return false;
+    await sync.register(QUEUE_SYNC_TAG);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,46 @@
+import { NewTransaction, Transaction } from '../types';
+import { CategoryRegistry, kindFor } from './categories';
+import { txKey } from './helpers';
+
+const DATE_TIME_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/;
+
+// Recognizers return "2024-05-01 12:30", "2024-05-01" or ISO strings, and statements re-saved
+// by a spreadsheet "2024/5/1 9:05"; the ledger uses YYYY-MM-DDTHH:mm
+export const normalizeDateTime = (raw: unknown): string => {
+  const s = String(raw ?? '').trim();
+  const m = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[ T]+(\d{1,2}):(\d{2}))?/.exec(s);
+  if (!m) return s.replace(' ', 'T').slice(0, 16);
+  const pad = (v: string | undefined) => (v || '0').padStart(2, '0');
+  return `${m[1]}-${pad(m[2])}-${pad(m[3])}T${pad(m[4])}:${pad(m[5])}`;
+};
+
+// Why a parsed item cannot be written to the ledger as it is; empty when it is fine
+export const validateTransaction = (tx: NewTransaction, registry: CategoryRegistry): string[] => {
+  const problems: string[] = [];
+  if (!tx.name || !tx.name.trim()) problems.push('缺少名称');
+  if (!isFinite(tx.amount) || tx.amount <= 0) problems.push('金额无效');
+  if (!DATE_TIME_RE.test(tx.date) || isNaN(new Date(tx.date).getTime())) problems.push('日期无效');
+  if (tx.direction !== 'transfer') {
+    const kind = kindFor(tx.direction);
+    if (!tx.category || !registry.active(kind).some(c => c.id === tx.category)) problems.push('无法确定分类');
+  }
+  return problems;
+};
+
+export type DuplicateOf = 'ledger' | 'batch';
+
+// Items that handleAddTransactions would silently skip: the same key is already in the ledger,
+// or an earlier item of the same batch has it. Skipped indexes are ignored.
+export const findDuplicates = (items: NewTransaction[], ledger: Transaction[], skip: Set<number> = new Set()): Map<number, DuplicateOf> => {
+  const existing = new Set(ledger.map(txKey));
+  const seen = new Set<string>();
+  const out = new Map<number, DuplicateOf>();
+  items.forEach((tx, i) => {
+    if (skip.has(i)) return;
+    const key = txKey(tx);
+    if (existing.has(key)) out.set(i, 'ledger');
+    else if (seen.has(key)) out.set(i, 'batch');
+    seen.add(key);
+  });
+  return out;
+};
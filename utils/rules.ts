@@ -0,0 +1,85 @@
+import { createContext, useContext } from 'react';
+import { CategoryId, CategoryRule, Direction, NewTransaction, Transaction } from '../types';
+import { DEFAULT_RULES } from '../constants';
+import { CategoryRegistry, kindFor } from './categories';
+
+export const newCategoryRuleId = () => 'rule-' + Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+
+// What a rule looks at; recognized drafts, form input and stored records all fit
+export type RuleSubject = Pick<NewTransaction, 'name' | 'location' | 'amount' | 'direction'>;
+
+export const splitKeywords = (pattern: string): string[] =>
+  pattern.split(/[,，、\n]/).map(k => k.trim().toLowerCase()).filter(Boolean);
+
+// Compiled patterns are cached by source; rules are re-evaluated on every keystroke in the form
+const regexCache = new Map<string, RegExp | null>();
+const compile = (pattern: string): RegExp | null => {
+  if (!regexCache.has(pattern)) {
+    try { regexCache.set(pattern, new RegExp(pattern, 'i')); } catch { regexCache.set(pattern, null); }
+  }
+  return regexCache.get(pattern)!;
+};
+
+// Why a rule cannot be saved, or null when it is usable
+export const ruleProblem = (rule: CategoryRule): string | null => {
+  const hasRange = rule.minAmount !== undefined || rule.maxAmount !== undefined;
+  if (!rule.name.trim()) return '规则名称不能为空';
+  if (!rule.pattern.trim() && !hasRange) return '请填写匹配内容或金额范围';
+  if (rule.mode === 'regex' && rule.pattern.trim() && !compile(rule.pattern)) return '正则表达式无效';
+  if (rule.minAmount !== undefined && rule.maxAmount !== undefined && rule.minAmount > rule.maxAmount) return '最小金额不能大于最大金额';
+  if (!rule.category) return '请选择分类';
+  return null;
+};
+
+const matchesText = (rule: CategoryRule, text: string): boolean => {
+  const pattern = rule.pattern.trim();
+  if (!pattern) return true;
+  const value = text.trim().toLowerCase();
+  if (!value) return false;
+  switch (rule.mode) {
+    case 'exact':
+      return value === pattern.toLowerCase();
+    case 'regex':
+      return !!compile(pattern)?.test(value);
+    case 'keyword':
+    default:
+      return splitKeywords(pattern).some(k => value.includes(k));
+  }
+};
+
+// Amounts are compared in the record's own currency
+export const ruleMatches = (rule: CategoryRule, tx: RuleSubject): boolean => {
+  const amount = Math.abs(Number(tx.amount) || 0);
+  if (rule.minAmount !== undefined && amount < rule.minAmount) return false;
+  if (rule.maxAmount !== undefined && amount > rule.maxAmount) return false;
+  return matchesText(rule, rule.field === 'location' ? tx.location || '' : tx.name);
+};
+
+// The first enabled rule, in order, that matches and whose category is active and fits the
+// record's direction (expense categories for expenses and refunds, income ones for income).
+// Transfers are never categorized by rules.
+export const findRule = (rules: CategoryRule[], tx: RuleSubject, registry: CategoryRegistry): CategoryRule | undefined => {
+  if (tx.direction === 'transfer') return undefined;
+  const kind = kindFor(tx.direction as Direction);
+  return rules
+    .filter(r => r.enabled)
+    .sort((a, b) => a.order - b.order)
+    .find(r => registry.resolve(r.category, kind) === r.category && ruleMatches(r, tx));
+};
+
+export interface RuleChange {
+  tx: Transaction;
+  rule: CategoryRule;
+  category: CategoryId;
+}
+
+// Records whose category the rules would change, for applying rules to existing history
+export const planRuleChanges = (rules: CategoryRule[], transactions: Transaction[], registry: CategoryRegistry): RuleChange[] =>
+  transactions.flatMap(tx => {
+    const rule = findRule(rules, tx, registry);
+    return rule && rule.category !== tx.category ? [{ tx, rule, category: rule.category }] : [];
+  });
+
+export const RulesContext = createContext<CategoryRule[]>(DEFAULT_RULES);
+
+export const useRules = () => useContext(RulesContext);
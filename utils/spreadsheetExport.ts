@@ -0,0 +1,93 @@
+import { Account, Transaction } from '../types';
+import { DIRECTION_LABELS } from '../constants';
+import { CategoryRegistry } from './categories';
+import { accountName } from './accounts';
+import { CurrencyConverter } from './currency';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+export type ExportColumn = 'date' | 'time' | 'name' | 'direction' | 'category' | 'amount' | 'currency' | 'baseAmount' | 'account' | 'location' | 'note';
+
+export const EXPORT_COLUMN_LABELS: Record<ExportColumn, string> = {
+  date: '日期',
+  time: '时间',
+  name: '名称',
+  direction: '收支',
+  category: '分类',
+  amount: '金额',
+  currency: '币种',
+  baseAmount: '折合报表币种',
+  account: '账户',
+  location: '地点',
+  note: '备注',
+};
+
+const ALL_COLUMNS = Object.keys(EXPORT_COLUMN_LABELS) as ExportColumn[];
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = ['date', 'time', 'name', 'direction', 'category', 'amount', 'currency', 'account', 'note'];
+
+const STORAGE_KEY = 'spreadsheetExport';
+
+export const loadExportColumns = (): ExportColumn[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!Array.isArray(saved)) return DEFAULT_EXPORT_COLUMNS;
+    const columns = ALL_COLUMNS.filter(c => saved.includes(c));
+    return columns.length ? columns : DEFAULT_EXPORT_COLUMNS;
+  } catch {
+    return DEFAULT_EXPORT_COLUMNS;
+  }
+};
+
+export const saveExportColumns = (columns: ExportColumn[]) => {
+  try { localStorage.setItem(STORAGE_KEY, JSON.stringify(columns)); } catch {}
+};
+
+export type Cell = string | number | null;
+
+interface RowContext {
+  registry: CategoryRegistry;
+  accounts: Account[];
+  currency: CurrencyConverter;
+}
+
+// Amounts stay positive, as in the app; the 收支 column says which way the money went
+const cellOf = (t: Transaction, column: ExportColumn, ctx: RowContext): Cell => {
+  switch (column) {
+    case 'date': return t.date.slice(0, 10);
+    case 'time': return t.date.slice(11, 16);
+    case 'name': return t.name;
+    case 'direction': return DIRECTION_LABELS[t.direction];
+    case 'category': return t.direction === 'transfer' ? '' : ctx.registry.label(t.category);
+    case 'amount': return t.amount;
+    case 'currency': return t.currency;
+    case 'baseAmount': return ctx.currency.convert(t.amount, t.currency) ?? null;
+    case 'account':
+      return t.direction === 'transfer'
+        ? `${accountName(ctx.accounts, t.accountId)} → ${accountName(ctx.accounts, t.toAccountId)}`
+        : t.accountId ? accountName(ctx.accounts, t.accountId) : '';
+    case 'location': return t.location || '';
+    case 'note': return t.note || '';
+  }
+};
+
+// Header row first; columns in the order they are listed above, whatever order they were picked in
+export const exportRows = (transactions: Transaction[], columns: ExportColumn[], ctx: RowContext): Cell[][] => {
+  const picked = ALL_COLUMNS.filter(c => columns.includes(c));
+  const header = picked.map(c => (c === 'baseAmount' ? `折合 ${ctx.currency.base}` : EXPORT_COLUMN_LABELS[c]));
+  return [header, ...transactions.map(t => picked.map(c => cellOf(t, c, ctx)))];
+};
+
+// Spreadsheet apps would run text starting with these as a formula
+const FORMULA_START = /^[=+\-@]/;
+
+const csvField = (cell: Cell) => {
+  if (cell === null) return '';
+  if (typeof cell === 'number') return String(cell);
+  const text = FORMULA_START.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// With a BOM and CRLF line ends, so Excel opens the UTF-8 text correctly
+export const toCsv = (rows: Cell[][]): Blob =>
+  new Blob(['\uFEFF' + rows.map(r => r.map(csvField).join(',')).join('\r\n') + '\r\n'], { type: 'text/csv;charset=utf-8' });
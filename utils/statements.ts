@@ -0,0 +1,183 @@
+import { Account, AccountType, Category, NewTransaction } from '../types';
+import { FALLBACK_CATEGORIES } from '../constants';
+import { RecognitionContext, parseRecognizedItems } from '../services/geminiService';
+import { kindFor } from './categories';
+import { parseCsv } from './csv';
+
+// Bill statements exported by payment apps, parsed locally without the recognition server
+export type StatementFormat = 'alipay' | 'wechat';
+
+export const STATEMENT_LABELS: Record<StatementFormat, string> = {
+  alipay: '支付宝',
+  wechat: '微信支付',
+};
+
+export interface StatementImport {
+  format: StatementFormat;
+  transactions: NewTransaction[];
+  skipped: Record<string, number>; // rows left out, by reason
+}
+
+interface StatementRow {
+  date: string;
+  name: string;
+  goods?: string;
+  amount: number;
+  direction: 'expense' | 'income' | 'refund';
+  category?: string; // the platform's own classification, when it has one
+}
+
+type RowResult = StatementRow | { skip: string };
+
+interface StatementParser {
+  format: StatementFormat;
+  account: AccountType;
+  // True when the row is this format's column header
+  isHeader: (cells: string[]) => boolean;
+  parse: (rows: Record<string, string>[]) => RowResult[];
+}
+
+const amountOf = (raw: string | undefined) => Number(String(raw ?? '').replace(/[¥￥,\s]/g, ''));
+
+// Placeholders both apps put in empty cells
+const text = (raw: string | undefined) => {
+  const s = String(raw ?? '').trim();
+  return s === '/' || s === '-' ? '' : s;
+};
+
+// Alipay classifies purchases itself; close matches are used when no rule or learned preference applies
+const ALIPAY_CATEGORIES: Record<string, Category> = {
+  餐饮美食: Category.Food,
+  交通出行: Category.Transport,
+  爱车养车: Category.Transport,
+  日用百货: Category.Shopping,
+  服饰装扮: Category.Shopping,
+  数码电器: Category.Shopping,
+  美容美发: Category.Shopping,
+  母婴亲子: Category.Shopping,
+  家居家装: Category.Home,
+  住房物业: Category.Home,
+  生活服务: Category.Home,
+  充值缴费: Category.Home,
+  医疗健康: Category.Medical,
+  教育培训: Category.Education,
+  文化休闲: Category.Entertainment,
+  运动户外: Category.Entertainment,
+  酒店旅游: Category.Entertainment,
+  投资理财: Category.Investment,
+  转账红包: Category.Gift,
+};
+
+// Both the current app export and the older web export ("交易创建时间", "金额（元）", padded cells)
+const alipay: StatementParser = {
+  format: 'alipay',
+  account: 'alipay',
+  isHeader: cells => cells.includes('交易对方') && cells.includes('交易状态') && cells.includes('收/支'),
+  parse: rows => {
+    // A fully refunded purchase is closed, and its refund row names the same merchant order. A
+    // partially refunded one lists the refund under 成功退款 and is recorded net of it, so in both
+    // cases the separate refund row is left out.
+    const refundedOrders = new Set<string>();
+    for (const r of rows) {
+      const covered = text(r['交易状态']) === '交易关闭' || (text(r['收/支']) === '支出' && (amountOf(r['成功退款（元）']) || 0) > 0);
+      if (covered) [r['商家订单号'], r['交易订单号'] || r['交易号']].map(text).filter(Boolean).forEach(id => refundedOrders.add(id));
+    }
+    return rows.map((r): RowResult => {
+      const status = text(r['交易状态']);
+      const inOut = text(r['收/支']);
+      const goods = text(r['商品说明'] || r['商品名称']);
+      const refunded = amountOf(r['成功退款（元）']) || 0;
+      const amount = amountOf(r['金额'] ?? r['金额（元）']) - (inOut === '支出' ? refunded : 0);
+      if (status === '交易关闭') return { skip: '交易关闭' };
+      if (!status || /失败|等待付款|未付款/.test(status)) return { skip: '未完成' };
+      const base = {
+        date: text(r['交易时间'] || r['付款时间'] || r['交易创建时间']),
+        name: text(r['交易对方']) || goods,
+        goods: goods || undefined,
+        amount,
+        category: ALIPAY_CATEGORIES[text(r['交易分类'])],
+      };
+      if (status === '退款成功' || goods.startsWith('退款')) {
+        const order = text(r['商家订单号']);
+        const original = text(r['交易订单号'] || r['交易号']).split(/[_*]/)[0];
+        return refundedOrders.has(order) || refundedOrders.has(original) ? { skip: '已退款' } : { ...base, direction: 'refund' };
+      }
+      if (inOut === '支出') return amount > 0 ? { ...base, direction: 'expense' } : { skip: '已退款' };
+      if (inOut === '收入') return { ...base, direction: 'income' };
+      // 不计收支: moving money between own accounts, repayments, top-ups and withdrawals
+      return { skip: '不计收支' };
+    });
+  },
+};
+
+const wechat: StatementParser = {
+  format: 'wechat',
+  account: 'wechat',
+  isHeader: cells => cells.includes('交易类型') && cells.includes('当前状态') && cells.includes('收/支'),
+  parse: rows => {
+    // The original payment of a full refund is marked 已全额退款 and shares the merchant order with the refund
+    const refunded = new Set<string>();
+    for (const r of rows) {
+      if (text(r['收/支']) === '支出' && text(r['当前状态']).includes('已全额退款')) refunded.add(text(r['商户单号']));
+    }
+    refunded.delete('');
+    return rows.map((r): RowResult => {
+      const status = text(r['当前状态']);
+      const inOut = text(r['收/支']);
+      const type = text(r['交易类型']);
+      const goods = text(r['商品']);
+      if (!inOut) return { skip: '不计收支' }; // 零钱提现, 转入零钱通, credit card repayments
+      if (status.includes('退还')) return { skip: '对方已退还' };
+      if (/失败|已关闭/.test(status)) return { skip: '未完成' };
+      const base = {
+        date: text(r['交易时间']),
+        name: text(r['交易对方']) || goods || type,
+        goods: goods || undefined,
+        amount: amountOf(r['金额(元)'] ?? r['金额（元）']),
+      };
+      if (type.includes('退款') && inOut === '收入') {
+        return refunded.has(text(r['商户单号'])) ? { skip: '已退款' } : { ...base, direction: 'refund' };
+      }
+      if (inOut === '支出') return status.includes('已全额退款') ? { skip: '已退款' } : { ...base, direction: 'expense' };
+      if (inOut === '收入') return { ...base, direction: 'income' };
+      return { skip: '不计收支' };
+    });
+  },
+};
+
+const PARSERS = [alipay, wechat];
+
+// The header is preceded by an account summary, and the old Alipay export is followed by totals
+const HEADER_SEARCH_ROWS = 60;
+
+export const parseStatement = (content: string, ctx: RecognitionContext, accounts: Account[]): StatementImport => {
+  const rows = parseCsv(content).map(cells => cells.map(c => c.trim()));
+  for (const parser of PARSERS) {
+    const headerIndex = rows.slice(0, HEADER_SEARCH_ROWS).findIndex(parser.isHeader);
+    if (headerIndex < 0) continue;
+    const header = rows[headerIndex];
+    const records = rows
+      .slice(headerIndex + 1)
+      // Records start with a date or, in the old Alipay export, a numeric trade number
+      .filter(cells => /^\d{4}/.test(cells[0] || ''))
+      .map(cells => Object.fromEntries(header.map((h, i) => [h, cells[i] ?? ''])));
+
+    const skipped: Record<string, number> = {};
+    const kept: StatementRow[] = [];
+    for (const result of parser.parse(records)) {
+      if ('skip' in result) skipped[result.skip] = (skipped[result.skip] || 0) + 1;
+      else kept.push(result);
+    }
+
+    // Same normalization as recognized bills: canonical merchants, rules and learned categories
+    const accountId = accounts.find(a => a.type === parser.account && !a.archived)?.id;
+    const transactions = parseRecognizedItems(kept.map(r => ({ ...r, currency: 'CNY' })), ctx).map((tx, i) => ({
+      ...tx,
+      category: tx.category || FALLBACK_CATEGORIES[kindFor(tx.direction)],
+      note: kept[i].goods && kept[i].goods !== tx.name ? kept[i].goods : undefined,
+      accountId,
+    }));
+    return { format: parser.format, transactions, skipped };
+  }
+  throw new Error('无法识别账单格式，目前支持支付宝和微信支付导出的 CSV 账单');
+};
@@ -0,0 +1,166 @@
+import { ImportField, ImportPreset, NewTransaction } from '../types';
+import { FALLBACK_CATEGORIES } from '../constants';
+import { RecognitionContext, parseRecognizedItems } from '../services/geminiService';
+import { kindFor } from './categories';
+import { decodeText, detectDelimiter, parseCsv } from './csv';
+import { normalizeDateTime } from './review';
+import { excelSerialToDate, readXlsx } from './xlsx';
+
+export const newImportPresetId = () => 'preset-' + Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  date: '日期',
+  name: '名称',
+  amount: '金额',
+  category: '分类',
+  location: '地点',
+};
+
+export const REQUIRED_FIELDS: ImportField[] = ['date', 'name', 'amount'];
+
+// Offered in the wizard; any other combination of the same tokens can be typed in
+export const DATE_FORMATS = ['YYYY-MM-DD HH:mm', 'YYYY/MM/DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY', 'YYYYMMDD', 'YYYY年M月D日'];
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Files that go through the local import wizard instead of bill recognition
+export const isSpreadsheet = (file: File) =>
+  /\.(csv|xlsx)$/i.test(file.name) || file.type === 'text/csv' || file.type === XLSX_MIME;
+
+export const readTable = async (file: File): Promise<string[][]> => {
+  const buffer = await file.arrayBuffer();
+  if (/\.xlsx$/i.test(file.name) || file.type === XLSX_MIME) return readXlsx(buffer);
+  const text = decodeText(buffer);
+  return parseCsv(text, detectDelimiter(text)).map(cells => cells.map(c => c.trim()));
+};
+
+// "A", "B", … "AA" for column headers in the wizard
+export const columnLetter = (index: number): string =>
+  (index >= 26 ? columnLetter(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+// Exports often start with an account summary; the header is the first row as wide as the table
+export const guessHeaderRow = (rows: string[][]): number => {
+  const filled = rows.slice(0, 30).map(r => r.filter(c => String(c).trim()).length);
+  const widest = Math.max(0, ...filled);
+  return Math.max(0, filled.findIndex(n => n === widest));
+};
+
+const HEADER_HINTS: Record<ImportField, RegExp> = {
+  date: /日期|时间|時間|日付|date|time|datum/i,
+  amount: /金额|金額|amount|betrag|montant|sum/i,
+  name: /名称|商户|商户名|对方|摘要|说明|描述|内容|店名|name|payee|merchant|description|memo/i,
+  category: /分类|类别|分類|カテゴリ|category/i,
+  location: /地点|地址|場所|location|place|address/i,
+};
+
+export const guessColumns = (header: string[]): ImportPreset['columns'] => {
+  const columns: ImportPreset['columns'] = {};
+  const used = new Set<number>();
+  (Object.keys(HEADER_HINTS) as ImportField[]).forEach(field => {
+    const i = header.findIndex((h, i) => !used.has(i) && HEADER_HINTS[field].test(h));
+    if (i >= 0) { columns[field] = i; used.add(i); }
+  });
+  return columns;
+};
+
+export const newPreset = (rows: string[][], currency: string): ImportPreset => {
+  const headerRow = guessHeaderRow(rows);
+  const header = rows[headerRow] || [];
+  return { id: '', name: '', header, headerRow, columns: guessColumns(header), dateFormat: '', decimal: '.', sign: 'negative-expense', currency };
+};
+
+// A saved preset applies again when the file has the same header in the same place
+export const matchPreset = (presets: ImportPreset[], rows: string[][]): ImportPreset | undefined =>
+  presets.find(p => {
+    const header = rows[p.headerRow];
+    return !!header && p.header.length > 0 && p.header.join('\u0000') === header.join('\u0000');
+  });
+
+const DATE_TOKENS: Record<string, string> = {
+  YYYY: '(\\d{4})', YY: '(\\d{2})', MM: '(\\d{1,2})', M: '(\\d{1,2})', DD: '(\\d{1,2})', D: '(\\d{1,2})',
+  HH: '(\\d{1,2})', H: '(\\d{1,2})', mm: '(\\d{2})', ss: '(\\d{2})',
+};
+
+const formatCache = new Map<string, { re: RegExp; tokens: string[] }>();
+const compileFormat = (format: string) => {
+  if (!formatCache.has(format)) {
+    const tokens: string[] = [];
+    const source = format.replace(/YYYY|YY|MM|M|DD|D|HH|H|mm|ss|[.*+?^${}()|[\]\\]/g, t => {
+      if (DATE_TOKENS[t]) { tokens.push(t); return DATE_TOKENS[t]; }
+      return '\\' + t;
+    });
+    formatCache.set(format, { re: new RegExp('^' + source.replace(/\s+/g, '\\s+')), tokens });
+  }
+  return formatCache.get(format)!;
+};
+
+// Empty format: ISO-like dates as recognizers return them. XLSX date cells arrive as serial numbers.
+export const parseDate = (raw: string, format: string): string => {
+  const s = raw.trim();
+  if (/^\d{5}(\.\d+)?$/.test(s)) return excelSerialToDate(Number(s));
+  if (!format.trim()) return normalizeDateTime(s);
+  const { re, tokens } = compileFormat(format.trim());
+  const m = re.exec(s);
+  if (!m) return '';
+  const part: Record<string, number> = {};
+  tokens.forEach((t, i) => { part[t[0]] = Number(m[i + 1]); });
+  const year = tokens.includes('YY') ? 2000 + part.Y : part.Y;
+  const pad = (n: number | undefined) => String(n ?? 0).padStart(2, '0');
+  return `${year}-${pad(part.M)}-${pad(part.D)}T${pad(part.H)}:${pad(part.m)}`;
+};
+
+// "1.234,56", "-1,234.56", "(12.00)" and "¥1,200" all work; NaN when there is no number
+export const parseAmount = (raw: string, decimal: ImportPreset['decimal']): number => {
+  const s = raw.trim();
+  const negative = /^\(.*\)$/.test(s) || /[-−]/.test(s);
+  let digits = s.replace(/[^\d.,]/g, '');
+  digits = decimal === ',' ? digits.replace(/\./g, '').replace(',', '.') : digits.replace(/,/g, '');
+  if (!digits) return NaN;
+  const n = Number(digits);
+  return negative ? -n : n;
+};
+
+const isValidDate = (s: string) => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(s) && !isNaN(new Date(s).getTime());
+
+export interface MappedRow {
+  row: number; // 0-based index in the file
+  tx?: NewTransaction;
+  problem?: string;
+}
+
+// Data rows below the header, turned into records with the same normalization as recognized
+// bills; blank rows are left out, rows that cannot be read say why
+export const mapRows = (rows: string[][], preset: ImportPreset, ctx: RecognitionContext): MappedRow[] => {
+  const cell = (cells: string[], field: ImportField) => {
+    const i = preset.columns[field];
+    return i === undefined ? '' : String(cells[i] ?? '').trim();
+  };
+  const out: MappedRow[] = [];
+  const items: { index: number; category: string; raw: Record<string, unknown> }[] = [];
+  rows.slice(preset.headerRow + 1).forEach((cells, offset) => {
+    const row = preset.headerRow + 1 + offset;
+    if (!cells.some(c => String(c ?? '').trim())) return;
+    const name = cell(cells, 'name');
+    const amount = parseAmount(cell(cells, 'amount'), preset.decimal);
+    const date = parseDate(cell(cells, 'date'), preset.dateFormat);
+    const problem = !name ? '缺少名称' : !isFinite(amount) || amount === 0 ? '金额无效' : !isValidDate(date) ? '日期无效' : undefined;
+    out.push({ row, problem });
+    if (problem) return;
+    const outgoing = preset.sign === 'negative-expense' ? amount < 0 : amount > 0;
+    const direction = outgoing ? 'expense' : preset.sign === 'negative-expense' ? 'income' : 'refund';
+    const category = cell(cells, 'category');
+    items.push({
+      index: out.length - 1,
+      category,
+      raw: { name, date, amount: Math.abs(amount), currency: preset.currency, direction, location: cell(cells, 'location') || undefined, category },
+    });
+  });
+
+  // A mapped category column wins; rules and learned preferences fill in the rest
+  parseRecognizedItems(items.map(it => it.raw), ctx).forEach((tx, i) => {
+    const kind = kindFor(tx.direction);
+    const category = ctx.registry.resolve(items[i].category, kind) || tx.category || FALLBACK_CATEGORIES[kind];
+    out[items[i].index].tx = { ...tx, category };
+  });
+  return out;
+};
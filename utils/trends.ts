@@ -0,0 +1,50 @@
+import { CategoryId, Transaction } from '../types';
+import { CategoryRegistry } from './categories';
+import { addMonths } from './helpers';
+
+export type TrendPreset = 6 | 12 | 24;
+
+// Every YYYY-MM from `from` to `to`, inclusive
+export const monthsBetween = (from: string, to: string): string[] => {
+  const out: string[] = [];
+  for (let ym = from; ym <= to && out.length < 600; ym = addMonths(ym, 1)) out.push(ym);
+  return out;
+};
+
+// Net spending per month and category, in the report currency. At the top level records roll up
+// to their root category; drilled into `parent`, they are split by subcategory, with records filed
+// on the parent itself kept under the parent's ID.
+export const spendingMatrix = (
+  transactions: Transaction[],
+  registry: CategoryRegistry,
+  amountOf: (t: Transaction) => number,
+  parent?: CategoryId,
+): Map<string, Map<CategoryId, number>> => {
+  const out = new Map<string, Map<CategoryId, number>>();
+  for (const t of transactions) {
+    if (t.direction === 'income' || t.direction === 'transfer') continue;
+    const root = registry.rootOf(t.category);
+    if (parent && root !== parent) continue;
+    const key = parent ? t.category : root;
+    const ym = t.date.slice(0, 7);
+    const amount = amountOf(t);
+    let month = out.get(ym);
+    if (!month) { month = new Map(); out.set(ym, month); }
+    month.set(key, (month.get(key) || 0) + (t.direction === 'refund' ? -amount : amount));
+  }
+  return out;
+};
+
+// Months where refunds outweigh spending count as zero, as in the category pie
+export const spentIn = (matrix: Map<string, Map<CategoryId, number>>, month: string, category?: CategoryId): number => {
+  const m = matrix.get(month);
+  if (!m) return 0;
+  if (category) return Math.max(0, m.get(category) || 0);
+  let total = 0;
+  m.forEach(v => { total += Math.max(0, v); });
+  return total;
+};
+
+// Relative change, or null when there is nothing to compare against
+export const relativeChange = (current: number, previous: number): number | null =>
+  previous > 0 ? (current - previous) / previous : null;
@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { QueuedBill } from '../types';
+import { recognizeBill } from '../services/geminiService';
+import { RecognizerConfig, createRecognizer, isNetworkError } from '../services/recognizers';
+import { CategoryRegistry } from './categories';
+import { usePersistentList } from './usePersistentList';
+import { fileToBase64 } from './helpers';
+import { requestQueueSync } from './registerSW';
+
+export const newQueuedBillId = () => 'q-' + Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+
+// Bills captured offline, persisted with their files. Pending bills are recognized when a
+// connection is available: by the service worker's Background Sync where supported, and
+// otherwise (or for backends the worker cannot run) here on load, reconnect and focus.
+// Recognized bills stay in the queue until the user has reviewed them.
+export function useBillQueue(config: RecognizerConfig, registry: CategoryRegistry) {
+  const [queue, setQueue, loaded] = usePersistentList<QueuedBill>(
+    'queue',
+    q => q.id,
+    // A bill left 'processing' belonged to a session that was closed mid-request
+    list => list
+      .map(q => (q.status === 'processing' ? { ...q, status: 'pending' as const } : q))
+      .sort((a, b) => a.addedAt.localeCompare(b.addedAt)),
+  );
+  // Bumped to ask for another pass, e.g. after a retry or when the connection returns
+  const [kick, setKick] = useState(0);
+  const runningRef = useRef(false);
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+  const configRef = useRef(config);
+  configRef.current = config;
+  const registryRef = useRef(registry);
+  registryRef.current = registry;
+
+  const patch = (id: string, changes: Partial<QueuedBill>) =>
+    setQueue(prev => prev.map(q => (q.id === id ? { ...q, ...changes } : q)));
+
+  const process = useCallback(async () => {
+    if (runningRef.current || !navigator.onLine) return;
+    runningRef.current = true;
+    const tried = new Set<string>();
+    try {
+      const recognizer = createRecognizer(configRef.current);
+      let item: QueuedBill | undefined;
+      while ((item = queueRef.current.find(q => q.status === 'pending' && !tried.has(q.id)))) {
+        tried.add(item.id);
+        patch(item.id, { status: 'processing' });
+        try {
+          const base64Image = await fileToBase64(item.blob);
+          const result = await recognizeBill(base64Image, item.type, registryRef.current, recognizer);
+          patch(item.id, { status: 'ready', result, error: undefined, attempts: item.attempts + 1 });
+        } catch (e) {
+          if (isNetworkError(e)) {
+            // Lost the connection again: leave it for the next sync
+            patch(item.id, { status: 'pending' });
+            requestQueueSync();
+            break;
+          }
+          const msg = e && typeof e === 'object' && 'message' in e ? (e as any).message : String(e);
+          patch(item.id, { status: 'failed', error: msg, attempts: item.attempts + 1 });
+        }
+      }
+    } finally {
+      runningRef.current = false;
+    }
+  }, []);
+
+  useEffect(() => {
+    if (loaded && queue.some(q => q.status === 'pending')) process();
+  }, [loaded, queue.length, kick]);
+
+  useEffect(() => {
+    const wake = () => setKick(k => k + 1);
+    // Background Sync fired while the app is open: the worker leaves the work to us
+    const onMessage = (e: MessageEvent) => {
+      if (e.data?.type === 'PROCESS_BILL_QUEUE') wake();
+    };
+    window.addEventListener('online', wake);
+    window.addEventListener('focus', wake);
+    navigator.serviceWorker?.addEventListener('message', onMessage);
+    return () => {
+      window.removeEventListener('online', wake);
+      window.removeEventListener('focus', wake);
+      navigator.serviceWorker?.removeEventListener('message', onMessage);
+    };
+  }, []);
+
+  const enqueue = (files: File[]) => {
+    const addedAt = new Date().toISOString();
+    const items: QueuedBill[] = files.map(file => ({
+      id: newQueuedBillId(),
+      name: file.name,
+      type: file.type,
+      blob: file,
+      addedAt,
+      status: 'pending',
+      attempts: 0,
+    }));
+    setQueue(prev => [...prev, ...items]);
+    requestQueueSync();
+  };
+
+  const retry = (id: string) => {
+    patch(id, { status: 'pending', error: undefined });
+    setKick(k => k + 1);
+    requestQueueSync();
+  };
+
+  const remove = (ids: string[]) => setQueue(prev => prev.filter(q => !ids.includes(q.id)));
+
+  return { queue, enqueue, retry, remove };
+}
@@ -0,0 +1,40 @@
+import { useEffect, useRef, useState } from 'react';
+import { getAll, syncStore, StoreName } from '../services/db';
+
+// React state backed by an IndexedDB object store. The list is loaded once on mount;
+// afterwards every change is diffed against the last persisted snapshot and only the
+// changed records are written. Nothing is written before the initial load finishes.
+export function usePersistentList<T>(
+  store: StoreName,
+  keyOf: (item: T) => IDBValidKey,
+  onLoad?: (items: T[]) => T[],
+) {
+  const [items, setItems] = useState<T[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const persistedRef = useRef<T[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getAll<T>(store)
+      .then((stored) => {
+        if (cancelled) return;
+        // Keep the raw stored list as the baseline so onLoad changes get written back
+        persistedRef.current = stored;
+        setItems(onLoad ? onLoad(stored) : stored);
+      })
+      .catch((error) => console.error(`Could not load "${store}" from IndexedDB`, error))
+      .finally(() => { if (!cancelled) setLoaded(true); });
+    return () => { cancelled = true; };
+  }, [store]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    const prev = persistedRef.current;
+    persistedRef.current = items;
+    syncStore(store, prev, items, keyOf).catch((error) =>
+      console.error(`Could not save "${store}" to IndexedDB`, error)
+    );
+  }, [items, loaded]);
+
+  return [items, setItems, loaded] as const;
+}
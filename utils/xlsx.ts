@@ -0,0 +1,210 @@
+// Just enough of the XLSX format to read the first worksheet as a grid of strings, and to write
+// one: an .xlsx file is a zip of XML parts, unpacked here with the browser's DecompressionStream.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+
+const readZip = async (buffer: ArrayBuffer): Promise<Map<string, () => Promise<string>>> => {
+  const view = new DataView(buffer);
+  // The end-of-central-directory record is at the end, followed by a comment of up to 64 KB
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) { eocd = i; break; }
+  }
+  if (eocd < 0) throw new Error('不是有效的 XLSX 文件');
+
+  const entries = new Map<string, () => Promise<string>>();
+  const count = view.getUint16(eocd + 10, true);
+  let p = view.getUint32(eocd + 16, true);
+  const utf8 = new TextDecoder('utf-8');
+  for (let n = 0; n < count && view.getUint32(p, true) === CENTRAL_SIGNATURE; n++) {
+    const method = view.getUint16(p + 10, true);
+    const size = view.getUint32(p + 20, true);
+    const nameLen = view.getUint16(p + 28, true);
+    const extraLen = view.getUint16(p + 30, true);
+    const commentLen = view.getUint16(p + 32, true);
+    const local = view.getUint32(p + 42, true);
+    const name = utf8.decode(new Uint8Array(buffer, p + 46, nameLen));
+    // Sizes are taken from the central directory; the local header may leave them out
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const data = new Uint8Array(buffer, start, size);
+    entries.set(name, async () => {
+      if (method === 0) return utf8.decode(data);
+      if (method !== 8) throw new Error(`不支持的压缩方式：${method}`);
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).text();
+    });
+    p += 46 + nameLen + extraLen + commentLen;
+  }
+  return entries;
+};
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+// Elements by local name, whatever namespace prefix the writer used
+const byTag = (node: Document | Element, tag: string) => Array.from(node.getElementsByTagNameNS('*', tag));
+
+// "AB12" → 27 (0-based column index)
+const columnIndex = (ref: string) => {
+  const letters = /^[A-Z]+/.exec(ref)?.[0] || 'A';
+  return letters.split('').reduce((n, ch) => n * 26 + ch.charCodeAt(0) - 64, 0) - 1;
+};
+
+const resolvePath = (target: string) => (target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`);
+
+// Dates come back as Excel serial numbers; see excelSerialToDate
+export const readXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const zip = await readZip(buffer);
+  const read = async (path: string) => {
+    const entry = zip.get(path);
+    return entry ? parseXml(await entry()) : null;
+  };
+
+  // The first sheet in workbook order, located through the workbook relationships
+  const workbook = await read('xl/workbook.xml');
+  const rels = await read('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook && byTag(workbook, 'sheet')[0];
+  const relId = firstSheet?.getAttribute('r:id') || firstSheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+  const target = rels && byTag(rels, 'Relationship').find(r => r.getAttribute('Id') === relId)?.getAttribute('Target');
+  const sheetPath = target ? resolvePath(target) : Array.from(zip.keys()).find(k => /^xl\/worksheets\/[^/]+\.xml$/.test(k));
+  const sheet = sheetPath && (await read(sheetPath));
+  if (!sheet) throw new Error('XLSX 文件中没有工作表');
+
+  const sharedDoc = await read('xl/sharedStrings.xml');
+  // Rich text is split into runs; phonetic guides (rPh) are not part of the value
+  const textOf = (node: Element) => byTag(node, 't').filter(t => (t.parentNode as Element | null)?.localName !== 'rPh').map(t => t.textContent || '').join('');
+  const shared = sharedDoc ? byTag(sharedDoc, 'si').map(textOf) : [];
+
+  const rows: string[][] = [];
+  for (const row of byTag(sheet, 'row')) {
+    const r = Number(row.getAttribute('r')) - 1;
+    const cells: string[] = [];
+    byTag(row, 'c').forEach((c, i) => {
+      const ref = c.getAttribute('r');
+      const col = ref ? columnIndex(ref) : i;
+      const type = c.getAttribute('t');
+      const v = byTag(c, 'v')[0]?.textContent ?? '';
+      cells[col] =
+        type === 's' ? shared[Number(v)] ?? ''
+        : type === 'inlineStr' ? textOf(c)
+        : type === 'b' ? (v === '1' ? 'TRUE' : 'FALSE')
+        : v;
+    });
+    rows[Number.isFinite(r) && r >= 0 ? r : rows.length] = Array.from(cells, c => c ?? '');
+  }
+  return Array.from(rows, r => r ?? []);
+};
+
+// Excel serial 25569 is 1970-01-01; times are fractions of a day and carry no time zone
+export const excelSerialToDate = (serial: number): string => {
+  const ms = Math.round((serial - 25569) * 86400 * 1000);
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}T${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}`;
+};
+
+// Writing: an uncompressed ("stored") zip is valid XLSX and needs no deflate implementation
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let c = 0xffffffff;
+  for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const writeZip = (files: [string, string][]): Blob => {
+  const utf8 = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+  for (const [path, content] of files) {
+    const name = utf8.encode(path);
+    const data = utf8.encode(content);
+    const crc = crc32(data);
+    // Shared by the local header (from offset 4) and the central directory entry (from offset 6)
+    const fields = (view: DataView, at: number) => {
+      view.setUint16(at, 20, true); // version needed
+      view.setUint16(at + 2, 0x0800, true); // UTF-8 names
+      view.setUint16(at + 4, 0, true); // stored
+      view.setUint16(at + 6, 0, true); // time
+      view.setUint16(at + 8, 0x21, true); // date: 1980-01-01
+      view.setUint32(at + 10, crc, true);
+      view.setUint32(at + 14, data.length, true);
+      view.setUint32(at + 18, data.length, true);
+      view.setUint16(at + 22, name.length, true);
+    };
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    fields(lv, 4);
+    local.set(name, 30);
+    parts.push(local, data);
+
+    const entry = new Uint8Array(46 + name.length);
+    const cv = new DataView(entry.buffer);
+    cv.setUint32(0, CENTRAL_SIGNATURE, true);
+    cv.setUint16(4, 20, true); // version made by
+    fields(cv, 6);
+    cv.setUint32(42, offset, true);
+    entry.set(name, 46);
+    central.push(entry);
+    offset += local.length + data.length;
+  }
+  const size = central.reduce((n, e) => n + e.length, 0);
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, EOCD_SIGNATURE, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, size, true);
+  ev.setUint32(16, offset, true);
+  return new Blob([...parts, ...central, eocd], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+// Control characters other than tab and line breaks are not allowed in XML
+const escapeXml = (s: string) =>
+  s.replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const columnRef = (index: number): string => (index >= 26 ? columnRef(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// One worksheet; strings are written inline, numbers as numbers, null as an empty cell
+export const writeXlsx = (rows: (string | number | null)[][], sheetName = 'Sheet1'): Blob => {
+  const sheetRows = rows.map((cells, r) => {
+    const xml = cells.map((cell, c) => {
+      const ref = `${columnRef(c)}${r + 1}`;
+      if (cell === null || cell === '') return '';
+      if (typeof cell === 'number') return Number.isFinite(cell) ? `<c r="${ref}"><v>${cell}</v></c>` : '';
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+    }).join('');
+    return `<row r="${r + 1}">${xml}</row>`;
+  }).join('');
+
+  return writeZip([
+    ['[Content_Types].xml', XML_HEADER +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>'],
+    ['_rels/.rels', XML_HEADER +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'],
+    ['xl/workbook.xml', XML_HEADER +
+      `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`],
+    ['xl/_rels/workbook.xml.rels', XML_HEADER +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '</Relationships>'],
+    ['xl/worksheets/sheet1.xml', XML_HEADER + `<worksheet xmlns="${MAIN_NS}"><sheetData>${sheetRows}</sheetData></worksheet>`],
+  ]);
+};